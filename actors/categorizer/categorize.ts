@@ -4,8 +4,13 @@ import fs from "node:fs";
 import path from "node:path";
 import readline from "node:readline";
 import { AVAILABLE_CAFES } from "../../shared/constants";
+import {
+  formatProductIssues,
+  validateCrawledProducts,
+} from "../../shared/crawledProduct";
 import { logger } from "../../shared/logger";
 import { ProductCategorizer } from "./categorizer";
+import { deriveTags } from "./tagger";
 import type {
   CategorizeOptions,
   CategorizerResult,
@@ -100,6 +105,7 @@ ${Object.entries(AVAILABLE_CAFES)
 Description:
   Categorizes products from crawler JSON files. Runs between crawl and upload commands.
   Assigns Korean categories: 커피, 차, 블렌디드, 스무디, 주스, 에이드, 아이스크림, 그 외
+  Derives tags (decaf, caffeine-free, contains-dairy, ...) from names, descriptions and nutritions.
   Processes the most recent crawler files for specified cafes.
 
 Options:
@@ -190,6 +196,18 @@ function findRecentCrawlerFiles(cafeSlugs: string[]): string[] {
   }
 }
 
+// Invalid products are still categorized; the uploader skips them
+function reportInvalidProducts(products: unknown[]): void {
+  const { invalid } = validateCrawledProducts(products);
+  if (invalid.length === 0) {
+    return;
+  }
+  logger.warn(`⚠️  ${invalid.length} invalid product(s) in file:`);
+  for (const line of formatProductIssues(invalid)) {
+    logger.warn(`  ${line}`);
+  }
+}
+
 // Read products from JSON file
 function getProductsFromJson(
   filePath: string,
@@ -206,6 +224,7 @@ function getProductsFromJson(
     logger.info(
       `📁 Loaded ${products.length} products from JSON file: ${path.basename(filePath)}`
     );
+    reportInvalidProducts(products);
     return limit ? products.slice(0, limit) : products;
   } catch (error) {
     logger.error("Failed to read products from JSON file:", error);
@@ -300,6 +319,7 @@ async function processProduct(
     );
     updateCategoryStats(result, stats);
     handleCategoryUpdate(product, finalCategory, result, options, stats);
+    handleTagUpdate(product, options, stats);
   } catch (error) {
     stats.errors++;
     logger.error(`Error processing product "${product.name}":`, error);
@@ -405,6 +425,28 @@ function handleCategoryUpdate(
   }
 }
 
+// Derive tags; hand-made overrides are kept in Convex, not in the JSON file
+function handleTagUpdate(
+  product: ProductForCategorize,
+  options: CategorizeOptions,
+  stats: CategorizeStats
+) {
+  const tags = deriveTags(product);
+  const previousTags = product.tags ?? [];
+
+  if (tags.join(",") === previousTags.join(",")) {
+    return;
+  }
+
+  product.tags = tags;
+  stats.retagged++;
+  if (options.verbose) {
+    logger.info(
+      `🏷️  Tagged "${product.name}": [${previousTags.join(", ")}] → [${tags.join(", ")}]`
+    );
+  }
+}
+
 // Process products from JSON file
 async function processJsonProducts(
   filePath: string,
@@ -416,11 +458,32 @@ async function processJsonProducts(
   const products = getProductsFromJson(filePath, options.limit);
   logger.info(`📦 Found ${products.length} products`);
 
+  await categorizeProductList(products, options, stats);
+
+  return products;
+}
+
+export function createCategorizeStats(): CategorizeStats {
+  return {
+    processed: 0,
+    updated: 0,
+    unchanged: 0,
+    retagged: 0,
+    errors: 0,
+    confidenceBreakdown: { high: 0, medium: 0, low: 0 },
+    sourceBreakdown: { direct: 0, pattern: 0, fallback: 0, human: 0 },
+  };
+}
+
+// Categorize and tag products in place
+export async function categorizeProductList(
+  products: ProductForCategorize[],
+  options: CategorizeOptions,
+  stats: CategorizeStats
+): Promise<void> {
   for (const product of products) {
     await processProduct(product, options, stats);
   }
-
-  return products;
 }
 
 // Print categorization summary
@@ -437,6 +500,7 @@ function printSummary(
   logger.info(`📦 Processed: ${stats.processed} products`);
   logger.info(`✅ Updated: ${stats.updated} products`);
   logger.info(`➡️  Unchanged: ${stats.unchanged} products`);
+  logger.info(`🏷️  Retagged: ${stats.retagged} products`);
   logger.info(`❌ Errors: ${stats.errors} products`);
   logger.info(`⏱️  Total time: ${totalTime} seconds`);
 
@@ -478,14 +542,7 @@ async function categorizeProducts(
   options: CategorizeOptions & { file?: string },
   cafeSlugs: string[]
 ): Promise<void> {
-  const stats: CategorizeStats = {
-    processed: 0,
-    updated: 0,
-    unchanged: 0,
-    errors: 0,
-    confidenceBreakdown: { high: 0, medium: 0, low: 0 },
-    sourceBreakdown: { direct: 0, pattern: 0, fallback: 0, human: 0 },
-  };
+  const stats = createCategorizeStats();
 
   const startTime = Date.now();
 
@@ -584,19 +641,21 @@ async function main() {
   }
 }
 
-// Handle graceful shutdown
-process.on("SIGINT", () => {
-  logger.info("🛑 Received SIGINT, shutting down gracefully...");
-  process.exit(0);
-});
-
-process.on("SIGTERM", () => {
-  logger.info("🛑 Received SIGTERM, shutting down gracefully...");
-  process.exit(0);
-});
-
-// Run the main function
-main().catch((error) => {
-  logger.error("Unhandled error:", error);
-  process.exit(1);
-});
+// Only run if this file is executed directly (not imported by `pnpm sync`)
+if (process.argv[1]?.endsWith("categorize.ts")) {
+  // Handle graceful shutdown
+  process.on("SIGINT", () => {
+    logger.info("🛑 Received SIGINT, shutting down gracefully...");
+    process.exit(0);
+  });
+
+  process.on("SIGTERM", () => {
+    logger.info("🛑 Received SIGTERM, shutting down gracefully...");
+    process.exit(0);
+  });
+
+  main().catch((error) => {
+    logger.error("Unhandled error:", error);
+    process.exit(1);
+  });
+}
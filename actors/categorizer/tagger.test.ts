@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { deriveTags } from "./tagger";
+
+describe("deriveTags", () => {
+  it("tags dairy drinks unless they use a plant-based milk", () => {
+    expect(deriveTags({ name: "카페 라떼" })).toEqual(["contains-dairy"]);
+    expect(deriveTags({ name: "오트 라떼" })).toEqual(["vegan-option"]);
+  });
+
+  it("reads decaf options from the description", () => {
+    expect(
+      deriveTags({
+        name: "아메리카노",
+        description: "디카페인 원두로 변경 가능합니다.",
+      })
+    ).toEqual(["decaf"]);
+  });
+
+  it("treats an explicit zero caffeine value as caffeine-free", () => {
+    expect(
+      deriveTags({ name: "레몬에이드", nutritions: { caffeine: 0 } })
+    ).toEqual(["caffeine-free"]);
+    expect(deriveTags({ name: "레몬에이드", nutritions: {} })).toEqual([]);
+    expect(
+      deriveTags({ name: "디카페인 콜드브루", nutritions: { caffeine: 0 } })
+    ).toEqual(["decaf"]);
+  });
+
+  it("keeps tags in a stable order", () => {
+    expect(deriveTags({ name: "시즌 한정 제로 밀크티" })).toEqual([
+      "contains-dairy",
+      "seasonal",
+      "limited",
+      "sugar-free",
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import type { Nutritions } from "../../shared/nutritions";
+import { PRODUCT_TAGS, type ProductTag } from "../../shared/tags";
+import type { TagRule } from "./types";
+
+export const TAG_RULES: TagRule[] = [
+  {
+    id: "decaf-keyword",
+    tag: "decaf",
+    condition: {
+      nameContains: ["디카페인", "decaf"],
+      descriptionContains: ["디카페인"],
+    },
+  },
+  {
+    id: "caffeine-free-keyword",
+    tag: "caffeine-free",
+    condition: {
+      nameContains: ["논카페인", "무카페인", "카페인프리", "caffeinefree"],
+      descriptionContains: ["논카페인", "무카페인", "카페인 프리"],
+    },
+  },
+  {
+    // Cafes list caffeine only for caffeinated drinks, so an explicit 0 is
+    // a reliable signal
+    id: "caffeine-free-nutrition",
+    tag: "caffeine-free",
+    condition: { nutritionEquals: { caffeine: 0 } },
+    exclude: ["디카페인", "decaf"],
+  },
+  {
+    id: "contains-dairy-keyword",
+    tag: "contains-dairy",
+    condition: {
+      nameContains: [
+        "라떼",
+        "우유",
+        "밀크",
+        "크림",
+        "치즈",
+        "요거트",
+        "요구르트",
+        "쉐이크",
+        "셰이크",
+        "latte",
+        "milk",
+        "cream",
+      ],
+    },
+    exclude: ["오트", "두유", "아몬드", "코코넛", "논데어리", "oat", "soy"],
+  },
+  {
+    id: "vegan-option-keyword",
+    tag: "vegan-option",
+    condition: {
+      nameContains: [
+        "오트",
+        "두유",
+        "아몬드",
+        "비건",
+        "논데어리",
+        "oat",
+        "soy",
+      ],
+      descriptionContains: ["식물성", "비건", "오트 밀크", "두유 변경"],
+    },
+  },
+  {
+    id: "seasonal-keyword",
+    tag: "seasonal",
+    condition: {
+      nameContains: [
+        "시즌",
+        "season",
+        "크리스마스",
+        "홀리데이",
+        "holiday",
+        "벚꽃",
+        "윈터",
+        "썸머",
+      ],
+      descriptionContains: ["시즌 한정", "시즌 음료"],
+    },
+  },
+  {
+    id: "limited-keyword",
+    tag: "limited",
+    condition: {
+      nameContains: ["한정", "리미티드", "limited"],
+      descriptionContains: ["한정 판매", "기간 한정", "한정 메뉴"],
+    },
+  },
+  {
+    id: "sugar-free-keyword",
+    tag: "sugar-free",
+    condition: {
+      nameContains: ["무가당", "무설탕", "슈가프리", "sugarfree", "제로"],
+      descriptionContains: ["무가당", "무설탕", "설탕 무첨가"],
+    },
+  },
+];
+
+const WHITESPACE = /\s+/g;
+
+export interface TaggerInput {
+  description?: string | null;
+  name: string;
+  nutritions?: Nutritions | null;
+}
+
+// Names are compared without spaces so "카페인 프리" and "카페인프리" match
+function normalize(text: string): string {
+  return text.toLowerCase().replace(WHITESPACE, "");
+}
+
+function containsAny(text: string, keywords?: string[]): boolean {
+  return !!keywords?.some((keyword) => text.includes(normalize(keyword)));
+}
+
+function matchesTagRule(rule: TagRule, input: TaggerInput): boolean {
+  const name = normalize(input.name);
+  const description = normalize(input.description ?? "");
+
+  if (containsAny(name, rule.exclude)) {
+    return false;
+  }
+
+  const { nameContains, descriptionContains, nutritionEquals } = rule.condition;
+  if (containsAny(name, nameContains)) {
+    return true;
+  }
+  if (containsAny(description, descriptionContains)) {
+    return true;
+  }
+  if (nutritionEquals) {
+    return Object.entries(nutritionEquals).every(
+      ([field, value]) =>
+        input.nutritions?.[field as keyof Nutritions] === value
+    );
+  }
+  return false;
+}
+
+/**
+ * Derive dietary and availability tags from a product's name, description
+ * and nutrition data. Hand-made corrections live in `products.tagOverrides`
+ * and are applied on top of these.
+ */
+export function deriveTags(
+  input: TaggerInput,
+  rules: TagRule[] = TAG_RULES
+): ProductTag[] {
+  const tags = new Set(
+    rules.filter((rule) => matchesTagRule(rule, input)).map((rule) => rule.tag)
+  );
+  // Keep a stable order so re-crawls do not look like changes
+  return PRODUCT_TAGS.filter((tag) => tags.has(tag));
+}
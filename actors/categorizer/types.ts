@@ -1,3 +1,6 @@
+import type { Nutritions } from "../../shared/nutritions";
+import type { ProductTag } from "../../shared/tags";
+
 export type Category =
   | "커피"
   | "차"
@@ -37,6 +40,19 @@ export interface CategorizationRule {
   usageCount: number;
 }
 
+export interface TagRule {
+  condition: {
+    nameContains?: string[];
+    descriptionContains?: string[];
+    // Nutrition value that must match exactly, e.g. { caffeine: 0 }
+    nutritionEquals?: Partial<Record<keyof Nutritions, number>>;
+  };
+  // Keywords that veto the rule, e.g. "오트" for a dairy latte rule
+  exclude?: string[];
+  id: string;
+  tag: ProductTag;
+}
+
 export interface CategorizationRules {
   lastUpdated: number;
   rules: CategorizationRule[];
@@ -65,6 +81,7 @@ export interface CategorizeStats {
   };
   errors: number;
   processed: number;
+  retagged: number;
   sourceBreakdown: {
     direct: number;
     pattern: number;
@@ -84,6 +101,9 @@ export interface Product {
 
 export interface ProductForCategorize {
   category?: string;
+  description?: string | null;
   externalCategory: string;
   name: string;
+  nutritions?: Nutritions | null;
+  tags?: ProductTag[];
 }
@@ -0,0 +1,351 @@
+import {
+  PlaywrightCrawler,
+  type PlaywrightCrawlingContext,
+  type Request,
+} from "crawlee";
+import type { LaunchOptions, Locator, Page } from "playwright";
+import { logger } from "../../shared/logger";
+import type { Nutritions } from "../../shared/nutritions";
+import type { ProductVariant } from "../../shared/variants";
+import { type Product, waitForLoad, writeProductsToJson } from "./crawlerUtils";
+import { createFixturePreNavigationHook } from "./fixtureReplay";
+
+// ================================================
+// TEST MODE CONFIGURATION
+// ================================================
+
+const isTestMode = process.env.CRAWLER_TEST_MODE === "true";
+
+export const TEST_MODE = {
+  enabled: isTestMode,
+  maxProducts: isTestMode
+    ? Number.parseInt(process.env.CRAWLER_MAX_PRODUCTS || "3", 10)
+    : Number.POSITIVE_INFINITY,
+  maxRequests: Number.parseInt(process.env.CRAWLER_MAX_REQUESTS || "10", 10),
+} as const;
+
+// ================================================
+// CONFIGURATION TYPES
+// ================================================
+
+export interface SiteConfig {
+  baseUrl: string;
+  /** Output key passed to writeProductsToJson, e.g. "starbucks" */
+  key: string;
+  name: string;
+  startUrls: readonly string[];
+}
+
+export interface SelectorMap {
+  /** Tried in order; the first selector that matches on a product page wins */
+  productContainers: readonly string[];
+}
+
+export interface CrawlerConfig {
+  launchOptions: LaunchOptions;
+  maxConcurrency: number;
+  /** Product pages enqueued from a single listing page */
+  maxProductPages: number;
+  /** Product containers extracted from a single product page */
+  maxProductsPerPage: number;
+  maxRequestRetries: number;
+  maxRequestsPerCrawl: number;
+  requestHandlerTimeoutSecs: number;
+}
+
+export interface ProductRequest {
+  url: string;
+  userData?: Record<string, unknown>;
+}
+
+export interface ExtractionContext {
+  page: Page;
+  request: Request;
+}
+
+const DEFAULT_LAUNCH_OPTIONS: LaunchOptions = {
+  headless: true,
+  args: ["--no-sandbox", "--disable-setuid-sandbox"],
+};
+
+export function createCrawlerConfig(
+  overrides: Partial<CrawlerConfig> = {}
+): CrawlerConfig {
+  return {
+    launchOptions: DEFAULT_LAUNCH_OPTIONS,
+    maxConcurrency: TEST_MODE.enabled ? 1 : 3,
+    maxProductPages: TEST_MODE.maxProducts,
+    maxProductsPerPage: TEST_MODE.maxProducts,
+    maxRequestRetries: 2,
+    maxRequestsPerCrawl: TEST_MODE.enabled ? TEST_MODE.maxRequests : 300,
+    requestHandlerTimeoutSecs: TEST_MODE.enabled ? 30 : 60,
+    ...overrides,
+  };
+}
+
+// ================================================
+// BASE CRAWLER
+// ================================================
+
+/**
+ * Template for cafe crawlers. Start URLs are treated as listing pages whose
+ * product page URLs come from `getProductUrls`; each product page is split
+ * into containers that are turned into products by
+ * `extractProductFromContainer` and `extractNutritionData`.
+ */
+export abstract class BaseCrawler {
+  protected abstract readonly siteConfig: SiteConfig;
+  protected abstract readonly selectors: SelectorMap;
+  protected readonly crawlerConfig: CrawlerConfig = createCrawlerConfig();
+
+  // ================================================
+  // TEMPLATE HOOKS
+  // ================================================
+
+  protected abstract getProductUrls(
+    page: Page,
+    request: Request
+  ): Promise<ProductRequest[]>;
+
+  protected abstract extractProductFromContainer(
+    container: Locator,
+    context: ExtractionContext
+  ): Promise<Product | null>;
+
+  protected abstract extractNutritionData(
+    container: Locator,
+    context: ExtractionContext
+  ): Promise<Nutritions | null>;
+
+  /** Extracts per-size variants; single-size menus keep the default of none */
+  protected extractVariants(
+    _container: Locator,
+    _context: ExtractionContext
+  ): Promise<ProductVariant[] | null> {
+    return Promise.resolve(null);
+  }
+
+  /** Moves to the next page of products; return false when there is none */
+  protected goToNextPage(
+    _page: Page,
+    _request: Request,
+    _pageNumber: number
+  ): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+
+  // ================================================
+  // PAGE HANDLERS
+  // ================================================
+
+  protected async handleListPage(
+    page: Page,
+    request: Request,
+    crawler: PlaywrightCrawler
+  ): Promise<void> {
+    const productUrls = await this.getProductUrls(page, request);
+    await this.enqueueProductPages(crawler, productUrls);
+  }
+
+  protected async enqueueProductPages(
+    crawler: PlaywrightCrawler,
+    productUrls: ProductRequest[]
+  ): Promise<void> {
+    const requestsToEnqueue = productUrls.slice(
+      0,
+      this.crawlerConfig.maxProductPages
+    );
+
+    if (TEST_MODE.enabled) {
+      logger.info(
+        `🧪 Test mode: limiting to ${requestsToEnqueue.length} product pages`
+      );
+    }
+
+    await crawler.addRequests(
+      requestsToEnqueue.map(({ url, userData }) => ({
+        url,
+        userData: { ...userData, isProductPage: true },
+      }))
+    );
+    logger.info(
+      `📋 Enqueued ${requestsToEnqueue.length} product pages for processing`
+    );
+  }
+
+  protected async handleProductPage(
+    page: Page,
+    request: Request,
+    crawler: PlaywrightCrawler
+  ): Promise<void> {
+    let pageNumber = 1;
+
+    while (true) {
+      const products = await this.extractPageProducts(page, request);
+      await Promise.all(products.map((product) => crawler.pushData(product)));
+      logger.info(
+        `📊 Added ${products.length} ${this.siteConfig.name} products from ${request.url} (page ${pageNumber})`
+      );
+
+      if (!(await this.goToNextPage(page, request, pageNumber))) {
+        break;
+      }
+      pageNumber++;
+      await waitForLoad(page);
+    }
+  }
+
+  protected async findProductContainers(page: Page): Promise<Locator[]> {
+    await page
+      .waitForSelector(this.selectors.productContainers.join(", "), {
+        timeout: 10_000,
+      })
+      .catch(() => {
+        logger.warn("Product containers did not appear within timeout");
+      });
+
+    for (const selector of this.selectors.productContainers) {
+      const containers = await page.locator(selector).all();
+      if (containers.length > 0) {
+        logger.info(
+          `Found ${containers.length} product containers using selector: ${selector}`
+        );
+        return containers;
+      }
+    }
+
+    logger.warn("No product containers found with any selector");
+    return [];
+  }
+
+  protected async extractPageProducts(
+    page: Page,
+    request: Request
+  ): Promise<Product[]> {
+    const containers = await this.findProductContainers(page);
+    const containersToProcess = containers.slice(
+      0,
+      this.crawlerConfig.maxProductsPerPage
+    );
+    const context: ExtractionContext = { page, request };
+    const products: Product[] = [];
+
+    // Containers are processed sequentially because some sites open a modal
+    // per product and only one can be open at a time
+    for (const container of containersToProcess) {
+      const product = await this.extractProduct(container, context);
+      if (
+        product &&
+        !products.some((p) => p.externalId === product.externalId)
+      ) {
+        products.push(product);
+      }
+    }
+
+    return products;
+  }
+
+  protected async extractProduct(
+    container: Locator,
+    context: ExtractionContext
+  ): Promise<Product | null> {
+    try {
+      const product = await this.extractProductFromContainer(
+        container,
+        context
+      );
+      if (!(product && this.validateProduct(product))) {
+        return null;
+      }
+
+      if (product.nutritions === undefined) {
+        product.nutritions = await this.extractNutritionData(
+          container,
+          context
+        );
+      }
+
+      if (product.variants === undefined) {
+        const variants = await this.extractVariants(container, context);
+        if (variants?.length) {
+          product.variants = variants;
+        }
+      }
+
+      logger.info(
+        `✅ Extracted: ${product.name} - Category: ${product.externalCategory}${product.nutritions ? " with nutrition data" : ""}`
+      );
+      return product;
+    } catch (error) {
+      this.handleError(error, `extracting product on ${context.request.url}`);
+      return null;
+    }
+  }
+
+  protected validateProduct(product: Product): boolean {
+    if (!(product.name && product.externalId)) {
+      logger.warn(
+        `⚠️ Skipping product without name or externalId on ${product.externalUrl}`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  protected handleError(error: unknown, context: string): void {
+    logger.error(`❌ ${this.siteConfig.name} error while ${context}:`, error);
+  }
+
+  // ================================================
+  // CRAWLER LIFECYCLE
+  // ================================================
+
+  protected createCrawler(): PlaywrightCrawler {
+    return new PlaywrightCrawler({
+      launchContext: {
+        launchOptions: this.crawlerConfig.launchOptions,
+      },
+      preNavigationHooks: [createFixturePreNavigationHook(this.siteConfig.key)],
+      requestHandler: async ({
+        page,
+        request,
+        crawler,
+      }: PlaywrightCrawlingContext) => {
+        await waitForLoad(page);
+
+        if (request.userData?.isProductPage) {
+          await this.handleProductPage(page, request, crawler);
+        } else {
+          await this.handleListPage(page, request, crawler);
+        }
+      },
+      failedRequestHandler: ({ request }, error) => {
+        this.handleError(
+          error,
+          `requesting ${request.url} after ${request.retryCount} retries`
+        );
+      },
+      maxConcurrency: this.crawlerConfig.maxConcurrency,
+      maxRequestsPerCrawl: this.crawlerConfig.maxRequestsPerCrawl,
+      maxRequestRetries: this.crawlerConfig.maxRequestRetries,
+      requestHandlerTimeoutSecs: this.crawlerConfig.requestHandlerTimeoutSecs,
+    });
+  }
+
+  async run(): Promise<Product[]> {
+    const crawler = this.createCrawler();
+    await crawler.run([...this.siteConfig.startUrls]);
+    const dataset = await crawler.getData();
+    return dataset.items as Product[];
+  }
+
+  async crawlAndSave(): Promise<void> {
+    try {
+      const products = await this.run();
+      await writeProductsToJson(products, this.siteConfig.key);
+    } catch (error) {
+      logger.error(`${this.siteConfig.name} crawler failed:`, error);
+      throw error;
+    }
+  }
+}
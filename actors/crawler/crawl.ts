@@ -1,16 +1,21 @@
 #!/usr/bin/env tsx
 
 import { spawn } from "node:child_process";
+import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { ConvexHttpClient } from "convex/browser";
 import { AVAILABLE_CAFES } from "shared/constants";
+import { summarizeCrawlOutput } from "shared/crawlRuns";
+import { api } from "../../convex/_generated/api";
 import { logger } from "../../shared/logger";
+import type { Product } from "./crawlerUtils";
 
 // ESM equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-type CrawlerName = keyof typeof AVAILABLE_CAFES;
+export type CrawlerName = keyof typeof AVAILABLE_CAFES;
 
 // Print help information
 function printHelp(): void {
@@ -71,7 +76,7 @@ function parseArgs(): CrawlerName[] {
 }
 
 // Run a single crawler
-function runCrawler(crawlerName: CrawlerName): Promise<void> {
+export function runCrawler(crawlerName: CrawlerName): Promise<void> {
   return new Promise((resolve, reject) => {
     const crawler = AVAILABLE_CAFES[crawlerName];
     const crawlerPath = path.join(__dirname, `${crawler.slug}-crawler.ts`);
@@ -124,6 +129,68 @@ function runCrawler(crawlerName: CrawlerName): Promise<void> {
   });
 }
 
+// Products written by a crawler that started at `since`, if any
+export function readCrawlOutput(
+  crawlerName: CrawlerName,
+  since: number
+): Product[] {
+  const outputDir = path.join(
+    process.cwd(),
+    "actors",
+    "crawler",
+    "crawler-outputs"
+  );
+  if (!fs.existsSync(outputDir)) {
+    return [];
+  }
+
+  const latest = fs
+    .readdirSync(outputDir)
+    .filter(
+      (file) =>
+        file.startsWith(`${AVAILABLE_CAFES[crawlerName].slug}-products-`) &&
+        file.endsWith(".json")
+    )
+    .map((file) => path.join(outputDir, file))
+    .filter((file) => fs.statSync(file).mtimeMs >= since)
+    .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)
+    .at(0);
+
+  return latest ? JSON.parse(fs.readFileSync(latest, "utf-8")) : [];
+}
+
+// Record the run for the admin health page. Skipped without credentials so
+// crawlers still run locally; a failed record never fails the crawl.
+export async function recordCrawlRun(
+  crawlerName: CrawlerName,
+  startedAt: number,
+  errors: string[]
+): Promise<void> {
+  const convexUrl = process.env.VITE_CONVEX_URL;
+  const apiToken = process.env.JANJUM_API_TOKEN;
+  if (!(convexUrl && apiToken)) {
+    logger.warn(
+      "VITE_CONVEX_URL or JANJUM_API_TOKEN not set, run not recorded"
+    );
+    return;
+  }
+
+  try {
+    const client = new ConvexHttpClient(convexUrl);
+    await client.mutation(api.crawlRuns.recordCrawl, {
+      cafeSlug: AVAILABLE_CAFES[crawlerName].slug,
+      startedAt,
+      finishedAt: Date.now(),
+      status: errors.length > 0 ? "failed" : "succeeded",
+      ...summarizeCrawlOutput(readCrawlOutput(crawlerName, startedAt)),
+      errors,
+      apiToken,
+    });
+  } catch (error) {
+    logger.warn(`Failed to record ${crawlerName} crawl run: ${error}`);
+  }
+}
+
 // Main execution function
 async function main() {
   try {
@@ -139,12 +206,17 @@ async function main() {
 
     // Run crawlers sequentially to avoid resource conflicts
     for (const crawlerName of crawlersToRun) {
+      const crawlerStartTime = Date.now();
       try {
         await runCrawler(crawlerName);
         successCount++;
+        await recordCrawlRun(crawlerName, crawlerStartTime, []);
       } catch (error) {
         logger.error(`Failed to run ${crawlerName}: ${error}`);
         failCount++;
+        await recordCrawlRun(crawlerName, crawlerStartTime, [
+          error instanceof Error ? error.message : String(error),
+        ]);
       }
 
       // Add a small delay between crawlers
@@ -178,19 +250,21 @@ async function main() {
   }
 }
 
-// Handle graceful shutdown
-process.on("SIGINT", () => {
-  logger.info("🛑 Received SIGINT, shutting down gracefully...");
-  process.exit(0);
-});
-
-process.on("SIGTERM", () => {
-  logger.info("🛑 Received SIGTERM, shutting down gracefully...");
-  process.exit(0);
-});
-
-// Run the main function
-main().catch((error) => {
-  logger.error("Unhandled error:", error);
-  process.exit(1);
-});
+// Only run if this file is executed directly (not imported by `pnpm sync`)
+if (process.argv[1]?.endsWith("crawl.ts")) {
+  // Handle graceful shutdown
+  process.on("SIGINT", () => {
+    logger.info("🛑 Received SIGINT, shutting down gracefully...");
+    process.exit(0);
+  });
+
+  process.on("SIGTERM", () => {
+    logger.info("🛑 Received SIGTERM, shutting down gracefully...");
+    process.exit(0);
+  });
+
+  main().catch((error) => {
+    logger.error("Unhandled error:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  getSeenExternalIds,
+  validateCrawledProducts,
+} from "../../shared/crawledProduct";
+
+const product = {
+  name: "아메리카노",
+  nameEn: "Americano",
+  description: null,
+  externalId: "americano",
+  externalCategory: "커피",
+  externalImageUrl: "https://example.com/americano.jpg",
+  externalUrl: "https://example.com/americano",
+  category: null,
+  price: 4500,
+  nutritions: {
+    servingSize: 355,
+    servingSizeUnit: "ml",
+    calories: 10,
+    carbohydrates: 2,
+    sugar: 0,
+    protein: null,
+  },
+};
+
+describe("validateCrawledProducts", () => {
+  it("accepts crawler output with null values", () => {
+    const { valid, invalid, warnings } = validateCrawledProducts([product]);
+    expect(valid).toHaveLength(1);
+    expect(invalid).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("reports every problem of an invalid product", () => {
+    const { valid, invalid } = validateCrawledProducts([
+      { ...product, price: "4,500원", externalId: undefined },
+    ]);
+    expect(valid).toEqual([]);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].product).toBe("아메리카노");
+    expect(invalid[0].issues).toHaveLength(2);
+  });
+
+  it("rejects implausible nutrition values", () => {
+    const { invalid } = validateCrawledProducts([
+      { ...product, nutritions: { servingSize: 355, calories: 3550 } },
+      {
+        ...product,
+        variants: [
+          {
+            size: "Grande",
+            nutritions: { servingSize: 473, carbohydrates: 10, sugar: 12 },
+          },
+        ],
+      },
+    ]);
+    expect(invalid.map(({ issues }) => issues)).toEqual([
+      ["nutritions.calories: Calories must be between 0 and 2000, got 3550"],
+      [
+        "variants.0.nutritions.sugar: Sugar (12) cannot exceed carbohydrates (10)",
+      ],
+    ]);
+  });
+
+  it("warns about nutrition values without a serving size", () => {
+    const { valid, warnings } = validateCrawledProducts([
+      { ...product, nutritions: { calories: 10, caloriesUnit: "kcal" } },
+    ]);
+    expect(valid).toHaveLength(1);
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe("getSeenExternalIds", () => {
+  it("keeps invalid products with an external ID as seen", () => {
+    expect(
+      getSeenExternalIds([
+        product,
+        { ...product, externalId: "latte", nutritions: { calories: 3550 } },
+        { name: "이름만 있는 상품" },
+        null,
+      ])
+    ).toEqual(["americano", "latte"]);
+  });
+});
@@ -1,21 +1,15 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Page } from "playwright";
-import { logger } from "shared/logger";
-import type { Nutritions } from "shared/nutritions";
+import {
+  type CrawledProduct,
+  formatProductIssues,
+  validateCrawledProducts,
+} from "../../shared/crawledProduct";
+import { logger } from "../../shared/logger";
+import { normalizeNutritions } from "./nutritionUtils";
 
-export interface Product {
-  category: string | null;
-  description: string | null;
-  externalCategory: string;
-  externalId: string;
-  externalImageUrl: string;
-  externalUrl: string;
-  name: string;
-  nameEn: string | null;
-  nutritions?: Nutritions | null;
-  price: number | null;
-}
+export type Product = CrawledProduct;
 
 export const waitFor = async (ms: number) => {
   await new Promise((resolve) => setTimeout(resolve, ms));
@@ -44,10 +38,59 @@ export const takeDebugScreenshot = async (page: Page, key: string) => {
   logger.info(`Screenshot saved to: ${screenshotPath}`);
 };
 
-export const writeProductsToJson = async (products: Product[], key: string) => {
-  if (products.length === 0) {
+// Convert nutrition values to canonical units, dropping ones that cannot be
+// trusted rather than showing them
+const normalizeProductNutritions = (product: Product): Product => {
+  const issues: string[] = [];
+  const normalize = (nutritions: Product["nutritions"], label: string) => {
+    const result = normalizeNutritions(nutritions);
+    issues.push(...result.issues.map((issue) => `${label}${issue}`));
+    return result.nutritions;
+  };
+
+  const normalized: Product = {
+    ...product,
+    nutritions: normalize(product.nutritions, ""),
+    variants: product.variants?.map((variant) => ({
+      ...variant,
+      nutritions: normalize(variant.nutritions, `${variant.size}: `),
+    })),
+  };
+  if (issues.length > 0) {
+    logger.warn(`Nutrition data dropped for ${product.name}:`);
+    for (const issue of issues) {
+      logger.warn(`  ${issue}`);
+    }
+  }
+  return normalized;
+};
+
+export const writeProductsToJson = async (
+  crawledProducts: Product[],
+  key: string
+) => {
+  if (crawledProducts.length === 0) {
     throw new Error(`No products extracted for ${key}`);
   }
+  const products = crawledProducts.map(normalizeProductNutritions);
+
+  // Invalid products are still written so the file shows what was crawled;
+  // the uploader skips them
+  const { invalid, warnings } = validateCrawledProducts(products);
+  if (invalid.length === products.length) {
+    throw new Error(`No valid products extracted for ${key}`);
+  }
+  if (invalid.length > 0) {
+    logger.warn(`${invalid.length} invalid product(s) extracted for ${key}:`);
+    for (const line of formatProductIssues(invalid)) {
+      logger.warn(`  ${line}`);
+    }
+  }
+  if (warnings.length > 0) {
+    logger.warn(
+      `${warnings.length} product(s) with questionable data for ${key}, see the uploader report`
+    );
+  }
 
   const outputDir = path.join(
     process.cwd(),
@@ -0,0 +1,168 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { chromium } from "playwright";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Product } from "./crawlerUtils";
+import {
+  type Fixture,
+  getFixtureDir,
+  getFixtureKey,
+  getFixtureMode,
+  hasFixtures,
+  isRecordableContentType,
+  PRODUCTS_SNAPSHOT_FILE,
+  readFixture,
+  writeFixture,
+} from "./fixtureReplay";
+
+const REPLAY_TIMEOUT_MS = 300_000;
+
+const FIXTURE: Fixture = {
+  method: "POST",
+  url: "https://www.starbucks.co.kr/menu/productViewAjax.do",
+  postData: "product_cd=9200000002487",
+  status: 200,
+  contentType: "application/json;charset=UTF-8",
+  body: '{"view":{"kcal":"10"}}',
+};
+
+describe("getFixtureKey", () => {
+  it("is stable for the same request", () => {
+    expect(getFixtureKey("GET", "https://a.com/menu", null)).toBe(
+      getFixtureKey("get", "https://a.com/menu", null)
+    );
+  });
+
+  it("distinguishes requests by post body", () => {
+    expect(getFixtureKey("POST", "https://a.com/api", "id=1")).not.toBe(
+      getFixtureKey("POST", "https://a.com/api", "id=2")
+    );
+  });
+});
+
+describe("isRecordableContentType", () => {
+  it("records HTML, JSON, scripts and stylesheets", () => {
+    expect(isRecordableContentType("text/html; charset=utf-8")).toBe(true);
+    expect(isRecordableContentType("application/json")).toBe(true);
+    expect(isRecordableContentType("application/javascript")).toBe(true);
+    expect(isRecordableContentType("text/css")).toBe(true);
+  });
+
+  it("skips binary responses", () => {
+    expect(isRecordableContentType("image/png")).toBe(false);
+    expect(isRecordableContentType("font/woff2")).toBe(false);
+  });
+});
+
+describe("fixture storage", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "crawler-fixtures-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads back a written fixture", () => {
+    writeFixture(dir, FIXTURE);
+
+    expect(
+      readFixture(dir, FIXTURE.method, FIXTURE.url, FIXTURE.postData)
+    ).toEqual(FIXTURE);
+  });
+
+  it("returns null for unrecorded requests", () => {
+    expect(readFixture(dir, "GET", FIXTURE.url, null)).toBeNull();
+  });
+});
+
+describe("hasFixtures", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "crawler-fixtures-"));
+    vi.stubEnv("CRAWLER_FIXTURE_DIR", root);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("ignores a directory holding only the products snapshot", () => {
+    fs.mkdirSync(path.join(root, "cafe"));
+    fs.writeFileSync(path.join(root, "cafe", PRODUCTS_SNAPSHOT_FILE), "[]");
+
+    expect(hasFixtures("cafe")).toBe(false);
+  });
+
+  it("detects recorded responses", () => {
+    writeFixture(path.join(root, "cafe"), FIXTURE);
+
+    expect(hasFixtures("cafe")).toBe(true);
+  });
+});
+
+describe("getFixtureMode", () => {
+  it("defaults to off for unknown values", () => {
+    vi.stubEnv("CRAWLER_FIXTURE_MODE", "rewind");
+    expect(getFixtureMode()).toBe("off");
+    vi.unstubAllEnvs();
+  });
+});
+
+// ================================================
+// CRAWLER REPLAY
+// ================================================
+
+// Fixtures are recorded with `CRAWLER_FIXTURE_MODE=record tsx <crawler>`.
+// Suites without recorded fixtures, or without a browser to replay them in
+// (`pnpm exec playwright install chromium`), are skipped.
+const hasBrowser = fs.existsSync(
+  process.env.CRAWLEE_DEFAULT_BROWSER_PATH || chromium.executablePath()
+);
+
+const REPLAYED_CRAWLERS: Record<string, () => Promise<Product[]>> = {
+  starbucks: async () => {
+    const { StarbucksCrawler } = await import("./starbucks-crawler");
+    return new StarbucksCrawler().run();
+  },
+  twosome: async () => {
+    const { crawlTwosomeProducts } = await import("./twosome-crawler");
+    return crawlTwosomeProducts();
+  },
+};
+
+for (const [key, crawl] of Object.entries(REPLAYED_CRAWLERS)) {
+  describe.skipIf(!(hasBrowser && hasFixtures(key)))(
+    `${key} crawler replay`,
+    () => {
+      beforeAll(() => {
+        vi.stubEnv("CRAWLER_FIXTURE_MODE", "replay");
+      });
+
+      afterAll(() => {
+        vi.unstubAllEnvs();
+      });
+
+      it(
+        "extracts the recorded products",
+        async () => {
+          const products = await crawl();
+          const sorted = [...products].sort((a, b) =>
+            a.externalId.localeCompare(b.externalId)
+          );
+
+          expect(sorted.length).toBeGreaterThan(0);
+          await expect(JSON.stringify(sorted, null, 2)).toMatchFileSnapshot(
+            path.join(getFixtureDir(key), PRODUCTS_SNAPSHOT_FILE)
+          );
+        },
+        REPLAY_TIMEOUT_MS
+      );
+    }
+  );
+}
@@ -0,0 +1,187 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Page, Response, Route } from "playwright";
+import { logger } from "../../shared/logger";
+
+// ================================================
+// FIXTURE CONFIGURATION
+// ================================================
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export interface Fixture {
+  body: string;
+  contentType: string;
+  method: string;
+  postData: string | null;
+  status: number;
+  url: string;
+}
+
+// Scripts and stylesheets are kept alongside HTML/JSON so that replayed pages
+// render and lay out the same way they did during the recorded crawl
+const RECORDED_CONTENT_TYPES = [
+  "text/html",
+  "application/json",
+  "text/json",
+  "javascript",
+  "text/css",
+] as const;
+
+// 1x1 transparent GIF served for images that were not recorded
+const PLACEHOLDER_IMAGE = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64"
+);
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.CRAWLER_FIXTURE_MODE;
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+export function getFixtureDir(key: string): string {
+  const root =
+    process.env.CRAWLER_FIXTURE_DIR ||
+    path.join(process.cwd(), "actors", "crawler", "fixtures");
+  return path.join(root, key);
+}
+
+// Expected crawl output kept next to the recordings by fixtureReplay.test.ts
+export const PRODUCTS_SNAPSHOT_FILE = "__products__.json";
+
+// Only recorded responses count; the products snapshot alone replays nothing
+export function hasFixtures(key: string): boolean {
+  const dir = getFixtureDir(key);
+  return (
+    fs.existsSync(dir) &&
+    fs
+      .readdirSync(dir)
+      .some((file) => file.endsWith(".json") && file !== PRODUCTS_SNAPSHOT_FILE)
+  );
+}
+
+// ================================================
+// FIXTURE STORAGE
+// ================================================
+
+export function getFixtureKey(
+  method: string,
+  url: string,
+  postData: string | null
+): string {
+  return createHash("sha1")
+    .update(`${method.toUpperCase()} ${url}\n${postData ?? ""}`)
+    .digest("hex");
+}
+
+export function isRecordableContentType(contentType: string): boolean {
+  const normalized = contentType.toLowerCase();
+  return RECORDED_CONTENT_TYPES.some((type) => normalized.includes(type));
+}
+
+export function writeFixture(dir: string, fixture: Fixture): void {
+  fs.mkdirSync(dir, { recursive: true });
+  const key = getFixtureKey(fixture.method, fixture.url, fixture.postData);
+  fs.writeFileSync(
+    path.join(dir, `${key}.json`),
+    JSON.stringify(fixture, null, 2)
+  );
+}
+
+export function readFixture(
+  dir: string,
+  method: string,
+  url: string,
+  postData: string | null
+): Fixture | null {
+  const filepath = path.join(
+    dir,
+    `${getFixtureKey(method, url, postData)}.json`
+  );
+  if (!fs.existsSync(filepath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filepath, "utf-8")) as Fixture;
+}
+
+// ================================================
+// PLAYWRIGHT INTEGRATION
+// ================================================
+
+async function recordResponse(dir: string, response: Response) {
+  const contentType = response.headers()["content-type"] ?? "";
+  if (!isRecordableContentType(contentType)) {
+    return;
+  }
+
+  const request = response.request();
+  writeFixture(dir, {
+    method: request.method(),
+    url: request.url(),
+    postData: request.postData(),
+    status: response.status(),
+    contentType,
+    body: await response.text(),
+  });
+}
+
+async function replayRoute(dir: string, route: Route) {
+  const request = route.request();
+  const fixture = readFixture(
+    dir,
+    request.method(),
+    request.url(),
+    request.postData()
+  );
+
+  if (fixture) {
+    await route.fulfill({
+      status: fixture.status,
+      contentType: fixture.contentType,
+      body: fixture.body,
+    });
+    return;
+  }
+
+  if (request.resourceType() === "image") {
+    await route.fulfill({
+      status: 200,
+      contentType: "image/gif",
+      body: PLACEHOLDER_IMAGE,
+    });
+    return;
+  }
+
+  logger.debug(`No fixture for ${request.method()} ${request.url()}`);
+  await route.fulfill({ status: 404, body: "" });
+}
+
+/**
+ * Records every HTML/JSON response a page receives into the fixture directory
+ * of `key`, or serves those recordings back instead of hitting the network,
+ * depending on CRAWLER_FIXTURE_MODE.
+ */
+export async function attachFixtureMode(
+  page: Page,
+  key: string,
+  mode: FixtureMode = getFixtureMode()
+): Promise<void> {
+  const dir = getFixtureDir(key);
+
+  if (mode === "record") {
+    page.on("response", (response) => {
+      recordResponse(dir, response).catch((error) => {
+        logger.debug(`Failed to record ${response.url()}: ${error}`);
+      });
+    });
+  } else if (mode === "replay") {
+    await page.route("**/*", (route) => replayRoute(dir, route));
+  }
+}
+
+// Plug into PlaywrightCrawler's preNavigationHooks
+export const createFixturePreNavigationHook =
+  (key: string) =>
+  ({ page }: { page: Page }) =>
+    attachFixtureMode(page, key);
@@ -1,8 +1,15 @@
-import { PlaywrightCrawler, type Request } from "crawlee";
+import type { PlaywrightCrawler, Request } from "crawlee";
 import type { Locator, Page } from "playwright";
 import { logger } from "../../shared/logger";
 import type { Nutritions } from "../../shared/nutritions";
-import { type Product, waitForLoad, writeProductsToJson } from "./crawlerUtils";
+import {
+  BaseCrawler,
+  createCrawlerConfig,
+  type ExtractionContext,
+  type ProductRequest,
+  TEST_MODE,
+} from "./BaseCrawler";
+import { type Product, waitForLoad } from "./crawlerUtils";
 
 // ================================================
 // SITE STRUCTURE CONFIGURATION
@@ -61,26 +68,15 @@ const SELECTORS = {
 // CRAWLER CONFIGURATION
 // ================================================
 
-// Test mode configuration
-const isTestMode = process.env.CRAWLER_TEST_MODE === "true";
-const maxProductsInTestMode = isTestMode
-  ? Number.parseInt(process.env.CRAWLER_MAX_PRODUCTS || "3", 10)
-  : Number.POSITIVE_INFINITY;
-const maxRequestsInTestMode = isTestMode
-  ? Number.parseInt(process.env.CRAWLER_MAX_REQUESTS || "10", 10)
-  : 10;
-
-const CRAWLER_CONFIG = {
+const CRAWLER_CONFIG = createCrawlerConfig({
   maxConcurrency: 1, // Single concurrency for pagination
-  maxRequestsPerCrawl: isTestMode ? maxRequestsInTestMode : 10,
+  maxRequestsPerCrawl: TEST_MODE.enabled ? TEST_MODE.maxRequests : 10,
   maxRequestRetries: 2,
-  requestHandlerTimeoutSecs: isTestMode ? 60 : 300, // 1 minute for test, 5 minutes for pagination
-  maxPages: isTestMode ? 1 : 50, // Single page in test mode
-  launchOptions: {
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-  },
-};
+  requestHandlerTimeoutSecs: TEST_MODE.enabled ? 60 : 300, // 1 minute for test, 5 minutes for pagination
+  maxProductPages: Number.POSITIVE_INFINITY, // Category pages are few, keep them all
+});
+
+const MAX_PAGES = TEST_MODE.enabled ? 1 : 50; // Single page in test mode
 
 // ================================================
 // DATA EXTRACTION FUNCTIONS
@@ -252,129 +248,6 @@ async function closeModal(page: Page): Promise<void> {
   }
 }
 
-async function extractProductData(
-  container: Locator,
-  categoryName: string
-): Promise<Product | null> {
-  try {
-    const [name, nameEn, description, imageUrl] = await Promise.all([
-      container
-        .locator(SELECTORS.productData.name)
-        .first()
-        .textContent()
-        .then((text) => text?.trim() || ""),
-      container
-        .locator(SELECTORS.productData.nameEn)
-        .first()
-        .textContent()
-        .then((text) => text?.trim() || null)
-        .catch(() => null),
-      container
-        .locator(SELECTORS.productData.description)
-        .first()
-        .textContent()
-        .then((text) => text?.trim() || null)
-        .catch(() => null),
-      container
-        .locator(SELECTORS.productData.image)
-        .first()
-        .getAttribute("src")
-        .then((src) => {
-          if (!src) {
-            return "";
-          }
-          return src.startsWith("/") ? `${SITE_CONFIG.baseUrl}${src}` : src;
-        })
-        .catch(() => ""),
-    ]);
-
-    if (name && name.length > 0) {
-      return {
-        name,
-        nameEn,
-        description,
-        price: null,
-        externalImageUrl: imageUrl,
-        category: "Drinks",
-        externalCategory: categoryName,
-        externalId: `mega_${name}`,
-        externalUrl: "", // Will be filled by caller
-        nutritions: undefined, // Will be filled when available
-      };
-    }
-  } catch (error) {
-    logger.error("Error extracting product data:", error);
-  }
-  return null;
-}
-
-// Helper function to find product containers
-async function findMegaProductContainers(
-  page: Page
-): Promise<{ containers: Locator | null; usedSelector: string }> {
-  // Try each selector until we find products
-  for (const selector of SELECTORS.productContainers) {
-    const containers = page.locator(selector);
-    const count = await containers.count();
-    if (count > 0) {
-      logger.info(`Found ${count} products using selector: ${selector}`);
-      return { containers, usedSelector: selector };
-    }
-  }
-
-  logger.warn("No product containers found with any selector");
-  return { containers: null, usedSelector: "none" };
-}
-
-async function extractPageProducts(page: Page, categoryName = "Default") {
-  const products: Product[] = [];
-
-  const { containers: productContainers, usedSelector } =
-    await findMegaProductContainers(page);
-  if (!productContainers) {
-    return { products, usedSelector };
-  }
-
-  const containerCount = await productContainers.count();
-
-  // Limit products in test mode
-  const maxProducts = isTestMode ? maxProductsInTestMode : containerCount;
-  const actualCount = Math.min(containerCount, maxProducts);
-
-  logger.info(
-    `Processing ${actualCount} products (found ${containerCount} total)`
-  );
-
-  // Process containers sequentially
-  for (let i = 0; i < actualCount; i++) {
-    const container = productContainers.nth(i);
-    const product = await extractProductData(container, categoryName);
-
-    if (product) {
-      product.externalUrl = page.url();
-
-      // Extract nutrition data by clicking product to open modal
-      try {
-        const nutritions = await extractNutritionDataFromModal(page, container);
-        if (nutritions) {
-          product.nutritions = nutritions;
-          logger.info(`✅ Found nutrition data for: ${product.name}`);
-        } else {
-          logger.debug(`No nutrition data found for: ${product.name}`);
-        }
-      } catch (error) {
-        logger.debug(
-          `Could not extract nutrition for ${product.name}: ${error}`
-        );
-      }
-
-      products.push(product);
-    }
-  }
-
-  return { products, usedSelector };
-}
-
 async function extractMenuCategories(page: Page) {
   await waitForLoad(page);
 
@@ -431,236 +304,192 @@ async function extractMenuCategories(page: Page) {
   return categories;
 }
 
-// ================================================
-// PAGE HANDLERS
-// ================================================
-
-async function handleMainMenuPage(
-  page: Page,
-  crawlerInstance: PlaywrightCrawler
-) {
-  logger.info("Processing Mega MGC Coffee main menu page with pagination");
-
-  await waitForLoad(page);
-
-  // Try to discover categories
-  const categories = await extractMenuCategories(page);
-  logger.info(
-    `Found ${categories.length} categories: ${categories.map((c) => c.name).join(", ")}`
-  );
+// Clicks the enabled "next page" button of the main menu pagination
+async function clickNextPageButton(page: Page): Promise<boolean> {
+  const nextButton = page.locator(SELECTORS.pagination.nextButton);
 
-  let currentPage = 1;
-  let totalProductsExtracted = 0;
+  if ((await nextButton.count()) === 0) {
+    logger.info("No next page button found, pagination complete");
+    return false;
+  }
 
-  // Handle pagination by clicking through all pages
-  while (true) {
-    logger.info(`Processing page ${currentPage}...`);
+  // Check if the next button is disabled or not clickable
+  const isDisabled = await nextButton
+    .evaluate((el) => {
+      return (
+        el.hasAttribute("disabled") ||
+        el.classList.contains("disabled") ||
+        el.style.display === "none" ||
+        !(el as HTMLElement).offsetParent
+      );
+    })
+    .catch(() => true);
 
-    await waitForLoad(page);
+  if (isDisabled) {
+    logger.info("Next page button is disabled, reached end of pagination");
+    return false;
+  }
 
-    // Extract products from the current page
-    const pageProducts = await extractPageProducts(page, "All Menu");
-    logger.info(
-      `Found ${pageProducts.products.length} products on page ${currentPage}`
-    );
+  try {
+    await nextButton.click();
+    return true;
+  } catch (error) {
+    logger.info(`Failed to click next button or no more pages: ${error}`);
+    return false;
+  }
+}
 
-    // Save products from current page
-    await Promise.all(
-      pageProducts.products.map(async (product) => {
-        await crawlerInstance.pushData(product);
-        logger.info(
-          `✅ Extracted: ${product.name} - Category: ${product.externalCategory}`
-        );
-      })
-    );
-    totalProductsExtracted += pageProducts.products.length;
+// Clicks the "Load More" button of a category page
+async function clickLoadMoreButton(page: Page): Promise<boolean> {
+  const loadMoreButton = page.locator(SELECTORS.pagination.loadMoreButton);
 
-    // Check if there's a next page button
-    const nextButton = page.locator(SELECTORS.pagination.nextButton);
-    const nextButtonCount = await nextButton.count();
+  if ((await loadMoreButton.count()) === 0) {
+    return false;
+  }
 
-    if (nextButtonCount === 0) {
-      logger.info("No next page button found, pagination complete");
-      break;
-    }
+  logger.info('Found "Load More" button, attempting to click');
+  try {
+    await loadMoreButton.first().click();
+    return true;
+  } catch (error) {
+    logger.warn('Could not click "Load More" button:', error);
+    return false;
+  }
+}
 
-    // Check if the next button is disabled or not clickable
-    const isDisabled = await nextButton
-      .evaluate((el) => {
-        return (
-          el.hasAttribute("disabled") ||
-          el.classList.contains("disabled") ||
-          el.style.display === "none" ||
-          !(el as HTMLElement).offsetParent
-        );
-      })
-      .catch(() => true);
-
-    if (isDisabled) {
-      logger.info("Next page button is disabled, reached end of pagination");
-      break;
-    }
+// ================================================
+// CRAWLER
+// ================================================
 
-    // Click the next page button
-    try {
-      logger.info(
-        `Clicking next page button to go to page ${currentPage + 1}...`
-      );
-      await nextButton.click();
-      await waitForLoad(page);
-      currentPage++;
-
-      // Safety check to prevent infinite loops
-      if (currentPage > CRAWLER_CONFIG.maxPages) {
-        logger.warn(
-          `Reached maximum page limit (${CRAWLER_CONFIG.maxPages}), stopping pagination`
-        );
-        break;
-      }
-    } catch (error) {
-      logger.info(`Failed to click next button or no more pages: ${error}`);
-      break;
-    }
+export class MegaCrawler extends BaseCrawler {
+  protected readonly siteConfig = {
+    ...SITE_CONFIG,
+    key: "mega",
+    name: "Mega MGC Coffee",
+    startUrls: [SITE_CONFIG.startUrl],
+  };
+  protected readonly selectors = SELECTORS;
+  protected readonly crawlerConfig = CRAWLER_CONFIG;
+
+  // The main menu page lists every product across paginated pages, so it is
+  // crawled as a product page before its category pages are enqueued.
+  // Categories are read first, while the page is still on its first page.
+  protected async handleListPage(
+    page: Page,
+    request: Request,
+    crawler: PlaywrightCrawler
+  ): Promise<void> {
+    logger.info("Processing Mega MGC Coffee main menu page with pagination");
+
+    const categoryUrls = await this.getProductUrls(page);
+    await this.handleProductPage(page, request, crawler);
+    await this.enqueueProductPages(crawler, categoryUrls);
   }
 
-  logger.info(
-    `Pagination complete. Total products extracted: ${totalProductsExtracted} across ${currentPage} pages`
-  );
+  protected async getProductUrls(page: Page): Promise<ProductRequest[]> {
+    const categories = await extractMenuCategories(page);
+    logger.info(
+      `Found ${categories.length} categories: ${categories.map((c) => c.name).join(", ")}`
+    );
 
-  // If we found categories, enqueue them for processing
-  if (categories.length > 1) {
-    const categoryRequests = categories
-      .filter((cat) => cat.value !== "all")
+    return categories
+      .filter((category) => category.value !== "all")
       .map((category) => ({
         url: category.url,
         userData: {
           categoryName: category.name,
           categoryValue: category.value,
-          isCategoryPage: true,
         },
       }));
-
-    await crawlerInstance.addRequests(categoryRequests);
-    logger.info(
-      `Enqueued ${categoryRequests.length} category pages for processing`
-    );
   }
-}
-
-async function handleCategoryPage(
-  page: Page,
-  request: Request,
-  crawlerInstance: PlaywrightCrawler
-) {
-  const categoryName = request.userData.categoryName;
-  const categoryValue = request.userData.categoryValue;
-
-  logger.info(`Processing category: ${categoryName} (value: ${categoryValue})`);
-
-  await waitForLoad(page);
-
-  try {
-    // Extract products from this category page
-    const categoryProducts = await extractPageProducts(page, categoryName);
 
-    logger.info(
-      `Found ${categoryProducts.products.length} products in category: ${categoryName}`
-    );
-
-    // Limit products in test mode
-    const productsToProcess = isTestMode
-      ? categoryProducts.products.slice(0, maxProductsInTestMode)
-      : categoryProducts.products;
+  protected async goToNextPage(
+    page: Page,
+    request: Request,
+    pageNumber: number
+  ): Promise<boolean> {
+    // Category pages only offer a single "Load More" (skipped in test mode)
+    if (request.userData.isProductPage) {
+      return pageNumber === 1 && !TEST_MODE.enabled
+        ? await clickLoadMoreButton(page)
+        : false;
+    }
 
-    if (isTestMode) {
-      logger.info(
-        `🧪 Test mode: limiting to ${productsToProcess.length} products`
+    // Safety check to prevent infinite loops
+    if (pageNumber >= MAX_PAGES) {
+      logger.warn(
+        `Reached maximum page limit (${MAX_PAGES}), stopping pagination`
       );
+      return false;
     }
 
-    // Save all products from this category
-    await Promise.all(
-      productsToProcess.map(async (product) => {
-        await crawlerInstance.pushData(product);
-        logger.info(
-          `✅ Extracted: ${product.name} - Category: ${categoryName}`
-        );
-      })
-    );
-
-    // Check for "Load More" functionality (skip in test mode)
-    const loadMoreButton = page.locator(SELECTORS.pagination.loadMoreButton);
-    const loadMoreCount = await loadMoreButton.count();
-
-    if (loadMoreCount > 0 && !isTestMode) {
-      logger.info('Found "Load More" button, attempting to click');
-      try {
-        await loadMoreButton.first().click();
-        await waitForLoad(page);
-
-        // Extract additional products after loading more
-        const additionalProducts = await extractPageProducts(
-          page,
-          categoryName
-        );
-        await Promise.all(
-          additionalProducts.products.map(async (product) => {
-            await crawlerInstance.pushData(product);
-            logger.info(
-              `✅ Additional: ${product.name} - Category: ${categoryName}`
-            );
-          })
-        );
-      } catch (error) {
-        logger.warn('Could not click "Load More" button:', error);
-      }
-    }
-  } catch (error) {
-    logger.error(`❌ Error processing category ${categoryName}: ${error}`);
+    logger.info(`Clicking next page button to go to page ${pageNumber + 1}...`);
+    return await clickNextPageButton(page);
   }
-}
 
-// ================================================
-// CRAWLER EXPORT
-// ================================================
+  protected async extractProductFromContainer(
+    container: Locator,
+    { page, request }: ExtractionContext
+  ): Promise<Product | null> {
+    const [name, nameEn, description, imageUrl] = await Promise.all([
+      container
+        .locator(SELECTORS.productData.name)
+        .first()
+        .textContent()
+        .then((text) => text?.trim() || ""),
+      container
+        .locator(SELECTORS.productData.nameEn)
+        .first()
+        .textContent()
+        .then((text) => text?.trim() || null)
+        .catch(() => null),
+      container
+        .locator(SELECTORS.productData.description)
+        .first()
+        .textContent()
+        .then((text) => text?.trim() || null)
+        .catch(() => null),
+      container
+        .locator(SELECTORS.productData.image)
+        .first()
+        .getAttribute("src")
+        .then((src) => {
+          if (!src) {
+            return "";
+          }
+          return src.startsWith("/") ? `${SITE_CONFIG.baseUrl}${src}` : src;
+        })
+        .catch(() => ""),
+    ]);
 
-export const createMegaCrawler = () =>
-  new PlaywrightCrawler({
-    launchContext: {
-      launchOptions: CRAWLER_CONFIG.launchOptions,
-    },
-    async requestHandler({ page, request, crawler: crawlerInstance }) {
-      const url = request.url;
-
-      // Handle main menu page
-      if (url.includes("/menu/") && !request.userData?.isCategoryPage) {
-        await handleMainMenuPage(page, crawlerInstance);
-        return;
-      }
-
-      // Handle category pages
-      if (request.userData?.isCategoryPage) {
-        await handleCategoryPage(page, request, crawlerInstance);
-      }
-    },
-    maxConcurrency: CRAWLER_CONFIG.maxConcurrency,
-    maxRequestsPerCrawl: CRAWLER_CONFIG.maxRequestsPerCrawl,
-    maxRequestRetries: CRAWLER_CONFIG.maxRequestRetries,
-    requestHandlerTimeoutSecs: CRAWLER_CONFIG.requestHandlerTimeoutSecs,
-  });
+    if (!name) {
+      return null;
+    }
 
-export const runMegaCrawler = async () => {
-  const crawler = createMegaCrawler();
+    return {
+      name,
+      nameEn,
+      description,
+      price: null,
+      externalImageUrl: imageUrl,
+      category: "Drinks",
+      externalCategory: request.userData.categoryName ?? "All Menu",
+      externalId: `mega_${name}`,
+      externalUrl: page.url(),
+      nutritions: undefined, // Filled in by extractNutritionData
+    };
+  }
 
-  try {
-    await crawler.run([SITE_CONFIG.startUrl]);
-    const dataset = await crawler.getData();
-    await writeProductsToJson(dataset.items as Product[], "mega");
-  } catch (error) {
-    logger.error("Mega crawler failed:", error);
-    throw error;
+  protected extractNutritionData(
+    container: Locator,
+    { page }: ExtractionContext
+  ): Promise<Nutritions | null> {
+    // Nutrition data is only shown in a modal opened by clicking the product
+    return extractNutritionDataFromModal(page, container);
   }
-};
+}
+
+export const runMegaCrawler = () => new MegaCrawler().crawlAndSave();
 
 // Only run if this file is executed directly (not imported)
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -5,6 +5,7 @@ import {
   getServingSizeUnit,
   hasAnyNutritionData,
   hasNutritionKeywords,
+  normalizeNutritions,
   parseNutritionMatches,
   parseNutritionValue,
   parseNutritionValueFromText,
@@ -154,3 +155,127 @@ describe("extractNutritionFromText", () => {
     expect(extractNutritionFromText("나트륨 150mg")).toBeNull();
   });
 });
+
+describe("normalizeNutritions", () => {
+  it("converts values to canonical units", () => {
+    const { nutritions, issues } = normalizeNutritions({
+      servingSize: 0.5,
+      servingSizeUnit: "L",
+      calories: 418.4,
+      caloriesUnit: "kJ",
+      sugar: 20_000,
+      sugarUnit: "mg",
+      carbohydrates: 30,
+      natrium: 0.15,
+      natriumUnit: "g",
+      fat: 10,
+      fatUnit: "%",
+    });
+    expect(issues).toEqual([]);
+    expect(nutritions).toEqual({
+      servingSize: 500,
+      servingSizeUnit: "ml",
+      calories: 100,
+      caloriesUnit: "kcal",
+      carbohydrates: 30,
+      carbohydratesUnit: "g",
+      sugar: 20,
+      sugarUnit: "g",
+      fat: 5.4,
+      fatUnit: "g",
+      natrium: 150,
+      natriumUnit: "mg",
+    });
+  });
+
+  it("scales per-100ml values to the serving size", () => {
+    const { nutritions } = normalizeNutritions({
+      servingSize: 355,
+      servingSizeUnit: "ml",
+      calories: 40,
+      caloriesUnit: "kcal/100ml",
+    });
+    expect(nutritions?.calories).toBe(142);
+    expect(nutritions?.caloriesUnit).toBe("kcal");
+  });
+
+  it("drops per-100ml values without a serving size", () => {
+    const { nutritions, issues } = normalizeNutritions({
+      calories: 40,
+      caloriesUnit: "kcal/100ml",
+    });
+    expect(nutritions).toBeNull();
+    expect(issues).toHaveLength(1);
+  });
+
+  it("drops per-100 values measured against a different basis", () => {
+    const { nutritions, issues } = normalizeNutritions({
+      servingSize: 200,
+      servingSizeUnit: "g",
+      calories: 40,
+      caloriesUnit: "kcal/100ml",
+      sugar: 10,
+      sugarUnit: "g/100g",
+    });
+    expect(nutritions).toEqual({
+      servingSize: 200,
+      servingSizeUnit: "g",
+      sugar: 20,
+      sugarUnit: "g",
+    });
+    expect(issues).toEqual([
+      "calories: dropped per-100ml value for a serving in g",
+    ]);
+  });
+
+  it("returns null when only the serving size is left", () => {
+    const { nutritions, issues } = normalizeNutritions({
+      servingSize: 355,
+      servingSizeUnit: "ml",
+      protein: 5,
+      proteinUnit: "스푼",
+    });
+    expect(nutritions).toBeNull();
+    expect(issues).toHaveLength(1);
+  });
+
+  it("drops values with unknown units or negative amounts", () => {
+    const { nutritions, issues } = normalizeNutritions({
+      servingSize: 355,
+      calories: 10,
+      protein: 5,
+      proteinUnit: "스푼",
+      caffeine: -1,
+    });
+    expect(nutritions).toEqual({
+      servingSize: 355,
+      servingSizeUnit: "ml",
+      calories: 10,
+      caloriesUnit: "kcal",
+    });
+    expect(issues).toHaveLength(2);
+  });
+
+  it("drops contradicting values", () => {
+    const { nutritions, issues } = normalizeNutritions({
+      servingSize: 355,
+      fat: 3,
+      saturatedFat: 5,
+      transFat: 0,
+      protein: 2,
+    });
+    expect(nutritions).toEqual({
+      servingSize: 355,
+      servingSizeUnit: "ml",
+      protein: 2,
+      proteinUnit: "g",
+      transFat: 0,
+      transFatUnit: "g",
+    });
+    expect(issues).toEqual(["saturatedFat (5) exceeds fat (3), dropped both"]);
+  });
+
+  it("returns null without nutrition data", () => {
+    expect(normalizeNutritions(null).nutritions).toBeNull();
+  });
+});
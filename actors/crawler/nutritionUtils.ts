@@ -1,5 +1,9 @@
+import type { CrawledNutritions } from "../../shared/crawledProduct";
 import { logger } from "../../shared/logger";
-import type { Nutritions } from "../../shared/nutritions";
+import {
+  dailyStandardNutritions,
+  type Nutritions,
+} from "../../shared/nutritions";
 
 // ================================================
 // SHARED NUTRITION PATTERNS
@@ -194,3 +198,222 @@ export function extractNutritionFromText(
   }
   return null;
 }
+
+// ================================================
+// UNIT NORMALIZATION
+// ================================================
+
+type NutrientField =
+  | "calories"
+  | "carbohydrates"
+  | "sugar"
+  | "protein"
+  | "fat"
+  | "transFat"
+  | "saturatedFat"
+  | "natrium"
+  | "cholesterol"
+  | "caffeine";
+
+const CANONICAL_UNITS: Record<NutrientField, "kcal" | "g" | "mg"> = {
+  calories: "kcal",
+  carbohydrates: "g",
+  sugar: "g",
+  protein: "g",
+  fat: "g",
+  transFat: "g",
+  saturatedFat: "g",
+  natrium: "mg",
+  cholesterol: "mg",
+  caffeine: "mg",
+};
+
+const NUTRIENT_FIELDS = Object.keys(CANONICAL_UNITS) as NutrientField[];
+
+// Conversion to grams, or to kcal for energy
+const MASS_IN_GRAMS: Record<string, number> = {
+  g: 1,
+  gram: 1,
+  mg: 0.001,
+  mcg: 0.000_001,
+  μg: 0.000_001,
+  kg: 1000,
+};
+const ENERGY_IN_KCAL: Record<string, number> = {
+  kcal: 1,
+  cal: 1, // Korean menus say 칼로리 for kcal
+  칼로리: 1,
+  열량: 1,
+  kj: 1 / 4.184,
+};
+const VOLUME_IN_ML: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  floz: 29.5735,
+  oz: 29.5735,
+};
+
+// Values given per 100ml/100g instead of per serving, e.g. "kcal/100ml"
+const PER_100_PATTERN = /^(.*?)\/100(ml|g)$/;
+
+function roundValue(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Factor from `unit` to the canonical unit of `field`, if it is known */
+function getConversionFactor(
+  field: NutrientField,
+  unit: string
+): number | undefined {
+  const canonical = CANONICAL_UNITS[field];
+  if (unit === "%") {
+    // Percent of the daily value
+    const dailyValue =
+      dailyStandardNutritions[field as keyof typeof dailyStandardNutritions];
+    return dailyValue === undefined ? undefined : dailyValue / 100;
+  }
+  if (canonical === "kcal") {
+    return ENERGY_IN_KCAL[unit];
+  }
+  const grams = MASS_IN_GRAMS[unit];
+  if (grams === undefined) {
+    return;
+  }
+  return canonical === "mg" ? grams * 1000 : grams;
+}
+
+function normalizeServingSize(
+  value: number | null | undefined,
+  unitText: string | null | undefined,
+  issues: string[]
+): { servingSize?: number; servingSizeUnit?: "ml" | "g" } {
+  if (typeof value !== "number") {
+    return {};
+  }
+  if (value <= 0) {
+    issues.push(`servingSize: dropped non-positive value ${value}`);
+    return {};
+  }
+
+  // Without a unit assume a drink, which is almost everything cafes sell
+  const unit = (unitText || "ml").toLowerCase().replace(/\s/g, "");
+  if (VOLUME_IN_ML[unit] !== undefined) {
+    return {
+      servingSize: roundValue(value * VOLUME_IN_ML[unit]),
+      servingSizeUnit: "ml",
+    };
+  }
+  if (MASS_IN_GRAMS[unit] !== undefined) {
+    return {
+      servingSize: roundValue(value * MASS_IN_GRAMS[unit]),
+      servingSizeUnit: "g",
+    };
+  }
+  issues.push(`servingSize: dropped value with unknown unit "${unitText}"`);
+  return {};
+}
+
+// Pairs where the first value is part of the second and cannot exceed it
+const CONTAINED_IN: [NutrientField, NutrientField][] = [
+  ["saturatedFat", "fat"],
+  ["transFat", "fat"],
+  ["sugar", "carbohydrates"],
+];
+
+function dropContradictions(nutritions: Nutritions, issues: string[]) {
+  for (const [part, whole] of CONTAINED_IN) {
+    const partValue = nutritions[part];
+    const wholeValue = nutritions[whole];
+    if (
+      partValue !== undefined &&
+      wholeValue !== undefined &&
+      partValue > wholeValue
+    ) {
+      // Either value may be the wrong one, so neither is shown
+      issues.push(
+        `${part} (${partValue}) exceeds ${whole} (${wholeValue}), dropped both`
+      );
+      for (const field of [part, whole]) {
+        delete nutritions[field];
+        delete nutritions[`${field}Unit`];
+      }
+    }
+  }
+}
+
+/**
+ * Convert crawled nutrition values to canonical units (kcal, g, mg, and ml or
+ * g for the serving size) and to per-serving amounts. Values with an unknown
+ * unit, negative values, per-100 values whose basis (ml or g) differs from the
+ * serving size unit and values that contradict each other are dropped and
+ * reported in `issues`. Missing units are taken to be the canonical ones.
+ * Returns null nutritions when no nutrient value is left.
+ */
+export function normalizeNutritions(nutritions?: CrawledNutritions | null): {
+  issues: string[];
+  nutritions: Nutritions | null;
+} {
+  const issues: string[] = [];
+  if (!nutritions) {
+    return { nutritions: null, issues };
+  }
+
+  const normalized: Nutritions = normalizeServingSize(
+    nutritions.servingSize,
+    nutritions.servingSizeUnit,
+    issues
+  );
+
+  for (const field of NUTRIENT_FIELDS) {
+    const value = nutritions[field];
+    if (typeof value !== "number") {
+      continue;
+    }
+    if (value < 0) {
+      issues.push(`${field}: dropped negative value ${value}`);
+      continue;
+    }
+
+    const unitText = nutritions[`${field}Unit`];
+    let unit = (unitText || CANONICAL_UNITS[field])
+      .toLowerCase()
+      .replace(/\s/g, "");
+    let scale = 1;
+
+    const per100 = PER_100_PATTERN.exec(unit);
+    if (per100) {
+      if (normalized.servingSize === undefined) {
+        issues.push(`${field}: dropped per-100 value without a serving size`);
+        continue;
+      }
+      // Volume and mass cannot be converted without the drink's density
+      if (per100[2] !== normalized.servingSizeUnit) {
+        issues.push(
+          `${field}: dropped per-100${per100[2]} value for a serving in ${normalized.servingSizeUnit}`
+        );
+        continue;
+      }
+      unit = per100[1] || CANONICAL_UNITS[field];
+      scale = normalized.servingSize / 100;
+    }
+
+    const factor = getConversionFactor(field, unit);
+    if (factor === undefined) {
+      issues.push(`${field}: dropped value with unknown unit "${unitText}"`);
+      continue;
+    }
+
+    Object.assign(normalized, {
+      [field]: roundValue(value * factor * scale),
+      [`${field}Unit`]: CANONICAL_UNITS[field],
+    });
+  }
+
+  dropContradictions(normalized, issues);
+
+  // A serving size alone is not nutrition data
+  const hasValues = NUTRIENT_FIELDS.some(
+    (field) => normalized[field] !== undefined
+  );
+  return { nutritions: hasValues ? normalized : null, issues };
+}
@@ -1,8 +1,14 @@
-import { PlaywrightCrawler, type Request } from "crawlee";
 import type { Locator, Page } from "playwright";
 import { logger } from "../../shared/logger";
 import type { Nutritions } from "../../shared/nutritions";
-import { type Product, waitForLoad, writeProductsToJson } from "./crawlerUtils";
+import {
+  BaseCrawler,
+  createCrawlerConfig,
+  type ExtractionContext,
+  type ProductRequest,
+  TEST_MODE,
+} from "./BaseCrawler";
+import type { Product } from "./crawlerUtils";
 
 // ================================================
 // SITE STRUCTURE CONFIGURATION
@@ -22,7 +28,7 @@ const SELECTORS = {
   categoryTabs: "ul.page_tab a",
 
   // Product listing selectors
-  menuItems: ".menu_list > ul > li",
+  productContainers: [".menu_list > ul > li"],
 
   // Product data selectors
   productData: {
@@ -36,26 +42,14 @@ const SELECTORS = {
 // CRAWLER CONFIGURATION
 // ================================================
 
-// Test mode configuration
-const isTestMode = process.env.CRAWLER_TEST_MODE === "true";
-const maxProductsInTestMode = isTestMode
-  ? Number.parseInt(process.env.CRAWLER_MAX_PRODUCTS || "3", 10)
-  : Number.POSITIVE_INFINITY;
-const maxRequestsInTestMode = isTestMode
-  ? Number.parseInt(process.env.CRAWLER_MAX_REQUESTS || "10", 10)
-  : 30;
-
-const CRAWLER_CONFIG = {
+const CRAWLER_CONFIG = createCrawlerConfig({
   maxConcurrency: 2,
-  maxRequestsPerCrawl: isTestMode ? maxRequestsInTestMode : 30,
+  maxRequestsPerCrawl: TEST_MODE.enabled ? TEST_MODE.maxRequests : 30,
   maxRequestRetries: 2,
-  requestHandlerTimeoutSecs: isTestMode ? 30 : 45,
-  launchOptions: {
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"] as string[],
-  },
-  maxItemsPerCategory: isTestMode ? maxProductsInTestMode : 200,
-};
+  requestHandlerTimeoutSecs: TEST_MODE.enabled ? 30 : 45,
+  maxProductPages: TEST_MODE.enabled ? 1 : Number.POSITIVE_INFINITY, // Category pages
+  maxProductsPerPage: TEST_MODE.enabled ? TEST_MODE.maxProducts : 200,
+});
 
 // ================================================
 // DATA EXTRACTION FUNCTIONS
@@ -170,8 +164,6 @@ async function extractCategoryUrls(
   try {
     logger.info("📄 Extracting category URLs from tabs");
 
-    await waitForLoad(page);
-
     // Get all category tab links
     await page.waitForSelector(SELECTORS.categoryTabs, { timeout: 10_000 });
     const categoryTabs = await page.locator(SELECTORS.categoryTabs).all();
@@ -210,23 +202,6 @@ async function extractCategoryUrls(
   }
 }
 
-// Find menu items using configured selector
-async function findMenuItems(
-  page: Page
-): Promise<{ items: Locator[]; selector: string }> {
-  const selector = SELECTORS.menuItems;
-
-  try {
-    await page.waitForSelector(selector, { timeout: 10_000 });
-    const items = await page.locator(selector).all();
-    logger.info(`✅ Found ${items.length} items using selector: ${selector}`);
-    return { items, selector };
-  } catch {
-    logger.warn(`⚠️  Selector ${selector} not found`);
-    return { items: [], selector: "" };
-  }
-}
-
 // Extract product name using configured selector
 async function extractProductName(menuItem: Locator): Promise<string> {
   try {
@@ -292,8 +267,7 @@ function createProduct(
   imageUrl: string,
   description: string,
   category: string,
-  pageUrl: string,
-  nutritions: Nutritions | null = null
+  pageUrl: string
 ): Product {
   const externalId = `paik_${category}_${name}`;
 
@@ -307,7 +281,7 @@ function createProduct(
     externalCategory: category,
     externalId,
     externalUrl: pageUrl,
-    nutritions,
+    nutritions: undefined, // Filled in by extractNutritionData
   };
 }
 
@@ -321,187 +295,65 @@ function isValidProductName(name: string): boolean {
   );
 }
 
-// Extract products from a category page
-async function extractProductsFromPage(
-  page: Page,
-  categoryName: string
-): Promise<Product[]> {
-  const products: Product[] = [];
-
-  try {
-    logger.info(`📄 Extracting products from category: ${categoryName}`);
-
-    await waitForLoad(page);
-
-    // Find menu items using multiple selectors
-    const { items: menuItems, selector: usedSelector } =
-      await findMenuItems(page);
-
-    if (menuItems.length === 0) {
-      logger.warn(
-        `⚠️  No menu items found for category: ${categoryName} with any selector`
-      );
-      return [];
-    }
-
-    logger.info(
-      `🔍 Found ${menuItems.length} menu items in ${categoryName} using ${usedSelector}`
-    );
-
-    // Process each menu item with reduced limits for performance
-    const maxItemsToProcess = Math.min(
-      menuItems.length,
-      CRAWLER_CONFIG.maxItemsPerCategory
-    );
-    logger.info(
-      `📝 Processing ${maxItemsToProcess} items out of ${menuItems.length} found`
-    );
-
-    for (let i = 0; i < maxItemsToProcess; i++) {
-      try {
-        const menuItem = menuItems[i];
-
-        const [name, imageUrl, description, nutritions] = await Promise.all([
-          extractProductName(menuItem),
-          extractProductImage(menuItem),
-          extractProductDescription(menuItem, page),
-          extractNutritionData(menuItem),
-        ]);
-
-        if (isValidProductName(name)) {
-          const product = createProduct(
-            name,
-            imageUrl,
-            description,
-            categoryName,
-            page.url(),
-            nutritions
-          );
-
-          // Check for duplicates
-          if (!products.some((p) => p.externalId === product.externalId)) {
-            products.push(product);
-            logger.info(
-              `✅ Extracted: ${name} (${product.category})${nutritions ? " with nutrition data" : ""}`
-            );
-          }
-        }
-      } catch (productError) {
-        logger.debug(
-          `⚠️  Failed to extract menu item ${i + 1}: ${productError}`
-        );
-      }
-    }
-
-    logger.info(
-      `📦 Successfully extracted ${products.length} products from ${categoryName}`
-    );
-    return products;
-  } catch (extractionError) {
-    logger.error(
-      `❌ Failed to extract products from ${categoryName}: ${extractionError}`
-    );
-    return [];
-  }
-}
-
 // ================================================
-// PAGE HANDLERS
+// CRAWLER
 // ================================================
 
-async function handleMainMenuPage(
-  page: Page,
-  crawlerInstance: PlaywrightCrawler
-) {
-  logger.info("Processing main menu page to discover categories");
+export class PaikCrawler extends BaseCrawler {
+  protected readonly siteConfig = {
+    ...SITE_CONFIG,
+    key: "paik",
+    name: "Paik",
+    startUrls: [SITE_CONFIG.startUrl],
+  };
+  protected readonly selectors = SELECTORS;
+  protected readonly crawlerConfig = CRAWLER_CONFIG;
 
-  await waitForLoad(page);
-  // Debug screenshot removed for performance
-  // await takeDebugScreenshot(page, 'paik-main-menu');
+  protected async getProductUrls(page: Page): Promise<ProductRequest[]> {
+    logger.info("Processing main menu page to discover categories");
 
-  const categories = await extractCategoryUrls(page);
+    const categories = await extractCategoryUrls(page);
+    if (categories.length === 0) {
+      logger.error("❌ No categories found");
+    }
 
-  if (categories.length === 0) {
-    logger.error("❌ No categories found");
-    return;
+    return categories.map((category) => ({
+      url: category.url,
+      userData: { categoryName: category.name },
+    }));
   }
 
-  // Limit categories in test mode
-  const categoriesToProcess = isTestMode ? categories.slice(0, 1) : categories;
+  protected async extractProductFromContainer(
+    container: Locator,
+    { page, request }: ExtractionContext
+  ): Promise<Product | null> {
+    const [name, imageUrl, description] = await Promise.all([
+      extractProductName(container),
+      extractProductImage(container),
+      extractProductDescription(container, page),
+    ]);
+
+    if (!isValidProductName(name)) {
+      return null;
+    }
 
-  if (isTestMode) {
-    logger.info(
-      `🧪 Test mode: limiting to ${categoriesToProcess.length} categories`
+    return createProduct(
+      name,
+      imageUrl,
+      description,
+      request.userData.categoryName,
+      page.url()
     );
   }
 
-  // Enqueue all category pages
-  const categoryRequests = categoriesToProcess.map((category) => ({
-    url: category.url,
-    userData: {
-      categoryName: category.name,
-      isCategoryPage: true,
-    },
-  }));
-
-  await crawlerInstance.addRequests(categoryRequests);
-  logger.info(
-    `📋 Enqueued ${categoriesToProcess.length} category pages for processing`
-  );
-}
-
-async function handleCategoryPage(
-  page: Page,
-  request: Request,
-  crawlerInstance: PlaywrightCrawler
-) {
-  const categoryName = request.userData.categoryName;
-  logger.info(`🔖 Processing category page: ${categoryName}`);
-
-  const products = await extractProductsFromPage(page, categoryName);
-
-  // Push all products to crawler dataset
-  await Promise.all(
-    products.map((product) => crawlerInstance.pushData(product))
-  );
-
-  logger.info(`📊 Added ${products.length} products from ${categoryName}`);
+  protected extractNutritionData(
+    container: Locator
+  ): Promise<Nutritions | null> {
+    return extractNutritionData(container);
+  }
 }
 
-// ================================================
-// CRAWLER EXPORT
-// ================================================
-
-export const createPaikCrawler = () =>
-  new PlaywrightCrawler({
-    launchContext: {
-      launchOptions: CRAWLER_CONFIG.launchOptions,
-    },
-    async requestHandler({ page, request, crawler: crawlerInstance }) {
-      if (request.userData?.isCategoryPage) {
-        await handleCategoryPage(page, request, crawlerInstance);
-      } else {
-        await handleMainMenuPage(page, crawlerInstance);
-      }
-    },
-    maxConcurrency: CRAWLER_CONFIG.maxConcurrency,
-    maxRequestsPerCrawl: CRAWLER_CONFIG.maxRequestsPerCrawl,
-    maxRequestRetries: CRAWLER_CONFIG.maxRequestRetries,
-    requestHandlerTimeoutSecs: CRAWLER_CONFIG.requestHandlerTimeoutSecs,
-  });
-
-export const runPaikCrawler = async () => {
-  const crawler = createPaikCrawler();
-
-  try {
-    await crawler.run([SITE_CONFIG.startUrl]);
-    const dataset = await crawler.getData();
-    await writeProductsToJson(dataset.items as Product[], "paik");
-  } catch (error) {
-    logger.error("Paik crawler failed:", error);
-    throw error;
-  }
-};
+export const runPaikCrawler = () => new PaikCrawler().crawlAndSave();
 
 // Only run if this file is executed directly (not imported)
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -1,8 +1,15 @@
-import { PlaywrightCrawler, type Request } from "crawlee";
-import type { Page } from "playwright";
+import type { Locator, Page } from "playwright";
 import { logger } from "../../shared/logger";
 import type { Nutritions } from "../../shared/nutritions";
-import { type Product, waitForLoad, writeProductsToJson } from "./crawlerUtils";
+import type { ProductVariant } from "../../shared/variants";
+import {
+  BaseCrawler,
+  createCrawlerConfig,
+  type ExtractionContext,
+  type ProductRequest,
+  TEST_MODE,
+} from "./BaseCrawler";
+import type { Product } from "./crawlerUtils";
 import { parseNutritionValueFromText } from "./nutritionUtils";
 
 // ================================================
@@ -22,6 +29,8 @@ const SITE_CONFIG = {
 
 const STARBUCKS_REGEX_PATTERNS = {
   servingSize: /(\d+)ml/,
+  // "Tall(톨) / 355ml (12 fl oz)" -> "Tall"
+  sizeLabel: /^\s*([A-Za-z]+)/,
 } as const;
 
 // ================================================
@@ -29,6 +38,9 @@ const STARBUCKS_REGEX_PATTERNS = {
 // ================================================
 
 const SELECTORS = {
+  // Each product page holds a single product
+  productContainers: ["body"],
+
   // Product listing page selectors
   productLinks: [
     "a.goDrinkView",
@@ -46,6 +58,10 @@ const SELECTORS = {
     description: ".myAssignZone p.t1",
     category: ".cate",
     image: ".elevatezoom-gallery > img:first-child",
+    servingInfo: "#product_info01",
+    // Size picker of the nutrition section (Short/Tall/Grande/Venti)
+    sizeSelect: ".product_info_head select",
+    sizeOptions: ".product_info_head select option",
   },
 } as const;
 
@@ -61,20 +77,11 @@ const PATTERNS = {
 // CRAWLER CONFIGURATION
 // ================================================
 
-// Test mode configuration
-const isTestMode = process.env.CRAWLER_TEST_MODE === "true";
-const maxProductsInTestMode = isTestMode
-  ? Number.parseInt(process.env.CRAWLER_MAX_PRODUCTS || "3", 10)
-  : Number.POSITIVE_INFINITY;
-const maxRequestsInTestMode = isTestMode
-  ? Number.parseInt(process.env.CRAWLER_MAX_REQUESTS || "10", 10)
-  : 200;
-
-const CRAWLER_CONFIG = {
-  maxConcurrency: isTestMode ? 3 : 10, // Higher concurrency for production
-  maxRequestsPerCrawl: isTestMode ? maxRequestsInTestMode : 300,
+const CRAWLER_CONFIG = createCrawlerConfig({
+  maxConcurrency: TEST_MODE.enabled ? 3 : 10, // Higher concurrency for production
+  maxRequestsPerCrawl: TEST_MODE.enabled ? TEST_MODE.maxRequests : 300,
   maxRequestRetries: 1, // Reduced retries - fail fast
-  requestHandlerTimeoutSecs: isTestMode ? 15 : 25, // Reduced timeout
+  requestHandlerTimeoutSecs: TEST_MODE.enabled ? 15 : 25, // Reduced timeout
   launchOptions: {
     headless: true,
     args: [
@@ -89,7 +96,7 @@ const CRAWLER_CONFIG = {
       "--single-process",
     ],
   },
-};
+});
 
 // ================================================
 // DATA EXTRACTION FUNCTIONS
@@ -330,6 +337,56 @@ async function extractNutritionData(page: Page): Promise<Nutritions | null> {
   }
 }
 
+async function extractSizeLabel(page: Page): Promise<string | null> {
+  const servingText = await page
+    .locator(SELECTORS.productDetails.servingInfo)
+    .textContent()
+    .catch(() => "");
+  const match = servingText?.match(STARBUCKS_REGEX_PATTERNS.sizeLabel);
+  return match ? match[1] : null;
+}
+
+async function extractVariants(page: Page): Promise<ProductVariant[] | null> {
+  const options = page.locator(SELECTORS.productDetails.sizeOptions);
+  const optionCount = await options.count();
+
+  // Most drinks only list one size; the product nutritions already cover it
+  if (optionCount < 2) {
+    return null;
+  }
+
+  const variants: ProductVariant[] = [];
+  for (let i = 0; i < optionCount; i++) {
+    const option = options.nth(i);
+    const [value, optionText] = await Promise.all([
+      option.getAttribute("value"),
+      option.textContent(),
+    ]);
+    if (!value) {
+      continue;
+    }
+
+    await page.locator(SELECTORS.productDetails.sizeSelect).selectOption(value);
+    const nutritions = await extractNutritionData(page);
+    const size = (await extractSizeLabel(page)) ?? optionText?.trim();
+    if (!size) {
+      continue;
+    }
+
+    variants.push({
+      size,
+      volume: nutritions?.servingSize,
+      volumeUnit: nutritions?.servingSizeUnit,
+      nutritions: nutritions ?? undefined,
+    });
+  }
+
+  logger.info(
+    `Extracted ${variants.length} size variants: ${variants.map((variant) => variant.size).join(", ")}`
+  );
+  return variants;
+}
+
 async function extractProductData(page: Page): Promise<Product> {
   // Use Promise.all for parallel extraction (faster than sequential)
   const [
@@ -377,9 +434,7 @@ async function extractProductData(page: Page): Promise<Product> {
     cleanName = name.replace(nameEn, "").trim();
   }
 
-  // Extract nutrition data
-  const nutritions = await extractNutritionData(page);
-
+  // Nutrition data is filled in by the BaseCrawler extractNutritionData hook
   return {
     name: cleanName,
     nameEn,
@@ -390,7 +445,6 @@ async function extractProductData(page: Page): Promise<Product> {
     externalUrl,
     price: null,
     category: "Drinks",
-    nutritions,
   };
 }
 
@@ -487,123 +541,65 @@ async function extractProductIds(page: Page) {
 }
 
 // ================================================
-// PAGE HANDLERS
+// CRAWLER
 // ================================================
 
-async function handleMainMenuPage(
-  page: Page,
-  crawlerInstance: PlaywrightCrawler
-) {
-  logger.info("Processing drink list page");
-
-  await waitForLoad(page);
-  // Skip debug screenshot for performance
-  // await takeDebugScreenshot(page, 'starbucks-main-menu');
+export class StarbucksCrawler extends BaseCrawler {
+  protected readonly siteConfig = {
+    ...SITE_CONFIG,
+    key: "starbucks",
+    name: "Starbucks",
+    startUrls: [SITE_CONFIG.startUrl],
+  };
+  protected readonly selectors = SELECTORS;
+  protected readonly crawlerConfig = CRAWLER_CONFIG;
 
-  const productIds = await extractProductIds(page);
+  protected async getProductUrls(page: Page): Promise<ProductRequest[]> {
+    logger.info("Processing drink list page");
 
-  logger.info(
-    `Selector used: ${productIds.usedSelector}, Links found: ${productIds.linksFound}`
-  );
-  logger.info(`Found ${productIds.ids.length} products to crawl`);
+    const productIds = await extractProductIds(page);
 
-  // Limit products in test mode
-  const productsToProcess = isTestMode
-    ? productIds.ids.slice(0, maxProductsInTestMode)
-    : productIds.ids;
-
-  if (isTestMode) {
     logger.info(
-      `🧪 Test mode: limiting to ${productsToProcess.length} products`
+      `Selector used: ${productIds.usedSelector}, Links found: ${productIds.linksFound}`
     );
-  }
-
-  // Prepare all product URLs
-  const productRequests = productsToProcess.map((productId) => ({
-    url: `${SITE_CONFIG.productUrlTemplate}${productId}`,
-    userData: { productId, isProductPage: true },
-  }));
+    logger.info(`Found ${productIds.ids.length} products to crawl`);
 
-  await crawlerInstance.addRequests(productRequests);
-  logger.info(
-    `Enqueued ${productsToProcess.length} product pages for processing`
-  );
-}
+    return productIds.ids.map((productId) => ({
+      url: `${SITE_CONFIG.productUrlTemplate}${productId}`,
+      userData: { productId },
+    }));
+  }
 
-async function handleProductPage(
-  page: Page,
-  request: Request,
-  crawlerInstance: PlaywrightCrawler
-) {
-  const productId = request.userData.productId;
-  logger.info(`Processing product page: ${productId}`);
+  protected async extractProductFromContainer(
+    _container: Locator,
+    { page, request }: ExtractionContext
+  ): Promise<Product> {
+    logger.info(`Processing product page: ${request.userData.productId}`);
 
-  try {
-    await waitForLoad(page);
     // Wait for the main product element to ensure content is loaded
     await page.waitForSelector(SELECTORS.productDetails.name, {
       timeout: 5000,
     });
 
-    const product = await extractProductData(page);
-    if (product.name && product.externalId) {
-      const finalProduct: Product = {
-        ...product,
-        price: null,
-        category: "Drinks",
-      };
-
-      await crawlerInstance.pushData(finalProduct);
-
-      logger.info(
-        `✅ Extracted: ${finalProduct.name} (${finalProduct.nameEn}) - ID: ${finalProduct.externalId}`
-      );
-    } else {
-      logger.warn(
-        `⚠️ Failed to extract complete product data for ID: ${productId}`
-      );
-    }
-  } catch (error) {
-    logger.error(`❌ Error processing product ${productId}: ${error}`);
+    return await extractProductData(page);
   }
-}
 
-// ================================================
-// CRAWLER EXPORT
-// ================================================
-
-export const createStarbucksCrawler = () =>
-  new PlaywrightCrawler({
-    launchContext: {
-      launchOptions: CRAWLER_CONFIG.launchOptions,
-    },
-    async requestHandler({ page, request, crawler: crawlerInstance }) {
-      const url = request.url;
-
-      if (url.includes("drink_list.do")) {
-        await handleMainMenuPage(page, crawlerInstance);
-      } else if (request.userData?.isProductPage) {
-        await handleProductPage(page, request, crawlerInstance);
-      }
-    },
-    maxConcurrency: CRAWLER_CONFIG.maxConcurrency,
-    maxRequestsPerCrawl: CRAWLER_CONFIG.maxRequestsPerCrawl,
-    maxRequestRetries: CRAWLER_CONFIG.maxRequestRetries,
-    requestHandlerTimeoutSecs: CRAWLER_CONFIG.requestHandlerTimeoutSecs,
-  });
-
-export const runStarbucksCrawler = async () => {
-  const crawler = createStarbucksCrawler();
+  protected extractNutritionData(
+    _container: Locator,
+    { page }: ExtractionContext
+  ): Promise<Nutritions | null> {
+    return extractNutritionData(page);
+  }
 
-  try {
-    await crawler.run([SITE_CONFIG.startUrl]);
-    const dataset = await crawler.getData();
-    await writeProductsToJson(dataset.items as Product[], "starbucks");
-  } catch (error) {
-    logger.error("Starbucks crawler failed:", error);
-    throw error;
+  protected extractVariants(
+    _container: Locator,
+    { page }: ExtractionContext
+  ): Promise<ProductVariant[] | null> {
+    return extractVariants(page);
   }
-};
+}
+
+export const runStarbucksCrawler = () => new StarbucksCrawler().crawlAndSave();
 
 // Only run if this file is executed directly (not imported)
 if (import.meta.url === `file://${process.argv[1]}`) {
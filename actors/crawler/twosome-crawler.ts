@@ -2,12 +2,17 @@ import { PlaywrightCrawler } from "crawlee";
 import type { Locator, Page } from "playwright";
 import { logger } from "../../shared/logger";
 import type { Nutritions } from "../../shared/nutritions";
+import type { ProductVariant } from "../../shared/variants";
 import {
   type Product,
   waitFor,
   waitForLoad,
   writeProductsToJson,
 } from "./crawlerUtils";
+import {
+  createFixturePreNavigationHook,
+  getFixtureMode,
+} from "./fixtureReplay";
 import {
   extractNutritionFromText,
   hasNutritionKeywords,
@@ -58,6 +63,8 @@ const SELECTORS = {
   productDescription: "dl.menu-detail-info-title > dd",
   productDetailName: ".menu-detail-info-title h1",
   productDetailImg: ".menu-detail-img img",
+  // Size tabs above the nutrition table (Regular/Large/Max)
+  productSizeTabs: ".menu-detail-size button",
 } as const;
 
 // ================================================
@@ -233,31 +240,51 @@ async function tryPageBodyForNutrition(
   return null;
 }
 
+// Navigate to product detail page and reveal its nutrition data
+async function openDetailPage(page: Page, menuCode: string): Promise<void> {
+  const detailUrl = `${SITE_CONFIG.productUrlTemplate}${menuCode}`;
+  logger.info(`📄 Navigating to detail page: ${detailUrl}`);
+  await page.goto(detailUrl);
+  await waitForLoad(page);
+
+  // Click "확인" button to confirm nutrition popup
+  try {
+    const confirmButton = page.getByText("확인");
+    if ((await confirmButton.count()) > 0) {
+      logger.info("🔘 Clicking 확인 button to reveal nutrition data");
+      await confirmButton.first().click();
+      await page.waitForTimeout(1000);
+    }
+  } catch {
+    // Method failed
+  }
+}
+
 // Extract nutrition data from product detail page
-// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: refactor later
 async function extractNutritionDataFromDetailPage(
   page: Page,
   menuCode: string
 ): Promise<Nutritions | null> {
   try {
-    // Navigate to product detail page
-    const detailUrl = `${SITE_CONFIG.productUrlTemplate}${menuCode}`;
-    logger.info(`📄 Navigating to detail page: ${detailUrl}`);
-    await page.goto(detailUrl);
-    await waitForLoad(page);
+    await openDetailPage(page, menuCode);
+  } catch (error) {
+    logger.debug(
+      `Failed to open detail page for menuCode ${menuCode}:`,
+      error as Record<string, unknown>
+    );
+    return null;
+  }
 
-    // Click "확인" button to confirm nutrition popup
-    try {
-      const confirmButton = page.getByText("확인");
-      if ((await confirmButton.count()) > 0) {
-        logger.info("🔘 Clicking 확인 button to reveal nutrition data");
-        await confirmButton.first().click();
-        await page.waitForTimeout(1000);
-      }
-    } catch {
-      // Method failed
-    }
+  return await extractNutritionFromOpenDetailPage(page, menuCode);
+}
 
+// Extract nutrition data shown on the currently open detail page
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: refactor later
+async function extractNutritionFromOpenDetailPage(
+  page: Page,
+  menuCode: string
+): Promise<Nutritions | null> {
+  try {
     // Debug: Check what elements are actually available
     const allDlElements = await page.locator("dl").count();
     const wrapperElements = await page.locator(".menu-detail-dl-wrap").count();
@@ -468,6 +495,56 @@ async function extractNutritionDataFromDetailPage(
   }
 }
 
+// Extract per-size nutrition by switching the size tabs of the open detail page
+async function extractVariantsFromOpenDetailPage(
+  page: Page,
+  menuCode: string
+): Promise<ProductVariant[] | null> {
+  try {
+    const sizeTabs = page.locator(SELECTORS.productSizeTabs);
+    const tabCount = await sizeTabs.count();
+
+    // Single-size menus have no tabs; the product nutritions already cover it
+    if (tabCount < 2) {
+      return null;
+    }
+
+    const variants: ProductVariant[] = [];
+    for (let i = 0; i < tabCount; i++) {
+      const tab = sizeTabs.nth(i);
+      const size = (await tab.textContent())?.trim();
+      if (!size) {
+        continue;
+      }
+
+      await tab.click();
+      await page.waitForTimeout(500);
+      const nutritions = await extractNutritionFromOpenDetailPage(
+        page,
+        menuCode
+      );
+
+      variants.push({
+        size,
+        volume: nutritions?.servingSize,
+        volumeUnit: nutritions?.servingSizeUnit,
+        nutritions: nutritions ?? undefined,
+      });
+    }
+
+    logger.info(
+      `📏 Extracted ${variants.length} size variants for ${menuCode}`
+    );
+    return variants;
+  } catch (error) {
+    logger.debug(
+      `Failed to extract size variants for menuCode ${menuCode}:`,
+      error as Record<string, unknown>
+    );
+    return null;
+  }
+}
+
 async function extractCategoriesFromMenu(
   page: Page
 ): Promise<Array<{ name: string; element: Locator }>> {
@@ -631,7 +708,8 @@ async function extractProductsFromListing(
 function createBasicProduct(
   productInfo: { name: string; menuCode: string; imageUrl?: string },
   categoryName: string,
-  nutritions: Nutritions | null = null
+  nutritions: Nutritions | null = null,
+  variants: ProductVariant[] | null = null
 ): Product {
   const externalId = `twosome_${productInfo.menuCode}`;
 
@@ -646,6 +724,7 @@ function createBasicProduct(
     externalId,
     externalUrl: `${SITE_CONFIG.productUrlTemplate}${productInfo.menuCode}`,
     nutritions,
+    ...(variants?.length ? { variants } : {}),
   };
 }
 
@@ -676,11 +755,16 @@ async function processProductWithNutrition(
       product.menuCode
     );
 
+    const variants = nutritions
+      ? await extractVariantsFromOpenDetailPage(page, product.menuCode)
+      : null;
+
     // Create product with nutrition data
     const createdProduct = createBasicProduct(
       product,
       categoryName,
-      nutritions
+      nutritions,
+      variants
     );
 
     logger.info(
@@ -850,6 +934,7 @@ export const createTwosomeCrawler = () =>
     launchContext: {
       launchOptions: CRAWLER_CONFIG.launchOptions,
     },
+    preNavigationHooks: [createFixturePreNavigationHook("twosome")],
     async requestHandler({ page, crawler: crawlerInstance, request }) {
       try {
         logger.info(`🌐 Attempting to crawl: ${request.url}`);
@@ -887,25 +972,34 @@ async function checkSiteAccessibility(url: string): Promise<boolean> {
   }
 }
 
-export const runTwosomeCrawler = async () => {
+export const crawlTwosomeProducts = async (): Promise<Product[]> => {
   const crawler = createTwosomeCrawler();
 
-  try {
+  // Replayed crawls never touch the live site
+  if (getFixtureMode() !== "replay") {
     // Check if the URL is accessible
     const isAccessible = await checkSiteAccessibility(SITE_CONFIG.startUrl);
 
     if (!isAccessible) {
       throw new Error("Primary URL is not accessible");
     }
+  }
 
-    logger.info(`🌐 Starting crawler with URL: ${SITE_CONFIG.startUrl}`);
+  logger.info(`🌐 Starting crawler with URL: ${SITE_CONFIG.startUrl}`);
 
-    await crawler.run([SITE_CONFIG.startUrl]);
-    const dataset = await crawler.getData();
-    await writeProductsToJson(dataset.items as Product[], "twosome");
+  await crawler.run([SITE_CONFIG.startUrl]);
+  const dataset = await crawler.getData();
 
-    // Ensure proper cleanup and exit
-    await crawler.teardown();
+  // Ensure proper cleanup and exit
+  await crawler.teardown();
+
+  return dataset.items as Product[];
+};
+
+export const runTwosomeCrawler = async () => {
+  try {
+    const products = await crawlTwosomeProducts();
+    await writeProductsToJson(products, "twosome");
   } catch (error) {
     logger.error("Twosome crawler failed:", error);
     throw error;
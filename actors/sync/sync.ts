@@ -0,0 +1,456 @@
+#!/usr/bin/env tsx
+
+import fs from "node:fs";
+import path from "node:path";
+import { ConvexHttpClient } from "convex/browser";
+import { AVAILABLE_CAFES } from "shared/constants";
+import { api } from "../../convex/_generated/api";
+import {
+  type CrawledProduct,
+  cleanNutritions,
+} from "../../shared/crawledProduct";
+import { logger } from "../../shared/logger";
+import {
+  categorizeProductList,
+  createCategorizeStats,
+} from "../categorizer/categorize";
+import type {
+  CategorizeStats,
+  ProductForCategorize,
+} from "../categorizer/types";
+import {
+  type CrawlerName,
+  readCrawlOutput,
+  recordCrawlRun,
+  runCrawler,
+} from "../crawler/crawl";
+import { ProductUploader, type UploadResult } from "../uploader/uploader";
+import { checkCategorization, checkProductCount } from "./syncChecks";
+
+/**
+ * Crawl, categorize and upload cafes in one process and write one JSON report
+ * per run. Each crawler still runs in a child process because Crawlee keeps
+ * its storage per process; its output is read once, and categorize and upload
+ * work on the products in memory.
+ */
+
+type StageName = "crawl" | "categorize" | "upload";
+
+interface StageReport {
+  attempts: number;
+  durationMs: number;
+  error?: string;
+  stage: StageName;
+  status: "succeeded" | "failed";
+}
+
+interface CafeReport {
+  cafe: CrawlerName;
+  categorization?: Pick<
+    CategorizeStats,
+    "confidenceBreakdown" | "errors" | "processed" | "updated"
+  >;
+  durationMs: number;
+  // Active products in the catalog before this run
+  previousActiveCount?: number;
+  productCount?: number;
+  stages: StageReport[];
+  status: "uploaded" | "stopped" | "failed";
+  stopReason?: string;
+  upload?: {
+    created: number;
+    updated: number;
+    unchanged: number;
+    removed: number;
+    missing: number;
+    reactivated: number;
+    removalsHeldBack: number;
+    lockedConflicts: number;
+    errorCount: number;
+  };
+}
+
+interface SyncReport {
+  cafes: CafeReport[];
+  dryRun: boolean;
+  finishedAt: string;
+  startedAt: string;
+  success: boolean;
+}
+
+interface SyncOptions {
+  confirmRemovals?: boolean;
+  dryRun?: boolean;
+  maxRemovals?: string;
+  report?: string;
+  retries: number;
+  skipChecks?: boolean;
+}
+
+const RETRY_DELAY_MS = 5000;
+
+// Print help information
+function printHelp(): void {
+  logger.info(`
+🔄 Data Sync
+
+Usage:
+  pnpm sync                           # Sync all cafes
+  pnpm sync starbucks                 # Crawl, categorize and upload Starbucks
+  pnpm sync starbucks compose         # Sync Starbucks and Compose
+
+Available Cafes:
+${Object.entries(AVAILABLE_CAFES)
+  .map(([key, cafe]) => `  ${key.padEnd(10)} - ${cafe.name}`)
+  .join("\n")}
+
+Options:
+  --dry-run            Crawl and categorize, preview the upload
+  --retries <n>        Retries for the crawl stage (default: 2)
+  --skip-checks        Upload even if product count or categorization looks wrong
+  --max-removals <n|n%>
+                       Removal guard limit passed to the uploader
+  --confirm-removals   Apply removals over the limit
+  --report <path>      Where to write the JSON report
+                       (default: actors/crawler/crawler-outputs/sync-report-<time>.json)
+  --help, -h           Show this help message
+`);
+}
+
+// Parse command line arguments
+function parseArgs(): { cafeSlugs: CrawlerName[]; options: SyncOptions } {
+  const args = process.argv.slice(2);
+  const options: SyncOptions = { retries: 2 };
+  const cafeSlugs: CrawlerName[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--retries":
+        options.retries = Number.parseInt(args[i + 1], 10);
+        i++; // Skip next argument as it's the count
+        break;
+      case "--skip-checks":
+        options.skipChecks = true;
+        break;
+      case "--max-removals":
+        options.maxRemovals = args[i + 1];
+        i++; // Skip next argument as it's the limit
+        break;
+      case "--confirm-removals":
+        options.confirmRemovals = true;
+        break;
+      case "--report":
+        options.report = args[i + 1];
+        i++; // Skip next argument as it's the path
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+        break;
+      default:
+        if (arg in AVAILABLE_CAFES) {
+          cafeSlugs.push(arg as CrawlerName);
+        } else {
+          logger.error(`Invalid cafe name: ${arg}`);
+          logger.info(
+            `Available cafes: ${Object.keys(AVAILABLE_CAFES).join(", ")}`
+          );
+          process.exit(1);
+        }
+        break;
+    }
+  }
+
+  if (Number.isNaN(options.retries) || options.retries < 0) {
+    logger.error("--retries must be a non-negative number");
+    process.exit(1);
+  }
+
+  if (cafeSlugs.length === 0) {
+    cafeSlugs.push(...(Object.keys(AVAILABLE_CAFES) as CrawlerName[]));
+  }
+
+  return { cafeSlugs, options };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Run one stage, retrying failures, and time it
+async function runStage<T>(
+  stage: StageName,
+  retries: number,
+  run: () => Promise<T>
+): Promise<{ report: StageReport; value?: T }> {
+  const startTime = Date.now();
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    try {
+      const value = await run();
+      return {
+        report: {
+          stage,
+          status: "succeeded",
+          attempts: attempt,
+          durationMs: Date.now() - startTime,
+        },
+        value,
+      };
+    } catch (error) {
+      lastError = error;
+      logger.warn(`${stage} attempt ${attempt} failed: ${errorMessage(error)}`);
+      if (attempt <= retries) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  return {
+    report: {
+      stage,
+      status: "failed",
+      attempts: retries + 1,
+      durationMs: Date.now() - startTime,
+      error: errorMessage(lastError),
+    },
+  };
+}
+
+// Active products the upload will compare against, if the cafe exists yet
+async function getActiveProductCount(
+  client: ConvexHttpClient,
+  cafeSlug: string
+): Promise<number | undefined> {
+  const cafe = await client.query(api.cafes.getBySlug, { slug: cafeSlug });
+  if (!cafe) {
+    return;
+  }
+  const products = await client.query(api.products.getByCafe, {
+    cafeId: cafe._id,
+  });
+  return products.length;
+}
+
+function toCategorizerInput(product: CrawledProduct): ProductForCategorize {
+  return {
+    name: product.name,
+    externalCategory: product.externalCategory,
+    description: product.description,
+    category: product.category ?? undefined,
+    nutritions: cleanNutritions(product.nutritions),
+    tags: product.tags ?? undefined,
+  };
+}
+
+// Categorize in memory; the categorizer sets category and tags on its inputs
+async function categorizeProducts(
+  products: CrawledProduct[],
+  stats: CategorizeStats
+): Promise<CrawledProduct[]> {
+  const inputs = products.map(toCategorizerInput);
+  await categorizeProductList(inputs, {}, stats);
+  return products.map((product, index) => ({
+    ...product,
+    category: inputs[index].category ?? product.category,
+    tags: inputs[index].tags ?? product.tags,
+  }));
+}
+
+function summarizeUpload(result: UploadResult): CafeReport["upload"] {
+  return {
+    created: result.created,
+    updated: result.updated,
+    unchanged: result.unchanged,
+    removed: result.removed,
+    missing: result.missing ?? 0,
+    reactivated: result.reactivated,
+    removalsHeldBack: result.removalGuard?.products.length ?? 0,
+    lockedConflicts: result.lockedConflicts?.length ?? 0,
+    errorCount: result.errors.length,
+  };
+}
+
+async function syncCafe(
+  cafeSlug: CrawlerName,
+  options: SyncOptions,
+  client: ConvexHttpClient,
+  uploader: ProductUploader
+): Promise<CafeReport> {
+  const startTime = Date.now();
+  const report: CafeReport = {
+    cafe: cafeSlug,
+    status: "failed",
+    stages: [],
+    durationMs: 0,
+  };
+  const finish = (status: CafeReport["status"]) => {
+    report.status = status;
+    report.durationMs = Date.now() - startTime;
+    return report;
+  };
+
+  report.previousActiveCount = await getActiveProductCount(client, cafeSlug);
+
+  // Crawl
+  const crawlStartedAt = Date.now();
+  const crawl = await runStage("crawl", options.retries, async () => {
+    await runCrawler(cafeSlug);
+    const output = readCrawlOutput(cafeSlug, crawlStartedAt);
+    if (output.length === 0) {
+      throw new Error(`No crawler output found for ${cafeSlug}`);
+    }
+    return output;
+  });
+  report.stages.push(crawl.report);
+  await recordCrawlRun(
+    cafeSlug,
+    crawlStartedAt,
+    crawl.report.error ? [crawl.report.error] : []
+  );
+  if (!crawl.value) {
+    return finish("failed");
+  }
+  const crawledProducts: CrawledProduct[] = crawl.value;
+  report.productCount = crawledProducts.length;
+
+  // Categorize (deterministic, so never retried)
+  const stats = createCategorizeStats();
+  const categorize = await runStage("categorize", 0, () =>
+    categorizeProducts(crawledProducts, stats)
+  );
+  report.stages.push(categorize.report);
+  report.categorization = {
+    processed: stats.processed,
+    updated: stats.updated,
+    errors: stats.errors,
+    confidenceBreakdown: stats.confidenceBreakdown,
+  };
+  if (!categorize.value) {
+    return finish("failed");
+  }
+  const products = categorize.value;
+
+  // Stop before upload if the crawl looks broken
+  const stopReason = options.skipChecks
+    ? undefined
+    : (checkProductCount(products.length, report.previousActiveCount) ??
+      checkCategorization(stats));
+  if (stopReason) {
+    logger.error(`🛑 ${cafeSlug}: ${stopReason}, not uploading`);
+    report.stopReason = stopReason;
+    return finish("stopped");
+  }
+
+  // Upload once: every attempt counts a missed crawl for products absent from
+  // the output, so a retry could confirm removals the grace period holds back
+  const upload = await runStage("upload", 0, () =>
+    uploader.uploadProducts(products, {
+      cafeSlug,
+      dryRun: options.dryRun,
+      maxRemovals: options.maxRemovals,
+      confirmRemovals: options.confirmRemovals,
+    })
+  );
+  report.stages.push(upload.report);
+  if (!upload.value) {
+    return finish("failed");
+  }
+  report.upload = summarizeUpload(upload.value);
+
+  return finish("uploaded");
+}
+
+function writeReport(report: SyncReport, reportPath?: string): string {
+  const filePath =
+    reportPath ??
+    path.join(
+      process.cwd(),
+      "actors",
+      "crawler",
+      "crawler-outputs",
+      `sync-report-${report.startedAt.replace(/[:.]/g, "-")}.json`
+    );
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2), "utf-8");
+  return filePath;
+}
+
+// Main execution function
+async function main() {
+  const { cafeSlugs, options } = parseArgs();
+  const convexUrl = process.env.VITE_CONVEX_URL;
+  if (!convexUrl) {
+    throw new Error("VITE_CONVEX_URL is not set");
+  }
+
+  logger.info("🔄 Data Sync Starting");
+  logger.info(`📋 Cafes to sync: ${cafeSlugs.join(", ")}`);
+  if (options.dryRun) {
+    logger.info("🔍 DRY RUN MODE - No data will be uploaded");
+  }
+  logger.info("=".repeat(50));
+
+  const startedAt = new Date();
+  const client = new ConvexHttpClient(convexUrl);
+  const uploader = new ProductUploader();
+  const cafes: CafeReport[] = [];
+
+  // Sync cafes sequentially to avoid resource and database conflicts
+  for (const cafeSlug of cafeSlugs) {
+    logger.info(`\n🏪 Syncing ${AVAILABLE_CAFES[cafeSlug].name}`);
+    try {
+      cafes.push(await syncCafe(cafeSlug, options, client, uploader));
+    } catch (error) {
+      logger.error(`Failed to sync ${cafeSlug}: ${errorMessage(error)}`);
+      cafes.push({
+        cafe: cafeSlug,
+        status: "failed",
+        stages: [],
+        durationMs: 0,
+        stopReason: errorMessage(error),
+      });
+    }
+  }
+
+  const report: SyncReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    dryRun: options.dryRun ?? false,
+    success: cafes.every((cafe) => cafe.status === "uploaded"),
+    cafes,
+  };
+  const reportPath = writeReport(report, options.report);
+
+  // Final summary
+  logger.info("=".repeat(50));
+  logger.info("📊 SYNC SUMMARY");
+  for (const cafe of cafes) {
+    const stages = cafe.stages
+      .map((stage) => `${stage.stage} ${Math.round(stage.durationMs / 1000)}s`)
+      .join(", ");
+    logger.info(
+      `  ${cafe.cafe}: ${cafe.status}${cafe.stopReason ? ` (${cafe.stopReason})` : ""} [${stages}]`
+    );
+  }
+  logger.info(`📝 Report: ${reportPath}`);
+
+  if (!report.success) {
+    logger.error("Some cafes were not uploaded. Check the report for details.");
+    process.exit(1);
+  }
+  logger.info("🎉 All cafes synced successfully!");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  logger.error("Fatal error in sync:", error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { CategorizeStats } from "../categorizer/types";
+import { checkCategorization, checkProductCount } from "./syncChecks";
+
+function createStats(
+  processed: number,
+  low: number,
+  errors = 0
+): CategorizeStats {
+  return {
+    processed,
+    updated: 0,
+    unchanged: processed,
+    retagged: 0,
+    errors,
+    confidenceBreakdown: { high: processed - low, medium: 0, low },
+    sourceBreakdown: { direct: 0, pattern: 0, fallback: 0, human: 0 },
+  };
+}
+
+describe("checkProductCount", () => {
+  it("stops on an empty crawl", () => {
+    expect(checkProductCount(0, undefined)).toBeDefined();
+  });
+
+  it("stops when the crawl lost a large part of the menu", () => {
+    expect(checkProductCount(60, 100)).toBeDefined();
+    expect(checkProductCount(90, 100)).toBeUndefined();
+  });
+
+  it("passes a cafe without active products yet", () => {
+    expect(checkProductCount(40, undefined)).toBeUndefined();
+    expect(checkProductCount(40, 0)).toBeUndefined();
+  });
+});
+
+describe("checkCategorization", () => {
+  it("stops when too many categories are guesses", () => {
+    expect(checkCategorization(createStats(100, 30))).toBeDefined();
+    expect(checkCategorization(createStats(100, 10))).toBeUndefined();
+  });
+
+  it("stops on categorization errors", () => {
+    expect(checkCategorization(createStats(100, 0, 1))).toBeDefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { isSharpDrop, SHARP_DROP_RATIO } from "../../shared/crawlRuns";
+import type { CategorizeStats } from "../categorizer/types";
+
+/**
+ * Sanity checks `pnpm sync` runs between categorize and upload. Each returns
+ * the reason to stop before uploading, or undefined when the crawl looks fine.
+ */
+
+// Share of low-confidence categorizations above which the rules need a look
+export const MAX_LOW_CONFIDENCE_RATIO = 0.2;
+
+export function checkProductCount(
+  productCount: number,
+  activeCount: number | undefined
+): string | undefined {
+  if (productCount === 0) {
+    return "Crawl returned no products";
+  }
+  if (isSharpDrop(activeCount, productCount)) {
+    return `Crawl found ${productCount} products, less than ${Math.round(SHARP_DROP_RATIO * 100)}% of the ${activeCount} active ones`;
+  }
+}
+
+export function checkCategorization(
+  stats: CategorizeStats
+): string | undefined {
+  if (stats.processed === 0) {
+    return;
+  }
+  if (stats.errors > 0) {
+    return `Categorization failed for ${stats.errors} products`;
+  }
+
+  const lowRatio = stats.confidenceBreakdown.low / stats.processed;
+  if (lowRatio > MAX_LOW_CONFIDENCE_RATIO) {
+    return `${stats.confidenceBreakdown.low} of ${stats.processed} products were categorized with low confidence`;
+  }
+}
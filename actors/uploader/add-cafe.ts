@@ -10,7 +10,7 @@ import { logger } from "../../shared/logger";
 dotenv.config({ path: ".env.local" });
 
 const CONVEX_URL = process.env.VITE_CONVEX_URL;
-const UPLOAD_SECRET = process.env.CONVEX_UPLOAD_SECRET;
+const API_TOKEN = process.env.JANJUM_API_TOKEN;
 
 type CafeKey = keyof typeof AVAILABLE_CAFES;
 
@@ -162,7 +162,7 @@ async function uploadToStorage(
   imageBuffer: Buffer
 ): Promise<string> {
   const uploadUrl = await client.mutation(api.http.generateUploadUrl, {
-    uploadSecret: UPLOAD_SECRET,
+    apiToken: API_TOKEN,
   });
 
   const uploadResponse = await fetch(uploadUrl, {
@@ -217,8 +217,8 @@ async function main() {
   if (!CONVEX_URL) {
     throw new Error("VITE_CONVEX_URL is not set");
   }
-  if (!UPLOAD_SECRET) {
-    throw new Error("CONVEX_UPLOAD_SECRET is not set");
+  if (!API_TOKEN) {
+    throw new Error("JANJUM_API_TOKEN is not set");
   }
 
   const { cafeKey, imageUrl: providedImageUrl } = parseArgs();
@@ -253,7 +253,7 @@ async function main() {
         cafeId: existing._id,
         // biome-ignore lint/suspicious/noExplicitAny: Convex Id type from runtime string
         storageId: storageId as any,
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
       logger.info(`Updated image for "${cafe.name}"`);
     }
@@ -263,7 +263,7 @@ async function main() {
       slug: cafe.slug,
       // biome-ignore lint/suspicious/noExplicitAny: Convex Id type from runtime string
       imageStorageId: storageId as any,
-      uploadSecret: UPLOAD_SECRET,
+      apiToken: API_TOKEN,
     });
     logger.info(`Created cafe "${cafe.name}" (id: ${cafeId})`);
   }
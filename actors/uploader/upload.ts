@@ -14,8 +14,10 @@ const __dirname = path.dirname(__filename);
 type CafeSlug = keyof typeof AVAILABLE_CAFES;
 
 interface UploadOptions {
+  confirmRemovals?: boolean;
   dryRun?: boolean;
   file?: string;
+  maxRemovals?: string;
   verbose?: boolean;
 }
 
@@ -51,6 +53,13 @@ function parseArgs(): { cafeSlugs: CafeSlug[]; options: UploadOptions } {
         options.file = args[i + 1];
         i++; // Skip next argument as it's the file path
         break;
+      case "--confirm-removals":
+        options.confirmRemovals = true;
+        break;
+      case "--max-removals":
+        options.maxRemovals = args[i + 1];
+        i++; // Skip next argument as it's the limit
+        break;
       case "--help":
         printHelp();
         process.exit(0);
@@ -132,6 +141,14 @@ function uploadCafe(cafeSlug: CafeSlug, options: UploadOptions): Promise<void> {
       args.push("--verbose");
     }
 
+    if (options.confirmRemovals) {
+      args.push("--confirm-removals");
+    }
+
+    if (options.maxRemovals) {
+      args.push("--max-removals", options.maxRemovals);
+    }
+
     const child = spawn("tsx", args, {
       stdio: "inherit",
       cwd: process.cwd(),
@@ -173,6 +190,11 @@ Options:
   --dry-run         Preview changes without uploading to database
   --verbose, -v     Show detailed output during upload
   --file <path>     Use specific file instead of latest from crawler-outputs/
+  --max-removals <n|n%>
+                    Hold back removals above this many products or share of
+                    active products (default: 30%)
+  --confirm-removals
+                    Apply removals even when they go over the limit
   --help, -h        Show this help message
 
 Note: Images are automatically downloaded and optimized (PNG/JPG → WebP) during upload.
@@ -5,6 +5,14 @@ import { ConvexClient } from "convex/browser";
 import dotenv from "dotenv";
 import sharp from "sharp";
 import { api } from "../../convex/_generated/api";
+import type { LockedFieldConflict } from "../../convex/lockedFields";
+import {
+  type CrawledProduct,
+  formatProductIssues,
+  getSeenExternalIds,
+  type ProductIssues,
+  validateCrawledProducts,
+} from "../../shared/crawledProduct";
 import { logger } from "../../shared/logger";
 
 const IMAGE_CONCURRENCY = process.env.IMAGE_CONCURRENCY
@@ -18,36 +26,42 @@ const CONVEX_URL = process.env.VITE_CONVEX_URL;
 
 interface UploadOptions {
   cafeSlug: string;
+  confirmRemovals?: boolean;
   dryRun?: boolean;
   file: string;
+  maxRemovals?: string;
   verbose?: boolean;
 }
 
-interface ProductData {
-  category: string;
-  description: string | null;
-  externalCategory: string | null;
-  externalId: string;
-  externalImageUrl: string;
-  externalUrl: string;
-  // added by this script
-  imageStorageId?: string;
-  name: string;
-  nameEn: string | null;
-  price: number | null;
+// A product from a crawler output file; `imageStorageId` is added by this script
+type ProductData = CrawledProduct;
+
+interface ValidatedProducts {
+  invalid: ProductIssues[];
+  products: ProductData[];
+  // Includes invalid products, so they are not counted as removed
+  seenExternalIds: string[];
 }
 
 interface UploadResult {
   created: number;
   errors: string[];
+  lockedConflicts?: Array<{ product: string } & LockedFieldConflict>;
   message?: string;
+  missing?: number;
+  missingProducts?: string[];
   processed: number;
   processingTime: number;
   reactivated: number;
   reactivatedProducts?: string[];
+  removalGuard?: {
+    activeCount: number;
+    products: string[];
+    threshold: string;
+  };
   removed: number;
   removedProducts?: string[];
-  samples?: Array<{ name: string; category: string }>;
+  samples?: Array<{ name: string; category: string | null }>;
   skipped: number;
   unchanged: number;
   updated: number;
@@ -71,26 +85,74 @@ class ProductUploader {
   }
 
   async uploadFromFile(options: UploadOptions): Promise<UploadResult> {
-    const { file, cafeSlug, dryRun = false, verbose = false } = options;
-
-    // Images are always downloaded and optimized
-    const downloadImages = true;
+    const {
+      file,
+      cafeSlug,
+      dryRun = false,
+      verbose = false,
+      maxRemovals,
+      confirmRemovals = false,
+    } = options;
 
     const filePath = this.resolveFilePath(file);
-    const products = this.readAndValidateFile(filePath);
+    const validated = this.readAndValidateFile(filePath, verbose);
 
     if (verbose) {
       this.logUploadInfo(filePath, cafeSlug, dryRun);
     }
 
-    logger.info(`Found ${products.length} products in file`);
+    logger.info(
+      `Found ${validated.products.length + validated.invalid.length} products in file`
+    );
+
+    return await this.uploadValidated(validated, {
+      cafeSlug,
+      dryRun,
+      verbose,
+      maxRemovals,
+      confirmRemovals,
+    });
+  }
+
+  async uploadProducts(
+    products: unknown[],
+    options: Omit<UploadOptions, "file">
+  ): Promise<UploadResult> {
+    return await this.uploadValidated(
+      this.validateProducts(products, options.verbose ?? false),
+      options
+    );
+  }
+
+  private async uploadValidated(
+    validated: ValidatedProducts,
+    options: Omit<UploadOptions, "file">
+  ): Promise<UploadResult> {
+    const {
+      cafeSlug,
+      dryRun = false,
+      verbose = false,
+      maxRemovals,
+      confirmRemovals = false,
+    } = options;
+
+    // Images are always downloaded and optimized
+    const downloadImages = true;
 
     try {
       const result = await this.performUpload(
-        products,
+        validated,
         cafeSlug,
         dryRun,
-        downloadImages
+        downloadImages,
+        { maxRemovals, confirmRemovals }
+      );
+      // Invalid products never reach the server; report them like it would
+      result.skipped += validated.invalid.length;
+      result.errors.unshift(
+        ...formatProductIssues(validated.invalid).map(
+          (line) => `Invalid product ${line}`
+        )
       );
       this.handleUploadResult(result, verbose, dryRun);
       return result;
@@ -104,6 +166,41 @@ class ProductUploader {
     }
   }
 
+  // Only valid products are image-processed and uploaded; the server
+  // validates again for other callers
+  private validateProducts(
+    products: unknown[],
+    verbose: boolean
+  ): ValidatedProducts {
+    const { valid, invalid, warnings } = validateCrawledProducts(products);
+
+    if (invalid.length > 0) {
+      logger.warn(
+        `\n⚠️  Invalid products, will be skipped (${invalid.length}):`
+      );
+      for (const line of formatProductIssues(invalid)) {
+        logger.warn(`  ${line}`);
+      }
+    }
+
+    if (warnings.length > 0) {
+      logger.info(`\n🔎 Products with questionable data (${warnings.length}):`);
+      if (verbose) {
+        for (const line of formatProductIssues(warnings)) {
+          logger.info(`  ${line}`);
+        }
+      } else {
+        logger.info("  Use --verbose to see product names");
+      }
+    }
+
+    return {
+      invalid,
+      products: valid,
+      seenExternalIds: getSeenExternalIds(products),
+    };
+  }
+
   private resolveFilePath(file: string): string {
     const filePath = path.resolve(file);
     if (!fs.existsSync(filePath)) {
@@ -113,9 +210,12 @@ class ProductUploader {
     return filePath;
   }
 
-  private readAndValidateFile(filePath: string): ProductData[] {
+  private readAndValidateFile(
+    filePath: string,
+    verbose: boolean
+  ): ValidatedProducts {
     const fileContent = fs.readFileSync(filePath, "utf-8");
-    let products: ProductData[];
+    let products: unknown;
 
     try {
       products = JSON.parse(fileContent);
@@ -127,7 +227,7 @@ class ProductUploader {
       throw new Error("JSON file must contain an array of products");
     }
 
-    return products;
+    return this.validateProducts(products, verbose);
   }
 
   private logUploadInfo(
@@ -141,14 +241,15 @@ class ProductUploader {
   }
 
   private async performUpload(
-    products: ProductData[],
+    { products, seenExternalIds }: ValidatedProducts,
     cafeSlug: string,
     dryRun: boolean,
-    downloadImages: boolean
+    downloadImages: boolean,
+    removalOptions: Pick<UploadOptions, "maxRemovals" | "confirmRemovals">
   ): Promise<UploadResult> {
-    const uploadSecret = process.env.CONVEX_UPLOAD_SECRET;
-    if (!uploadSecret) {
-      throw new Error("CONVEX_UPLOAD_SECRET environment variable is required");
+    const apiToken = process.env.JANJUM_API_TOKEN;
+    if (!apiToken) {
+      throw new Error("JANJUM_API_TOKEN environment variable is required");
     }
 
     // Pre-process images if downloadImages is enabled
@@ -161,10 +262,12 @@ class ProductUploader {
     // downloadImages=false tells server not to download again since we already did it
     return await this.client.mutation(api.dataUploader.uploadProductsFromJson, {
       products: processedProducts,
+      seenExternalIds,
       cafeSlug,
       dryRun,
       downloadImages: false, // Images already processed and uploaded
-      uploadSecret,
+      ...removalOptions,
+      apiToken,
     });
   }
 
@@ -361,9 +464,9 @@ class ProductUploader {
       }
 
       // Upload to Convex storage
-      const uploadSecret = process.env.CONVEX_UPLOAD_SECRET;
+      const apiToken = process.env.JANJUM_API_TOKEN;
       const uploadUrl = await this.client.mutation(api.http.generateUploadUrl, {
-        uploadSecret,
+        apiToken,
       });
 
       const uploadResponse = await fetch(uploadUrl, {
@@ -427,6 +530,7 @@ class ProductUploader {
     logger.info(`  Unchanged: ${result.unchanged}`);
     logger.info(`  Skipped: ${result.skipped}`);
     logger.info(`  Removed: ${result.removed || 0}`);
+    logger.info(`  Missing: ${result.missing || 0}`);
     logger.info(`  Reactivated: ${result.reactivated || 0}`);
     logger.info(`  Errors: ${result.errors.length}`);
     logger.info(`  Processing time: ${result.processingTime}ms`);
@@ -468,6 +572,27 @@ class ProductUploader {
     }
   }
 
+  private printMissingProductsSection(
+    result: UploadResult,
+    verbose: boolean
+  ): void {
+    if (!result.missing) {
+      return;
+    }
+
+    logger.info("\n⏳ Missing Products Summary:");
+    logger.info(
+      `  ${result.missing} product(s) missing from this crawl, removed if still missing next time`
+    );
+    if (verbose && result.missingProducts?.length) {
+      for (const [index, productName] of result.missingProducts.entries()) {
+        logger.info(`  ${index + 1}. ${productName}`);
+      }
+    } else if (!verbose) {
+      logger.info("  Use --verbose to see product names");
+    }
+  }
+
   private printReactivatedProductsSection(
     result: UploadResult,
     verbose: boolean
@@ -498,6 +623,38 @@ class ProductUploader {
     }
   }
 
+  private printLockedConflictsSection(result: UploadResult): void {
+    if (!result.lockedConflicts?.length) {
+      return;
+    }
+
+    // Hand-corrected in /admin, so the crawled value was not applied
+    logger.info(`\n🔒 Locked fields kept (${result.lockedConflicts.length}):`);
+    for (const conflict of result.lockedConflicts) {
+      logger.info(
+        `  ${conflict.product} ${conflict.field}: crawled ${conflict.crawled ?? "(none)"}, kept ${conflict.locked ?? "(none)"}`
+      );
+    }
+  }
+
+  private printRemovalGuardSection(result: UploadResult): void {
+    if (!result.removalGuard) {
+      return;
+    }
+
+    const { activeCount, products, threshold } = result.removalGuard;
+    logger.warn(
+      `\n🛑 Removals held back: ${products.length} of ${activeCount} active product(s) are missing from this crawl, over the limit of ${threshold}`
+    );
+    logger.warn("  These products would have been marked as removed:");
+    for (const [index, productName] of products.entries()) {
+      logger.warn(`  ${index + 1}. ${productName}`);
+    }
+    logger.warn(
+      "  Check the crawler output, then re-run with --confirm-removals if the menu really shrank."
+    );
+  }
+
   private printLifecycleSummary(result: UploadResult): void {
     if (
       (result.removed && result.removed > 0) ||
@@ -517,7 +674,10 @@ class ProductUploader {
     this.printBasicResults(result);
     this.printSampleProducts(result, verbose);
     this.printRemovedProductsSection(result, verbose);
+    this.printMissingProductsSection(result, verbose);
     this.printReactivatedProductsSection(result, verbose);
+    this.printRemovalGuardSection(result);
+    this.printLockedConflictsSection(result);
     this.printLifecycleSummary(result);
   }
 }
@@ -538,6 +698,7 @@ async function main() {
       cafeSlug: "",
       dryRun: args.includes("--dry-run"),
       verbose: args.includes("--verbose") || args.includes("-v"),
+      confirmRemovals: args.includes("--confirm-removals"),
     };
 
     // Parse file option
@@ -551,6 +712,11 @@ async function main() {
       options.cafeSlug = args[cafeSlugIndex + 1];
     }
 
+    const maxRemovalsIndex = args.indexOf("--max-removals");
+    if (maxRemovalsIndex !== -1 && args[maxRemovalsIndex + 1]) {
+      options.maxRemovals = args[maxRemovalsIndex + 1];
+    }
+
     await uploader.uploadFromFile(options);
     process.exit(0);
   } catch (error) {
@@ -571,4 +737,5 @@ if (process.argv[1]?.endsWith("uploader.ts")) {
   });
 }
 
+export type { ProductData, UploadResult };
 export { ProductUploader };
@@ -13,17 +13,33 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as adminAuth from "../adminAuth.js";
+import type * as adminValidators from "../adminValidators.js";
+import type * as bookmarks from "../bookmarks.js";
 import type * as cafes from "../cafes.js";
+import type * as crawlRunValidators from "../crawlRunValidators.js";
+import type * as crawlRuns from "../crawlRuns.js";
 import type * as dataUploader from "../dataUploader.js";
+import type * as follows from "../follows.js";
 import type * as http from "../http.js";
 import type * as imageDownloader from "../imageDownloader.js";
+import type * as intakeLogs from "../intakeLogs.js";
+import type * as lockedFields from "../lockedFields.js";
+import type * as moderation from "../moderation.js";
+import type * as moderationValidators from "../moderationValidators.js";
 import type * as nutritionsValidator from "../nutritionsValidator.js";
+import type * as priceHistory from "../priceHistory.js";
+import type * as productChanges from "../productChanges.js";
+import type * as productTags from "../productTags.js";
+import type * as productVariantValidator from "../productVariantValidator.js";
 import type * as products from "../products.js";
+import type * as removalGuard from "../removalGuard.js";
+import type * as reviewReactions from "../reviewReactions.js";
+import type * as reviewValidators from "../reviewValidators.js";
 import type * as reviews from "../reviews.js";
 import type * as shortId from "../shortId.js";
 import type * as stats from "../stats.js";
 import type * as storage from "../storage.js";
-import type * as uploadSecret from "../uploadSecret.js";
 import type * as users from "../users.js";
 
 /**
@@ -35,17 +51,33 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  adminAuth: typeof adminAuth;
+  adminValidators: typeof adminValidators;
+  bookmarks: typeof bookmarks;
   cafes: typeof cafes;
+  crawlRunValidators: typeof crawlRunValidators;
+  crawlRuns: typeof crawlRuns;
   dataUploader: typeof dataUploader;
+  follows: typeof follows;
   http: typeof http;
   imageDownloader: typeof imageDownloader;
+  intakeLogs: typeof intakeLogs;
+  lockedFields: typeof lockedFields;
+  moderation: typeof moderation;
+  moderationValidators: typeof moderationValidators;
   nutritionsValidator: typeof nutritionsValidator;
+  priceHistory: typeof priceHistory;
+  productChanges: typeof productChanges;
+  productTags: typeof productTags;
+  productVariantValidator: typeof productVariantValidator;
   products: typeof products;
+  removalGuard: typeof removalGuard;
+  reviewReactions: typeof reviewReactions;
+  reviewValidators: typeof reviewValidators;
   reviews: typeof reviews;
   shortId: typeof shortId;
   stats: typeof stats;
   storage: typeof storage;
-  uploadSecret: typeof uploadSecret;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
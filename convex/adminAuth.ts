@@ -0,0 +1,171 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+  internalAction,
+  internalMutation,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { type ApiTokenScope, apiTokenScopeValidator } from "./adminValidators";
+import { requireRole } from "./users";
+
+/**
+ * Access control for admin functions. A caller is either a signed-in user with
+ * the admin role (the web admin pages) or a script presenting an API token
+ * that carries the required scope (crawler uploads, image and storage
+ * scripts). Admin mutations record every call in `adminAuditLogs`; queries
+ * cannot write, so reads are checked but not logged.
+ *
+ * Tokens are issued from the Convex CLI, which requires deploy access:
+ *
+ *   npx convex run adminAuth:createApiToken '{"name": "ci", "scopes": ["catalog"]}'
+ */
+
+export type AdminActor =
+  | { userId: Id<"users"> }
+  | { apiTokenId: Id<"apiTokens"> };
+
+interface AdminAccess {
+  apiToken?: string;
+  scope: ApiTokenScope;
+}
+
+const TOKEN_PREFIX = "jjt_";
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function verifyApiToken(
+  ctx: QueryCtx,
+  apiToken: string,
+  scope: ApiTokenScope
+) {
+  const tokenHash = await hashToken(apiToken);
+  const token = await ctx.db
+    .query("apiTokens")
+    .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+    .unique();
+  if (!token || token.revokedAt !== undefined) {
+    throw new Error("Unauthorized: Invalid API token");
+  }
+  if (!token.scopes.includes(scope)) {
+    throw new Error(`Unauthorized: API token lacks the "${scope}" scope`);
+  }
+  return token;
+}
+
+/** Check admin access for a query; see the module comment */
+export async function authorizeAdmin(
+  ctx: QueryCtx,
+  { apiToken, scope }: AdminAccess
+): Promise<AdminActor> {
+  if (apiToken !== undefined) {
+    const token = await verifyApiToken(ctx, apiToken, scope);
+    return { apiTokenId: token._id };
+  }
+  const user = await requireRole(ctx, "admin");
+  return { userId: user._id };
+}
+
+/**
+ * Check admin access for a mutation and write an audit log entry. `action`
+ * names the function, e.g. "products.deleteProduct".
+ */
+export async function authorizeAdminMutation(
+  ctx: MutationCtx,
+  {
+    action,
+    details,
+    ...access
+  }: AdminAccess & { action: string; details?: string }
+): Promise<AdminActor> {
+  const actor = await authorizeAdmin(ctx, access);
+  const now = Date.now();
+
+  if ("apiTokenId" in actor) {
+    await ctx.db.patch(actor.apiTokenId, { lastUsedAt: now });
+  }
+  await ctx.db.insert("adminAuditLogs", {
+    ...actor,
+    action,
+    details,
+    createdAt: now,
+  });
+
+  return actor;
+}
+
+export const insertApiToken = internalMutation({
+  args: {
+    name: v.string(),
+    tokenHash: v.string(),
+    scopes: v.array(apiTokenScopeValidator),
+  },
+  handler: async (ctx, { name, tokenHash, scopes }) => {
+    const existing = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .filter((q) => q.eq(q.field("revokedAt"), undefined))
+      .first();
+    if (existing) {
+      throw new Error(`An active API token named "${name}" already exists`);
+    }
+
+    await ctx.db.insert("apiTokens", {
+      name,
+      tokenHash,
+      scopes,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Issue a new API token. The token is only returned here; the database keeps
+ * its hash.
+ */
+export const createApiToken = internalAction({
+  args: {
+    name: v.string(),
+    scopes: v.array(apiTokenScopeValidator),
+  },
+  handler: async (ctx, { name, scopes }): Promise<{ token: string }> => {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const token = `${TOKEN_PREFIX}${Array.from(bytes, (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("")}`;
+
+    await ctx.runMutation(internal.adminAuth.insertApiToken, {
+      name,
+      tokenHash: await hashToken(token),
+      scopes,
+    });
+
+    return { token };
+  },
+});
+
+/** Revoke the active token with the given name */
+export const revokeApiToken = internalMutation({
+  args: { name: v.string() },
+  handler: async (ctx, { name }) => {
+    const token = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .filter((q) => q.eq(q.field("revokedAt"), undefined))
+      .first();
+    if (!token) {
+      throw new Error(`No active API token named "${name}"`);
+    }
+
+    await ctx.db.patch(token._id, { revokedAt: Date.now() });
+  },
+});
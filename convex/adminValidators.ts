@@ -0,0 +1,20 @@
+import { type Infer, v } from "convex/values";
+
+/**
+ * Validators for user roles and admin API tokens, shared by the Convex schema
+ * and `convex/adminAuth.ts`.
+ */
+export const userRoleValidator = v.union(
+  v.literal("user"),
+  v.literal("moderator"),
+  v.literal("admin")
+);
+
+export type UserRole = Infer<typeof userRoleValidator>;
+
+export const apiTokenScopeValidator = v.union(
+  v.literal("catalog"), // Cafes, products, tags and crawl uploads
+  v.literal("storage") // Stored files and image optimization
+);
+
+export type ApiTokenScope = Infer<typeof apiTokenScopeValidator>;
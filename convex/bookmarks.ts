@@ -0,0 +1,110 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { getCurrentUser, getCurrentUserOrThrow } from "./users";
+
+/** Remove all bookmarks of a product that is about to be deleted */
+export async function deleteProductBookmarks(
+  ctx: MutationCtx,
+  productId: Id<"products">
+): Promise<void> {
+  const bookmarks = await ctx.db
+    .query("bookmarks")
+    .withIndex("by_product", (q) => q.eq("productId", productId))
+    .collect();
+  for (const bookmark of bookmarks) {
+    await ctx.db.delete(bookmark._id);
+  }
+}
+
+/**
+ * Save a product to the current user's "마실 목록", or remove it if it is
+ * already saved
+ */
+export const toggleBookmark = mutation({
+  args: { productId: v.id("products") },
+  handler: async (ctx, { productId }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+
+    const existing = await ctx.db
+      .query("bookmarks")
+      .withIndex("by_user_product", (q) =>
+        q.eq("userId", user._id).eq("productId", productId)
+      )
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      return { bookmarked: false };
+    }
+
+    if (!(await ctx.db.get(productId))) {
+      throw new Error("Product not found");
+    }
+    await ctx.db.insert("bookmarks", {
+      userId: user._id,
+      productId,
+      createdAt: Date.now(),
+    });
+    return { bookmarked: true };
+  },
+});
+
+/**
+ * The current user's bookmarked products, newest first. Discontinued products
+ * are kept so the list can show them as 단종 instead of dropping them.
+ */
+export const getMyBookmarks = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const bookmarks = await ctx.db
+      .query("bookmarks")
+      .withIndex("by_user_created_at", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+
+    const products = await Promise.all(
+      bookmarks.map(async (bookmark) => {
+        const product = await ctx.db.get(bookmark.productId);
+        if (!product) {
+          return null;
+        }
+        const cafe = await ctx.db.get(product.cafeId);
+        return {
+          ...product,
+          bookmarkedAt: bookmark.createdAt,
+          cafeName: cafe?.name ?? "",
+          imageUrl: product.imageStorageId
+            ? (await ctx.storage.getUrl(product.imageStorageId)) || undefined
+            : undefined,
+        };
+      })
+    );
+
+    return products.filter((product) => product !== null);
+  },
+});
+
+/**
+ * IDs of the current user's bookmarked products, for bookmark buttons in
+ * product lists. One query shared by every card instead of one per card.
+ */
+export const getMyBookmarkedProductIds = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const bookmarks = await ctx.db
+      .query("bookmarks")
+      .withIndex("by_user_created_at", (q) => q.eq("userId", user._id))
+      .collect();
+    return bookmarks.map((bookmark) => bookmark.productId);
+  },
+});
@@ -1,6 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { verifyUploadSecret } from "./uploadSecret";
+import { authorizeAdmin, authorizeAdminMutation } from "./adminAuth";
 
 export const list = query({
   args: {},
@@ -47,9 +47,9 @@ export const getById = query({
 });
 
 export const getAllWithImages = query({
-  args: { uploadSecret: v.optional(v.string()) },
-  handler: async (ctx, { uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
 
     const cafes = await ctx.db
       .query("cafes")
@@ -67,10 +67,15 @@ export const create = mutation({
     slug: v.string(),
     imageStorageId: v.optional(v.id("_storage")),
     rank: v.optional(v.number()),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { name, slug, imageStorageId, rank, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { name, slug, imageStorageId, rank, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "cafes.create",
+      details: slug,
+    });
 
     const existing = await ctx.db
       .query("cafes")
@@ -96,10 +101,15 @@ export const updateImage = mutation({
   args: {
     cafeId: v.id("cafes"),
     storageId: v.id("_storage"),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { cafeId, storageId, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { cafeId, storageId, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "cafes.updateImage",
+      details: cafeId,
+    });
 
     await ctx.db.patch(cafeId, {
       imageStorageId: storageId,
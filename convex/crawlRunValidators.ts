@@ -0,0 +1,25 @@
+import { type Infer, v } from "convex/values";
+
+/**
+ * Validators for crawl run history, shared by the Convex schema and
+ * `convex/crawlRuns.ts`.
+ */
+export const crawlRunStatusValidator = v.union(
+  v.literal("succeeded"),
+  v.literal("failed")
+);
+
+export type CrawlRunStatus = Infer<typeof crawlRunStatusValidator>;
+
+// The `UploadResults` counts of the upload that consumed the crawl output
+export const uploadCountsValidator = v.object({
+  uploadedAt: v.number(),
+  created: v.number(),
+  updated: v.number(),
+  unchanged: v.number(),
+  removed: v.number(),
+  reactivated: v.number(),
+  errorCount: v.number(),
+});
+
+export type UploadCounts = Infer<typeof uploadCountsValidator>;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { summarizeCrawlOutput } from "../shared/crawlRuns";
+import { flagSharpDrops } from "./crawlRuns";
+
+describe("flagSharpDrops", () => {
+  it("compares each run with the previous successful one", () => {
+    const runs = flagSharpDrops([
+      { productCount: 120, status: "succeeded" as const },
+      { productCount: 0, status: "failed" as const },
+      { productCount: 5, status: "succeeded" as const },
+      { productCount: 6, status: "succeeded" as const },
+    ]);
+
+    expect(runs.map((run) => [run.previousCount, run.sharpDrop])).toEqual([
+      [undefined, false],
+      [120, false],
+      [120, true],
+      [5, false],
+    ]);
+  });
+});
+
+describe("summarizeCrawlOutput", () => {
+  it("counts products with at least one nutrition value", () => {
+    expect(
+      summarizeCrawlOutput([
+        { nutritions: { calories: 10, caloriesUnit: "kcal" } },
+        { nutritions: { caloriesUnit: "kcal" } },
+        { nutritions: null },
+        {},
+      ])
+    ).toEqual({ productCount: 4, nutritionCount: 1 });
+  });
+});
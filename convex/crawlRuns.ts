@@ -0,0 +1,141 @@
+import { v } from "convex/values";
+import { isSharpDrop, summarizeCrawlOutput } from "../shared/crawlRuns";
+import type { Nutritions } from "../shared/nutritions";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { authorizeAdmin, authorizeAdminMutation } from "./adminAuth";
+import {
+  crawlRunStatusValidator,
+  type UploadCounts,
+} from "./crawlRunValidators";
+
+// Runs shown per cafe on the admin health page
+const RUNS_PER_CAFE = 30;
+// An upload is matched to a crawl that finished at most this long before it
+const UPLOAD_MATCH_WINDOW = 24 * 60 * 60 * 1000;
+
+/**
+ * Record one crawler run. Called by `actors/crawler/crawl.ts` for failed runs
+ * too, so a broken crawler shows up even though nothing gets uploaded.
+ */
+export const recordCrawl = mutation({
+  args: {
+    cafeSlug: v.string(),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    status: crawlRunStatusValidator,
+    productCount: v.number(),
+    nutritionCount: v.number(),
+    errors: v.array(v.string()),
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { cafeSlug, apiToken, ...run }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "crawlRuns.recordCrawl",
+      details: cafeSlug,
+    });
+
+    const cafe = await ctx.db
+      .query("cafes")
+      .withIndex("by_slug", (q) => q.eq("slug", cafeSlug))
+      .first();
+    if (!cafe) {
+      throw new Error(`Cafe not found: ${cafeSlug}`);
+    }
+
+    return await ctx.db.insert("crawlRuns", { cafeId: cafe._id, ...run });
+  },
+});
+
+/**
+ * Attach upload counts to the crawl run whose output was uploaded. Uploads
+ * without a recorded crawl (e.g. a local crawl without an API token) get a
+ * run of their own so the history has no gaps.
+ */
+export async function recordUploadCounts(
+  ctx: MutationCtx,
+  cafeId: Id<"cafes">,
+  products: { nutritions?: Nutritions | null }[],
+  counts: Omit<UploadCounts, "uploadedAt">
+) {
+  const now = Date.now();
+  const upload = { ...counts, uploadedAt: now };
+
+  const latest = await ctx.db
+    .query("crawlRuns")
+    .withIndex("by_cafe_started_at", (q) => q.eq("cafeId", cafeId))
+    .order("desc")
+    .first();
+  if (
+    latest &&
+    latest.status === "succeeded" &&
+    !latest.upload &&
+    latest.finishedAt >= now - UPLOAD_MATCH_WINDOW
+  ) {
+    await ctx.db.patch(latest._id, { upload });
+    return;
+  }
+
+  await ctx.db.insert("crawlRuns", {
+    cafeId,
+    startedAt: now,
+    finishedAt: now,
+    status: "succeeded",
+    ...summarizeCrawlOutput(products),
+    errors: [],
+    upload,
+  });
+}
+
+/**
+ * Mark runs (oldest first) whose product count fell sharply compared with the
+ * previous successful run. Failed runs are never compared against.
+ */
+export function flagSharpDrops<
+  T extends Pick<Doc<"crawlRuns">, "productCount" | "status">,
+>(runs: T[]) {
+  let lastCount: number | undefined;
+  return runs.map((run) => {
+    const previousCount = lastCount;
+    const succeeded = run.status === "succeeded";
+    if (succeeded) {
+      lastCount = run.productCount;
+    }
+    return {
+      ...run,
+      previousCount,
+      sharpDrop: succeeded && isSharpDrop(previousCount, run.productCount),
+    };
+  });
+}
+
+/**
+ * Recent crawl runs per cafe, oldest first, for the admin health page.
+ * `sharpDrop` marks runs whose product count fell sharply compared with the
+ * previous successful run.
+ */
+export const getHealth = query({
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "catalog" });
+
+    const cafes = await ctx.db.query("cafes").collect();
+    const health = await Promise.all(
+      cafes.map(async (cafe) => {
+        const runs = await ctx.db
+          .query("crawlRuns")
+          .withIndex("by_cafe_started_at", (q) => q.eq("cafeId", cafe._id))
+          .order("desc")
+          .take(RUNS_PER_CAFE);
+        return {
+          cafe: { _id: cafe._id, name: cafe.name, slug: cafe.slug },
+          runs: flagSharpDrops(runs.reverse()),
+        };
+      })
+    );
+
+    return health.sort((a, b) => a.cafe.name.localeCompare(b.cafe.name, "ko"));
+  },
+});
@@ -1,30 +1,39 @@
 import type { GenericDataModel, GenericMutationCtx } from "convex/server";
 import { v } from "convex/values";
-import type { Nutritions } from "../shared/nutritions";
-import { api } from "./_generated/api";
+import {
+  type CrawledProduct,
+  type CrawledVariant,
+  cleanNutritions,
+  formatProductIssues,
+  getSeenExternalIds,
+  validateCrawledProducts,
+} from "../shared/crawledProduct";
+import type { ProductVariant } from "../shared/variants";
+import { api, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
 import { mutation } from "./_generated/server";
+import { authorizeAdminMutation } from "./adminAuth";
+import { recordUploadCounts } from "./crawlRuns";
+import type { LockedFieldConflict } from "./lockedFields";
 
-interface CrawlerProduct {
-  category: string | null;
-  description: string;
-  externalCategory: string;
-  externalId: string;
-  externalImageUrl: string;
-  externalUrl: string;
-  imageStorageId?: Id<"_storage">;
-  name: string;
-  nameEn: string;
-  nutritions?: Nutritions | null;
-  price: number | null;
-}
 interface UploadResults {
   created: number;
   errors: string[];
+  // Crawled values not applied because the field was corrected by hand
+  lockedConflicts: Array<{ product: string } & LockedFieldConflict>;
+  // Missing from this crawl but still within the removal grace period
+  missing: number;
+  missingProducts?: string[];
   processed: number;
   processingTime: number;
   reactivated: number;
   reactivatedProducts?: string[];
+  // Removals held back because they went over the removal guard limit
+  removalGuard?: {
+    threshold: string;
+    activeCount: number;
+    products: string[];
+  };
   removed: number;
   removedProducts?: string[];
   skipped: number;
@@ -32,41 +41,37 @@ interface UploadResults {
   updated: number;
 }
 
-// Helper function to clean nutrition data (convert null to undefined)
-function cleanNutritions(
-  nutritions?: Nutritions | null
-): Nutritions | undefined {
-  if (!nutritions) {
+// Helper function to clean variant data (convert null to undefined)
+function cleanVariants(
+  variants?: CrawledVariant[] | null
+): ProductVariant[] | undefined {
+  if (!variants?.length) {
     return;
   }
 
-  const cleaned: Nutritions = {};
-
-  // Convert all null values to undefined
-  for (const [key, value] of Object.entries(nutritions)) {
-    if (value !== null) {
-      (cleaned as Record<string, unknown>)[key] = value;
-    }
-  }
-
-  // Return undefined if no actual nutrition data exists
-  const hasData = Object.keys(cleaned).length > 0;
-  return hasData ? cleaned : undefined;
+  return variants.map((variant) => ({
+    size: variant.size,
+    volume: variant.volume ?? undefined,
+    volumeUnit: variant.volumeUnit ?? undefined,
+    price: variant.price ?? undefined,
+    nutritions: cleanNutritions(variant.nutritions),
+  }));
 }
 
 // Helper function to upload products to database
 async function uploadProductsToDatabase(
   ctx: GenericMutationCtx<GenericDataModel>,
-  products: CrawlerProduct[],
+  products: CrawledProduct[],
   cafeId: Id<"cafes">,
   results: UploadResults,
   downloadImages = false
 ) {
   for (const product of products) {
     try {
-      const result = await ctx.runMutation(api.products.upsertProduct, {
+      const result = await ctx.runMutation(internal.products.upsertProduct, {
         ...product,
         cafeId,
+        imageStorageId: product.imageStorageId as Id<"_storage"> | undefined,
         category: product.category ?? undefined,
         nameEn: product.nameEn ?? undefined,
         description: product.description ?? undefined,
@@ -74,6 +79,8 @@ async function uploadProductsToDatabase(
         externalImageUrl: product.externalImageUrl ?? undefined,
         price: product.price ?? undefined,
         nutritions: cleanNutritions(product.nutritions),
+        variants: cleanVariants(product.variants),
+        tags: product.tags?.length ? product.tags : undefined,
         downloadImages,
       });
       if (result.action === "created") {
@@ -83,6 +90,9 @@ async function uploadProductsToDatabase(
       } else if (result.action === "unchanged") {
         results.unchanged++;
       }
+      for (const conflict of result.lockedConflicts ?? []) {
+        results.lockedConflicts.push({ product: product.name, ...conflict });
+      }
     } catch (error) {
       results.errors.push(`Failed to upsert ${product.name}: ${error}`);
     }
@@ -92,20 +102,34 @@ async function uploadProductsToDatabase(
 export const uploadProductsFromJson = mutation({
   args: {
     products: v.array(v.any()),
+    // External IDs of products the caller dropped as invalid before upload
+    seenExternalIds: v.optional(v.array(v.string())),
     cafeSlug: v.string(),
     dryRun: v.optional(v.boolean()),
     downloadImages: v.optional(v.boolean()),
-    uploadSecret: v.string(),
+    maxRemovals: v.optional(v.string()),
+    confirmRemovals: v.optional(v.boolean()),
+    apiToken: v.string(),
   },
   handler: async (
     ctx,
-    { products, cafeSlug, dryRun = false, downloadImages = false, uploadSecret }
-  ) => {
-    // Environment-based authentication
-    const allowedSecret = process.env.CONVEX_UPLOAD_SECRET;
-    if (!allowedSecret || uploadSecret !== allowedSecret) {
-      throw new Error("Unauthorized: Invalid upload secret");
+    {
+      products,
+      seenExternalIds = [],
+      cafeSlug,
+      dryRun = false,
+      downloadImages = false,
+      maxRemovals,
+      confirmRemovals,
+      apiToken,
     }
+  ) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "dataUploader.uploadProductsFromJson",
+      details: cafeSlug,
+    });
 
     const startTime = Date.now();
 
@@ -124,42 +148,70 @@ export const uploadProductsFromJson = mutation({
       updated: 0,
       unchanged: 0,
       errors: [],
+      lockedConflicts: [],
       skipped: 0,
       removed: 0,
+      missing: 0,
       reactivated: 0,
       processingTime: 0,
     };
 
+    // Invalid products are skipped, but still count as seen below
+    const { valid, invalid } = validateCrawledProducts(products);
+    results.skipped = invalid.length;
+    for (const line of formatProductIssues(invalid)) {
+      results.errors.push(`Invalid product ${line}`);
+    }
+
     if (dryRun) {
       results.processingTime = Date.now() - startTime;
       return {
         ...results,
-        message: `Dry run completed. Would process ${products.length} products.`,
-        samples: products.slice(0, 3), // Show first 3 as samples
+        message: `Dry run completed. Would process ${valid.length} products.`,
+        samples: valid.slice(0, 3), // Show first 3 as samples
       };
     }
 
     // Upload processed products
     await uploadProductsToDatabase(
       ctx,
-      products,
+      valid,
       cafe._id,
       results,
       downloadImages
     );
 
     // After uploading, check for removed products
-    const currentExternalIds = products.map((p) => p.externalId);
-    const removalResults = await ctx.runMutation(api.products.markAsRemoved, {
-      cafeId: cafe._id,
-      currentExternalIds,
-    });
+    const currentExternalIds = [
+      ...new Set([...getSeenExternalIds(products), ...seenExternalIds]),
+    ];
+    const removalResults = await ctx.runMutation(
+      internal.products.markAsRemoved,
+      {
+        cafeId: cafe._id,
+        currentExternalIds,
+        maxRemovals,
+        confirmRemovals,
+      }
+    );
 
     // Update results with removal information
     results.removed = removalResults.removed;
     results.reactivated = removalResults.reactivated;
     results.removedProducts = removalResults.removedProducts;
+    results.missing = removalResults.missing;
+    results.missingProducts = removalResults.missingProducts;
     results.reactivatedProducts = removalResults.reactivatedProducts;
+    results.removalGuard = removalResults.blockedRemovals;
+
+    await recordUploadCounts(ctx, cafe._id, products, {
+      created: results.created,
+      updated: results.updated,
+      unchanged: results.unchanged,
+      removed: results.removed,
+      reactivated: results.reactivated,
+      errorCount: results.errors.length,
+    });
 
     results.processingTime = Date.now() - startTime;
 
@@ -169,10 +221,22 @@ export const uploadProductsFromJson = mutation({
       message += `, Removed: ${results.removed}`;
     }
 
+    if (results.missing > 0) {
+      message += `, Missing: ${results.missing}`;
+    }
+
     if (results.reactivated > 0) {
       message += `, Reactivated: ${results.reactivated}`;
     }
 
+    if (results.removalGuard) {
+      message += `, Removals held back: ${results.removalGuard.products.length} (limit ${results.removalGuard.threshold})`;
+    }
+
+    if (results.lockedConflicts.length > 0) {
+      message += `, Locked field conflicts: ${results.lockedConflicts.length}`;
+    }
+
     return {
       ...results,
       message,
@@ -0,0 +1,95 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { getCurrentUser, getCurrentUserOrThrow } from "./users";
+
+/** Remove a user's follows in both directions, for account deletion */
+export async function deleteUserFollows(
+  ctx: MutationCtx,
+  userId: Id<"users">
+): Promise<void> {
+  const following = await ctx.db
+    .query("follows")
+    .withIndex("by_follower", (q) => q.eq("followerId", userId))
+    .collect();
+  const followers = await ctx.db
+    .query("follows")
+    .withIndex("by_following", (q) => q.eq("followingId", userId))
+    .collect();
+  for (const follow of [...following, ...followers]) {
+    await ctx.db.delete(follow._id);
+  }
+}
+
+export const follow = mutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    if (user._id === userId) {
+      throw new Error("Cannot follow yourself");
+    }
+    if (!(await ctx.db.get(userId))) {
+      throw new Error("User not found");
+    }
+
+    const existing = await ctx.db
+      .query("follows")
+      .withIndex("by_follower", (q) =>
+        q.eq("followerId", user._id).eq("followingId", userId)
+      )
+      .first();
+    if (!existing) {
+      await ctx.db.insert("follows", {
+        followerId: user._id,
+        followingId: userId,
+        createdAt: Date.now(),
+      });
+    }
+    return { success: true };
+  },
+});
+
+export const unfollow = mutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+
+    const existing = await ctx.db
+      .query("follows")
+      .withIndex("by_follower", (q) =>
+        q.eq("followerId", user._id).eq("followingId", userId)
+      )
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return { success: true };
+  },
+});
+
+/**
+ * Follower and following counts of a user, and whether the current user
+ * follows them
+ */
+export const getFollowStats = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const followers = await ctx.db
+      .query("follows")
+      .withIndex("by_following", (q) => q.eq("followingId", userId))
+      .collect();
+    const following = await ctx.db
+      .query("follows")
+      .withIndex("by_follower", (q) => q.eq("followerId", userId))
+      .collect();
+
+    const currentUser = await getCurrentUser(ctx);
+    return {
+      followers: followers.length,
+      following: following.length,
+      isFollowing: followers.some(
+        (follow) => follow.followerId === currentUser?._id
+      ),
+    };
+  },
+});
@@ -4,7 +4,7 @@ import { v } from "convex/values";
 import { Webhook } from "svix";
 import { internal } from "./_generated/api";
 import { httpAction, mutation, query } from "./_generated/server";
-import { verifyUploadSecret } from "./uploadSecret";
+import { authorizeAdminMutation } from "./adminAuth";
 
 const http = httpRouter();
 
@@ -60,9 +60,13 @@ async function validateRequest(req: Request): Promise<WebhookEvent | null> {
 
 // Additional functions for image optimization
 export const generateUploadUrl = mutation({
-  args: { uploadSecret: v.optional(v.string()) },
-  handler: async (ctx, { uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "http.generateUploadUrl",
+    });
 
     return await ctx.storage.generateUploadUrl();
   },
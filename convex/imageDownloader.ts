@@ -1,7 +1,7 @@
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
-import { type ActionCtx, action } from "./_generated/server";
+import { type ActionCtx, internalAction } from "./_generated/server";
 
 interface DownloadResult {
   error?: string;
@@ -10,15 +10,14 @@ interface DownloadResult {
   success: boolean;
 }
 
-export const downloadAndStoreImageAction = action({
+export const downloadAndStoreImageAction = internalAction({
   args: {
     imageUrl: v.string(),
     productId: v.id("products"),
-    uploadSecret: v.optional(v.string()),
   },
   handler: async (
     ctx: ActionCtx,
-    { imageUrl, productId, uploadSecret }
+    { imageUrl, productId }
   ): Promise<DownloadResult> => {
     let storageId: Id<"_storage"> | null = null;
 
@@ -70,10 +69,9 @@ export const downloadAndStoreImageAction = action({
       storageId = newStorageId as Id<"_storage">;
 
       // Update the product with the storage ID
-      await ctx.runMutation(api.products.updateImage, {
+      await ctx.runMutation(internal.products.setDownloadedImage, {
         productId,
         storageId,
-        uploadSecret,
       });
 
       return { success: true, storageId };
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { sumIntake } from "./intakeLogs";
+
+describe("sumIntake", () => {
+  it("adds up logged values, counting missing ones as zero", () => {
+    expect(
+      sumIntake([
+        { caffeine: 150, calories: 10, sugar: 0 },
+        { calories: 180, sugar: 40 },
+      ])
+    ).toEqual({ caffeine: 150, calories: 190, count: 2, sugar: 40 });
+  });
+
+  it("is all zeros without logs", () => {
+    expect(sumIntake([])).toEqual({
+      caffeine: 0,
+      calories: 0,
+      count: 0,
+      sugar: 0,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getCurrentUser, getCurrentUserOrThrow } from "./users";
+
+export interface IntakeTotals {
+  caffeine: number;
+  calories: number;
+  count: number;
+  sugar: number;
+}
+
+export function sumIntake(
+  logs: { caffeine?: number; calories?: number; sugar?: number }[]
+): IntakeTotals {
+  return logs.reduce<IntakeTotals>(
+    (totals, log) => ({
+      caffeine: totals.caffeine + (log.caffeine ?? 0),
+      calories: totals.calories + (log.calories ?? 0),
+      count: totals.count + 1,
+      sugar: totals.sugar + (log.sugar ?? 0),
+    }),
+    { caffeine: 0, calories: 0, count: 0, sugar: 0 }
+  );
+}
+
+/**
+ * Log that the current user drank a product. Nutrition values are copied from
+ * the chosen size (or the default size) so later menu changes don't rewrite
+ * past totals.
+ */
+export const log = mutation({
+  args: {
+    productId: v.id("products"),
+    size: v.optional(v.string()),
+  },
+  handler: async (ctx, { productId, size }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const product = await ctx.db.get(productId);
+
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const variant = size
+      ? product.variants?.find((candidate) => candidate.size === size)
+      : undefined;
+    const nutritions = variant?.nutritions ?? product.nutritions;
+
+    return await ctx.db.insert("intakeLogs", {
+      userId: user._id,
+      productId,
+      productName: product.name,
+      size: variant?.size,
+      calories: nutritions?.calories,
+      sugar: nutritions?.sugar,
+      caffeine: nutritions?.caffeine,
+      loggedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete a mistaken entry
+ */
+export const remove = mutation({
+  args: { logId: v.id("intakeLogs") },
+  handler: async (ctx, { logId }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const entry = await ctx.db.get(logId);
+
+    if (!entry) {
+      throw new Error("Intake log not found");
+    }
+
+    if (entry.userId !== user._id) {
+      throw new Error("Unauthorized: Can only delete your own intake logs");
+    }
+
+    await ctx.db.delete(logId);
+    return { success: true };
+  },
+});
+
+/**
+ * Today's and this week's totals for the current user. Day and week
+ * boundaries come from the client so they follow the user's timezone.
+ */
+export const getMySummary = query({
+  args: {
+    todayStart: v.number(),
+    weekStart: v.number(),
+  },
+  handler: async (ctx, { todayStart, weekStart }) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+    const since = Math.min(todayStart, weekStart);
+
+    const logs = await ctx.db
+      .query("intakeLogs")
+      .withIndex("by_user_logged_at", (q) =>
+        q.eq("userId", user._id).gte("loggedAt", since)
+      )
+      .order("desc")
+      .collect();
+
+    const entries = await Promise.all(
+      logs.map(async (entry) => {
+        const product = await ctx.db.get(entry.productId);
+        return { ...entry, shortId: product?.shortId };
+      })
+    );
+
+    return {
+      today: sumIntake(logs.filter((entry) => entry.loggedAt >= todayStart)),
+      week: sumIntake(logs.filter((entry) => entry.loggedAt >= weekStart)),
+      entries,
+    };
+  },
+});
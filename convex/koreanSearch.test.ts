@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSearchText,
+  decomposeHangul,
+  getChoseong,
+  rankSearchResults,
+  romanize,
+  toSearchQuery,
+} from "./koreanSearch";
+
+// Convex prefix-matches the (single) query term against indexed terms
+function matches(
+  input: string,
+  product: Parameters<typeof buildSearchText>[0]
+) {
+  const query = toSearchQuery(input);
+  return buildSearchText(product)
+    .split(" ")
+    .some((word) => word.startsWith(query));
+}
+
+describe("Hangul helpers", () => {
+  it("extracts initial consonants", () => {
+    expect(getChoseong("아메리카노")).toBe("ㅇㅁㄹㅋㄴ");
+    expect(getChoseong("ICE 라떼")).toBe("ICE ㄹㄸ");
+  });
+
+  it("splits syllables and compound letters into jamo", () => {
+    expect(decomposeHangul("라떼")).toBe("ㄹㅏㄸㅔ");
+    expect(decomposeHangul("닭")).toBe("ㄷㅏㄹㄱ");
+    expect(decomposeHangul("와")).toBe("ㅇㅗㅏ");
+  });
+
+  it("romanizes syllable by syllable", () => {
+    expect(romanize("아메리카노")).toBe("amerikano");
+    expect(romanize("콜드브루")).toBe("koldeubeuru");
+  });
+});
+
+describe("search text matching", () => {
+  const coldBrew = {
+    name: "바닐라 크림 콜드 브루",
+    nameEn: "Vanilla Cream Cold Brew",
+  };
+
+  it("matches by initial consonants", () => {
+    expect(matches("ㅇㅁㄹㅋㄴ", { name: "아메리카노" })).toBe(true);
+    expect(matches("ㅋㄷㅂㄹ", coldBrew)).toBe(true);
+  });
+
+  it("matches inside compound names", () => {
+    expect(matches("콜드브루", coldBrew)).toBe(true);
+    expect(matches("크림 콜드", coldBrew)).toBe(true);
+  });
+
+  it("matches half-typed syllables", () => {
+    expect(matches("아메ㄹ", { name: "아메리카노" })).toBe(true);
+    expect(matches("콜ㄷ", coldBrew)).toBe(true);
+  });
+
+  it("matches English names and romanization", () => {
+    expect(matches("cold", coldBrew)).toBe(true);
+    expect(matches("amerikano", { name: "아메리카노" })).toBe(true);
+  });
+
+  it("does not match unrelated names", () => {
+    expect(matches("ㄹㄸ", { name: "아메리카노" })).toBe(false);
+  });
+});
+
+describe("rankSearchResults", () => {
+  it("puts exact and prefix name matches first", () => {
+    const ranked = rankSearchResults("라떼", [
+      { name: "티 라떼" },
+      { name: "카페 모카", description: "라떼에 초콜릿" },
+      { name: "라떼" },
+      { name: "라떼 마끼아또" },
+    ]);
+
+    expect(ranked.map((product) => product.name)).toEqual([
+      "라떼",
+      "라떼 마끼아또",
+      "티 라떼",
+      "카페 모카",
+    ]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Pure helpers behind the products search index.
+ *
+ * Convex full-text search splits documents into terms and prefix-matches the
+ * last query term, so instead of teaching the index Korean we store extra
+ * terms per product (`products.searchText`) that make the interesting queries
+ * look like prefixes:
+ *
+ * - syllable suffixes of the name, so "콜드브루" finds "바닐라크림콜드브루"
+ * - initial consonants (초성), so "ㅇㅁㄹㅋㄴ" finds "아메리카노"
+ * - jamo spellings, so a half-typed "아메ㄹ" already finds "아메리카노"
+ * - a Revised Romanization spelling, so "amerikano" finds "아메리카노"
+ *
+ * `toSearchQuery` turns user input into the matching single term, and
+ * `rankSearchResults` re-orders hits so name matches beat description matches.
+ */
+
+const HANGUL_START = 0xac_00;
+const HANGUL_END = 0xd7_a3;
+
+const LEADS = "ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ";
+const VOWELS = "ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ";
+const TAILS = [
+  "",
+  "ㄱ",
+  "ㄲ",
+  "ㄳ",
+  "ㄴ",
+  "ㄵ",
+  "ㄶ",
+  "ㄷ",
+  "ㄹ",
+  "ㄺ",
+  "ㄻ",
+  "ㄼ",
+  "ㄽ",
+  "ㄾ",
+  "ㄿ",
+  "ㅀ",
+  "ㅁ",
+  "ㅂ",
+  "ㅄ",
+  "ㅅ",
+  "ㅆ",
+  "ㅇ",
+  "ㅈ",
+  "ㅊ",
+  "ㅋ",
+  "ㅌ",
+  "ㅍ",
+  "ㅎ",
+];
+
+// Compound letters are split so every keystroke of an IME stays a prefix
+// (typing "닭" passes through "달", which must already match)
+const COMPOUND_JAMO: Record<string, string> = {
+  ㄳ: "ㄱㅅ",
+  ㄵ: "ㄴㅈ",
+  ㄶ: "ㄴㅎ",
+  ㄺ: "ㄹㄱ",
+  ㄻ: "ㄹㅁ",
+  ㄼ: "ㄹㅂ",
+  ㄽ: "ㄹㅅ",
+  ㄾ: "ㄹㅌ",
+  ㄿ: "ㄹㅍ",
+  ㅀ: "ㄹㅎ",
+  ㅄ: "ㅂㅅ",
+  ㅘ: "ㅗㅏ",
+  ㅙ: "ㅗㅐ",
+  ㅚ: "ㅗㅣ",
+  ㅝ: "ㅜㅓ",
+  ㅞ: "ㅜㅔ",
+  ㅟ: "ㅜㅣ",
+  ㅢ: "ㅡㅣ",
+};
+
+const ROMAN_LEADS = [
+  "g",
+  "kk",
+  "n",
+  "d",
+  "tt",
+  "r",
+  "m",
+  "b",
+  "pp",
+  "s",
+  "ss",
+  "",
+  "j",
+  "jj",
+  "ch",
+  "k",
+  "t",
+  "p",
+  "h",
+];
+const ROMAN_VOWELS = [
+  "a",
+  "ae",
+  "ya",
+  "yae",
+  "eo",
+  "e",
+  "yeo",
+  "ye",
+  "o",
+  "wa",
+  "wae",
+  "oe",
+  "yo",
+  "u",
+  "wo",
+  "we",
+  "wi",
+  "yu",
+  "eu",
+  "ui",
+  "i",
+];
+const ROMAN_TAILS = [
+  "",
+  "k",
+  "k",
+  "k",
+  "n",
+  "n",
+  "n",
+  "t",
+  "l",
+  "k",
+  "m",
+  "l",
+  "l",
+  "l",
+  "p",
+  "l",
+  "m",
+  "p",
+  "p",
+  "t",
+  "t",
+  "ng",
+  "t",
+  "t",
+  "k",
+  "t",
+  "p",
+  "t",
+];
+
+// Longer terms can never be matched by a query, so they are cut to size
+const MAX_TERM_LENGTH = 32;
+
+const WHITESPACE = /\s+/g;
+const NON_WORD = /[^\p{L}\p{N}]+/gu;
+const COMPAT_JAMO = /[ㄱ-ㅣ]/;
+const ONLY_LEADS = /^[ㄱ-ㅎ]+$/;
+const HAS_HANGUL = /[가-힣ㄱ-ㅣ]/;
+
+function decomposeSyllable(char: string) {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_START || code > HANGUL_END) {
+    return null;
+  }
+  const offset = code - HANGUL_START;
+  return {
+    lead: Math.floor(offset / (21 * 28)),
+    vowel: Math.floor((offset % (21 * 28)) / 28),
+    tail: offset % 28,
+  };
+}
+
+/** Lower-case and drop whitespace and punctuation */
+export function normalizeSearchTerm(text: string): string {
+  return text.toLowerCase().replace(NON_WORD, "");
+}
+
+/** "아메리카노" -> "ㅇㅁㄹㅋㄴ"; non-Hangul characters are kept */
+export function getChoseong(text: string): string {
+  return Array.from(text, (char) => {
+    const syllable = decomposeSyllable(char);
+    return syllable ? LEADS[syllable.lead] : char;
+  }).join("");
+}
+
+/** "라떼" -> "ㄹㅏㄸㅔ"; compound letters are split into their parts */
+export function decomposeHangul(text: string): string {
+  return Array.from(text, (char) => {
+    const syllable = decomposeSyllable(char);
+    const jamo = syllable
+      ? `${LEADS[syllable.lead]}${VOWELS[syllable.vowel]}${TAILS[syllable.tail]}`
+      : char;
+    return Array.from(jamo, (letter) => COMPOUND_JAMO[letter] ?? letter).join(
+      ""
+    );
+  }).join("");
+}
+
+/** Syllable-by-syllable Revised Romanization: "아메리카노" -> "amerikano" */
+export function romanize(text: string): string {
+  return Array.from(text, (char) => {
+    const syllable = decomposeSyllable(char);
+    return syllable
+      ? `${ROMAN_LEADS[syllable.lead]}${ROMAN_VOWELS[syllable.vowel]}${ROMAN_TAILS[syllable.tail]}`
+      : char;
+  }).join("");
+}
+
+function suffixes(text: string): string[] {
+  const chars = Array.from(text);
+  return chars.map((_, index) => chars.slice(index).join(""));
+}
+
+function term(text: string): string {
+  return Array.from(text).slice(0, MAX_TERM_LENGTH).join("");
+}
+
+/**
+ * Terms stored in `products.searchText` for the search index.
+ */
+export function buildSearchText(product: {
+  category?: string;
+  description?: string;
+  name: string;
+  nameEn?: string;
+}): string {
+  const name = normalizeSearchTerm(product.name);
+  const words = new Set<string>();
+
+  for (const suffix of suffixes(name)) {
+    words.add(term(suffix));
+    words.add(term(decomposeHangul(suffix)));
+    words.add(term(getChoseong(suffix)));
+  }
+  words.add(term(romanize(name)));
+
+  if (product.nameEn) {
+    words.add(term(normalizeSearchTerm(product.nameEn)));
+  }
+
+  // Keep the original wording too: English words, category and description
+  // still match word by word
+  const text = [product.name, product.nameEn, product.category]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+    .replace(WHITESPACE, " ");
+
+  return [...words, text, product.description ?? ""].join(" ").trim();
+}
+
+/**
+ * Single search term for what the user typed. Initial consonants and
+ * half-typed syllables are matched through their jamo spellings.
+ */
+export function toSearchQuery(input: string): string {
+  const normalized = normalizeSearchTerm(input);
+  if (ONLY_LEADS.test(normalized)) {
+    return normalized;
+  }
+  if (COMPAT_JAMO.test(normalized)) {
+    return term(decomposeHangul(normalized));
+  }
+  return term(normalized);
+}
+
+function getMatchScore(
+  query: string,
+  product: { name: string; nameEn?: string }
+): number {
+  const name = normalizeSearchTerm(product.name);
+  const nameEn = normalizeSearchTerm(product.nameEn ?? "");
+
+  if (name === query || nameEn === query) {
+    return 0;
+  }
+  if (name.startsWith(query) || nameEn.startsWith(query)) {
+    return 1;
+  }
+  if (name.includes(query) || nameEn.includes(query)) {
+    return 2;
+  }
+  if (HAS_HANGUL.test(query)) {
+    if (getChoseong(name).includes(query)) {
+      return 3;
+    }
+    if (decomposeHangul(name).includes(decomposeHangul(query))) {
+      return 3;
+    }
+  } else if (romanize(name).includes(query)) {
+    return 3;
+  }
+  // Category or description hit
+  return 4;
+}
+
+/**
+ * Order search hits by how well the name matches; ties keep the search
+ * index's relevance order.
+ */
+export function rankSearchResults<T extends { name: string; nameEn?: string }>(
+  input: string,
+  products: T[]
+): T[] {
+  const query = normalizeSearchTerm(input);
+  return products
+    .map((product, index) => ({
+      product,
+      index,
+      score: getMatchScore(query, product),
+    }))
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .map(({ product }) => product);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { getLockedFieldConflicts, keepLockedFields } from "./lockedFields";
+
+const crawled = {
+  name: "아이스 아메리카노",
+  category: "Coffee",
+  price: 4700,
+  nutritions: { calories: 15 },
+  isActive: true,
+};
+
+describe("keepLockedFields", () => {
+  it("keeps the stored value of locked fields only", () => {
+    const stored = {
+      name: "아메리카노",
+      category: "Tea",
+      price: 4500,
+      nutritions: { calories: 10 },
+      isActive: false,
+      lockedFields: ["category" as const, "isActive" as const],
+    };
+
+    expect(keepLockedFields(crawled, stored)).toEqual({
+      ...crawled,
+      category: "Tea",
+      isActive: false,
+    });
+  });
+
+  it("keeps a locked field cleared when the stored value is missing", () => {
+    expect(keepLockedFields(crawled, { lockedFields: ["price"] })).toEqual({
+      ...crawled,
+      price: undefined,
+    });
+  });
+
+  it("returns the crawled values when nothing is locked", () => {
+    expect(keepLockedFields(crawled, { name: "다른 이름" })).toEqual(crawled);
+  });
+});
+
+describe("getLockedFieldConflicts", () => {
+  it("reports locked fields the crawler disagrees with", () => {
+    const stored = {
+      ...crawled,
+      price: 4500,
+      nutritions: { calories: 15 },
+      lockedFields: ["price" as const, "nutritions" as const],
+    };
+
+    expect(getLockedFieldConflicts(crawled, stored)).toEqual([
+      { field: "price", crawled: "4700", locked: "4500" },
+    ]);
+  });
+});
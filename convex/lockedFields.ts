@@ -0,0 +1,71 @@
+import { type Infer, v } from "convex/values";
+
+/**
+ * Product fields that can be corrected by hand in the admin catalog console.
+ * An edited field is added to `products.lockedFields`, and crawler uploads
+ * keep the stored value instead of the crawled one from then on.
+ */
+export const lockableFieldValidator = v.union(
+  v.literal("name"),
+  v.literal("category"),
+  v.literal("nutritions"),
+  v.literal("price"),
+  v.literal("isActive")
+);
+
+export type LockableField = Infer<typeof lockableFieldValidator>;
+
+type LockableValues = Partial<
+  Record<LockableField, string | number | boolean | object>
+>;
+
+/** Crawled values with every locked field replaced by the stored value */
+export function keepLockedFields<T extends LockableValues>(
+  crawled: T,
+  stored: LockableValues & { lockedFields?: LockableField[] }
+): T {
+  const result = { ...crawled };
+  for (const field of stored.lockedFields ?? []) {
+    Object.assign(result, { [field]: stored[field] });
+  }
+  return result;
+}
+
+export interface LockedFieldConflict {
+  crawled?: string;
+  field: LockableField;
+  locked?: string;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "object" && typeof b === "object" && a && b) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(
+      (key) =>
+        (a as Record<string, unknown>)[key] ===
+        (b as Record<string, unknown>)[key]
+    );
+  }
+  return a === b;
+}
+
+function formatValue(value: unknown): string | undefined {
+  if (value === undefined) {
+    return;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** Locked fields where the crawler found a different value */
+export function getLockedFieldConflicts(
+  crawled: LockableValues,
+  stored: LockableValues & { lockedFields?: LockableField[] }
+): LockedFieldConflict[] {
+  return (stored.lockedFields ?? [])
+    .filter((field) => !isSameValue(crawled[field], stored[field]))
+    .map((field) => ({
+      field,
+      crawled: formatValue(crawled[field]),
+      locked: formatValue(stored[field]),
+    }));
+}
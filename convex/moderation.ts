@@ -0,0 +1,305 @@
+import { type Infer, v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import {
+  type moderationActionValidator,
+  reportReasonValidator,
+} from "./moderationValidators";
+import { getCurrentUserOrThrow, requireRole } from "./users";
+
+type ModerationAction = Infer<typeof moderationActionValidator>;
+
+const MAX_DETAILS_LENGTH = 500;
+
+/** Remove all reports of a review that is about to be deleted */
+export async function deleteReviewReports(
+  ctx: MutationCtx,
+  reviewId: Id<"reviews">
+): Promise<void> {
+  const reports = await ctx.db
+    .query("reviewReports")
+    .withIndex("by_review_status", (q) => q.eq("reviewId", reviewId))
+    .collect();
+  for (const report of reports) {
+    await ctx.db.delete(report._id);
+  }
+}
+
+async function closeOpenReports(
+  ctx: MutationCtx,
+  reviewId: Id<"reviews">,
+  status: "resolved" | "dismissed",
+  moderatorId: Id<"users">,
+  now: number
+): Promise<void> {
+  const reports = await ctx.db
+    .query("reviewReports")
+    .withIndex("by_review_status", (q) =>
+      q.eq("reviewId", reviewId).eq("status", "open")
+    )
+    .collect();
+  for (const report of reports) {
+    await ctx.db.patch(report._id, {
+      status,
+      resolvedAt: now,
+      resolvedBy: moderatorId,
+    });
+  }
+}
+
+async function logModerationAction(
+  ctx: MutationCtx,
+  reviewId: Id<"reviews">,
+  moderatorId: Id<"users">,
+  action: ModerationAction,
+  note: string | undefined,
+  now: number
+): Promise<void> {
+  await ctx.db.insert("moderationLogs", {
+    reviewId,
+    moderatorId,
+    action,
+    note: note?.trim() || undefined,
+    createdAt: now,
+  });
+}
+
+/**
+ * Report a review. A user has at most one open report per review.
+ */
+export const reportReview = mutation({
+  args: {
+    reviewId: v.id("reviews"),
+    reason: reportReasonValidator,
+    details: v.optional(v.string()),
+  },
+  handler: async (ctx, { reviewId, reason, details }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const review = await ctx.db.get(reviewId);
+
+    if (!review || review.isVisible === false) {
+      throw new Error("Review not found");
+    }
+
+    if (review.userId === user._id) {
+      throw new Error("Cannot report your own review");
+    }
+
+    if (details && details.length > MAX_DETAILS_LENGTH) {
+      throw new Error(
+        `Details must be ${MAX_DETAILS_LENGTH} characters or fewer`
+      );
+    }
+
+    const openReports = await ctx.db
+      .query("reviewReports")
+      .withIndex("by_review_status", (q) =>
+        q.eq("reviewId", reviewId).eq("status", "open")
+      )
+      .collect();
+    const existing = openReports.find(
+      (report) => report.reporterId === user._id
+    );
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { reason, details });
+      return { reportId: existing._id, action: "updated" };
+    }
+
+    const reportId = await ctx.db.insert("reviewReports", {
+      reviewId,
+      reporterId: user._id,
+      reason,
+      details,
+      status: "open",
+      createdAt: Date.now(),
+    });
+    return { reportId, action: "created" };
+  },
+});
+
+/**
+ * Open reports grouped by review, most recently reported first (moderators only)
+ */
+export const getQueue = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, "moderator");
+
+    const reports = await ctx.db
+      .query("reviewReports")
+      .withIndex("by_status_created_at", (q) => q.eq("status", "open"))
+      .order("desc")
+      .collect();
+
+    const reportsByReview = new Map<Id<"reviews">, typeof reports>();
+    for (const report of reports) {
+      const group = reportsByReview.get(report.reviewId) ?? [];
+      group.push(report);
+      reportsByReview.set(report.reviewId, group);
+    }
+
+    const queue = await Promise.all(
+      [...reportsByReview].map(async ([reviewId, reviewReports]) => {
+        const review = await ctx.db.get(reviewId);
+        if (!review) {
+          return null;
+        }
+        const [product, author] = await Promise.all([
+          ctx.db.get(review.productId),
+          ctx.db.get(review.userId as Id<"users">),
+        ]);
+        return {
+          review,
+          productName: product?.name,
+          productShortId: product?.shortId,
+          authorName: author?.name,
+          reports: reviewReports.map(({ reason, details, createdAt }) => ({
+            reason,
+            details,
+            createdAt,
+          })),
+        };
+      })
+    );
+
+    return queue.filter((item) => item !== null);
+  },
+});
+
+/**
+ * Reviews hidden by moderators, so they can be restored (moderators only)
+ */
+export const getHiddenReviews = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, { limit = 50 }) => {
+    await requireRole(ctx, "moderator");
+
+    const reviews = await ctx.db
+      .query("reviews")
+      .withIndex("by_created_at")
+      .order("desc")
+      .filter((q) => q.eq(q.field("isVisible"), false))
+      .take(limit);
+
+    return await Promise.all(
+      reviews.map(async (review) => {
+        const [product, author] = await Promise.all([
+          ctx.db.get(review.productId),
+          ctx.db.get(review.userId as Id<"users">),
+        ]);
+        return {
+          review,
+          productName: product?.name,
+          productShortId: product?.shortId,
+          authorName: author?.name,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Recent moderator actions, newest first (moderators only)
+ */
+export const getAuditLog = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, { limit = 50 }) => {
+    await requireRole(ctx, "moderator");
+
+    const logs = await ctx.db
+      .query("moderationLogs")
+      .withIndex("by_created_at")
+      .order("desc")
+      .take(limit);
+
+    return await Promise.all(
+      logs.map(async (log) => {
+        const moderator = await ctx.db.get(log.moderatorId);
+        return { ...log, moderatorName: moderator?.name };
+      })
+    );
+  },
+});
+
+/**
+ * Hide a review from every public listing and close its open reports
+ * (moderators only)
+ */
+export const hideReview = mutation({
+  args: { reviewId: v.id("reviews"), note: v.optional(v.string()) },
+  handler: async (ctx, { reviewId, note }) => {
+    const moderator = await requireRole(ctx, "moderator");
+    const review = await ctx.db.get(reviewId);
+    if (!review) {
+      throw new Error("Review not found");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(reviewId, { isVisible: false });
+    await closeOpenReports(ctx, reviewId, "resolved", moderator._id, now);
+    await logModerationAction(ctx, reviewId, moderator._id, "hide", note, now);
+
+    // Hidden reviews no longer count towards the product's rating
+    await ctx.runMutation(internal.reviews.updateProductStats, {
+      productId: review.productId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Make a hidden review public again (moderators only)
+ */
+export const restoreReview = mutation({
+  args: { reviewId: v.id("reviews"), note: v.optional(v.string()) },
+  handler: async (ctx, { reviewId, note }) => {
+    const moderator = await requireRole(ctx, "moderator");
+    const review = await ctx.db.get(reviewId);
+    if (!review) {
+      throw new Error("Review not found");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(reviewId, { isVisible: true });
+    await logModerationAction(
+      ctx,
+      reviewId,
+      moderator._id,
+      "restore",
+      note,
+      now
+    );
+
+    await ctx.runMutation(internal.reviews.updateProductStats, {
+      productId: review.productId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Close a review's open reports without hiding it (moderators only)
+ */
+export const dismissReports = mutation({
+  args: { reviewId: v.id("reviews"), note: v.optional(v.string()) },
+  handler: async (ctx, { reviewId, note }) => {
+    const moderator = await requireRole(ctx, "moderator");
+
+    const now = Date.now();
+    await closeOpenReports(ctx, reviewId, "dismissed", moderator._id, now);
+    await logModerationAction(
+      ctx,
+      reviewId,
+      moderator._id,
+      "dismiss",
+      note,
+      now
+    );
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,26 @@
+import { type Infer, v } from "convex/values";
+
+/**
+ * Validators for review reports and the moderation audit trail, shared by the
+ * Convex schema and `convex/moderation.ts`.
+ */
+export const reportReasonValidator = v.union(
+  v.literal("spam"),
+  v.literal("offensive"),
+  v.literal("irrelevant"),
+  v.literal("other")
+);
+
+export type ReportReason = Infer<typeof reportReasonValidator>;
+
+export const reportStatusValidator = v.union(
+  v.literal("open"),
+  v.literal("resolved"), // The review was hidden
+  v.literal("dismissed")
+);
+
+export const moderationActionValidator = v.union(
+  v.literal("hide"),
+  v.literal("restore"),
+  v.literal("dismiss")
+);
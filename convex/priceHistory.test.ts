@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { hasRecentPriceIncrease } from "./priceHistory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 1);
+
+describe("hasRecentPriceIncrease", () => {
+  it("is false without any recorded change", () => {
+    expect(hasRecentPriceIncrease([], NOW)).toBe(false);
+    expect(
+      hasRecentPriceIncrease([{ price: 4500, recordedAt: NOW - DAY_MS }], NOW)
+    ).toBe(false);
+  });
+
+  it("flags an increase within the last 30 days", () => {
+    expect(
+      hasRecentPriceIncrease(
+        [
+          { price: 4500, recordedAt: NOW - 100 * DAY_MS },
+          { price: 4700, previousPrice: 4500, recordedAt: NOW - 10 * DAY_MS },
+        ],
+        NOW
+      )
+    ).toBe(true);
+  });
+
+  it("ignores increases older than 30 days", () => {
+    expect(
+      hasRecentPriceIncrease(
+        [{ price: 4700, previousPrice: 4500, recordedAt: NOW - 31 * DAY_MS }],
+        NOW
+      )
+    ).toBe(false);
+  });
+
+  it("only looks at the latest change", () => {
+    expect(
+      hasRecentPriceIncrease(
+        [
+          { price: 4700, previousPrice: 4500, recordedAt: NOW - 20 * DAY_MS },
+          { price: 4500, previousPrice: 4700, recordedAt: NOW - 5 * DAY_MS },
+        ],
+        NOW
+      )
+    ).toBe(false);
+  });
+});
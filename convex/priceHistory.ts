@@ -0,0 +1,75 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, query } from "./_generated/server";
+
+const RECENT_INCREASE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface PriceHistoryEntry {
+  previousPrice?: number;
+  price: number;
+  recordedAt: number;
+}
+
+/**
+ * True when the latest price change within the last 30 days raised the price.
+ * Entries must be sorted by `recordedAt` ascending.
+ */
+export function hasRecentPriceIncrease(
+  entries: PriceHistoryEntry[],
+  now: number
+): boolean {
+  const latest = entries.at(-1);
+  if (!latest || latest.previousPrice === undefined) {
+    return false;
+  }
+  return (
+    latest.price > latest.previousPrice &&
+    now - latest.recordedAt <= RECENT_INCREASE_WINDOW_MS
+  );
+}
+
+/**
+ * Append a point to a product's price timeline. Called by `upsertProduct`
+ * whenever a crawl reports a price different from the stored one.
+ */
+export async function recordPriceChange(
+  ctx: MutationCtx,
+  productId: Id<"products">,
+  previousPrice: number | undefined,
+  price: number | undefined,
+  now: number
+): Promise<void> {
+  if (price === undefined || price === previousPrice) {
+    return;
+  }
+
+  await ctx.db.insert("priceHistory", {
+    productId,
+    price,
+    previousPrice,
+    recordedAt: now,
+  });
+}
+
+/**
+ * Get a product's price timeline (oldest first)
+ */
+export const getByProduct = query({
+  args: { productId: v.id("products") },
+  handler: async (ctx, { productId }) => {
+    const entries = await ctx.db
+      .query("priceHistory")
+      .withIndex("by_product_recorded_at", (q) => q.eq("productId", productId))
+      .order("asc")
+      .collect();
+
+    return {
+      entries: entries.map(({ price, previousPrice, recordedAt }) => ({
+        price,
+        previousPrice,
+        recordedAt,
+      })),
+      hasRecentIncrease: hasRecentPriceIncrease(entries, Date.now()),
+    };
+  },
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffProductFields,
+  getMenuChangeKinds,
+  isFeedChange,
+} from "./productChanges";
+
+describe("diffProductFields", () => {
+  it("lists changed top-level and nutrition fields", () => {
+    expect(
+      diffProductFields(
+        { name: "바닐라 라떼", price: 5000, nutritions: { calories: 200 } },
+        { name: "바닐라 크림 라떼", price: 5000, nutritions: { calories: 240 } }
+      )
+    ).toEqual([
+      { field: "name", before: "바닐라 라떼", after: "바닐라 크림 라떼" },
+      { field: "nutritions.calories", before: 200, after: 240 },
+    ]);
+  });
+
+  it("is empty when nothing changed", () => {
+    const product = { name: "아메리카노", nutritions: { caffeine: 150 } };
+    expect(diffProductFields(product, { ...product })).toEqual([]);
+  });
+});
+
+describe("getMenuChangeKinds", () => {
+  it("maps lifecycle changes directly", () => {
+    expect(getMenuChangeKinds("created", [])).toEqual(["new"]);
+    expect(getMenuChangeKinds("removed", [])).toEqual(["discontinued"]);
+    expect(getMenuChangeKinds("reactivated", [])).toEqual(["returning"]);
+  });
+
+  it("flags renames and nutrition edits on updates", () => {
+    expect(
+      getMenuChangeKinds("updated", [
+        { field: "name", before: "A", after: "B" },
+        { field: "nutritions.sugar", before: 10, after: 12 },
+      ])
+    ).toEqual(["renamed", "nutrition"]);
+  });
+
+  it("keeps price-only updates out of the feed", () => {
+    expect(
+      getMenuChangeKinds("updated", [
+        { field: "price", before: 4500, after: 4700 },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("isFeedChange", () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const cafeCreatedAt = Date.UTC(2025, 0, 1);
+
+  it("keeps the bulk import after a cafe is added out of the feed", () => {
+    expect(
+      isFeedChange("created", [], cafeCreatedAt + 1000, cafeCreatedAt)
+    ).toBe(false);
+    expect(
+      isFeedChange("created", [], cafeCreatedAt + 2 * DAY_MS, cafeCreatedAt)
+    ).toBe(true);
+  });
+
+  it("needs a feed kind", () => {
+    expect(
+      isFeedChange(
+        "updated",
+        [{ field: "price", before: 4500, after: 4700 }],
+        cafeCreatedAt + 2 * DAY_MS,
+        cafeCreatedAt
+      )
+    ).toBe(false);
+    expect(
+      isFeedChange("removed", [], cafeCreatedAt + 1000, cafeCreatedAt)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,283 @@
+import { v } from "convex/values";
+import type { Nutritions } from "../shared/nutritions";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { authorizeAdminMutation } from "./adminAuth";
+import { nutritionsValidator } from "./nutritionsValidator";
+
+const NUTRITION_FIELDS = Object.keys(
+  nutritionsValidator.fields
+) as (keyof Nutritions)[];
+
+// Top-level product fields whose edits are kept in the change log
+const TRACKED_FIELDS = [
+  "name",
+  "category",
+  "description",
+  "price",
+  "externalImageUrl",
+] as const;
+
+// Bulk imports land within a day of the cafe being added; they are not news
+const BULK_IMPORT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const MAX_FEED_LIMIT = 100;
+
+export type ProductChangeType =
+  | "created"
+  | "updated"
+  | "removed"
+  | "reactivated";
+
+export type MenuChangeKind =
+  | "new"
+  | "discontinued"
+  | "returning"
+  | "renamed"
+  | "nutrition";
+
+export interface FieldChange {
+  after?: string | number;
+  before?: string | number;
+  field: string;
+}
+
+interface MenuChange {
+  _id: Id<"productChanges">;
+  cafeName: string;
+  cafeSlug: string;
+  changes: FieldChange[];
+  createdAt: number;
+  kinds: MenuChangeKind[];
+  productName: string;
+  productShortId: string;
+}
+
+type TrackedProduct = {
+  [K in (typeof TRACKED_FIELDS)[number]]?: string | number;
+} & { nutritions?: Nutritions };
+
+/**
+ * Field-level diff between a stored product and incoming crawl data.
+ * Nutrition fields are flattened as `nutritions.<field>`.
+ */
+export function diffProductFields(
+  before: TrackedProduct,
+  after: TrackedProduct
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+
+  for (const field of NUTRITION_FIELDS) {
+    const previous = before.nutritions?.[field];
+    const next = after.nutritions?.[field];
+    if (previous !== next) {
+      changes.push({
+        field: `nutritions.${field}`,
+        before: previous,
+        after: next,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * How a logged change shows up in the public menu feed. Updates that only
+ * touch price, image or description have no kind and stay out of the feed.
+ */
+export function getMenuChangeKinds(
+  type: ProductChangeType,
+  changes: FieldChange[]
+): MenuChangeKind[] {
+  switch (type) {
+    case "created":
+      return ["new"];
+    case "removed":
+      return ["discontinued"];
+    case "reactivated":
+      return ["returning"];
+    default: {
+      const kinds: MenuChangeKind[] = [];
+      if (changes.some((change) => change.field === "name")) {
+        kinds.push("renamed");
+      }
+      if (changes.some((change) => change.field.startsWith("nutritions."))) {
+        kinds.push("nutrition");
+      }
+      return kinds;
+    }
+  }
+}
+
+/**
+ * Whether a logged change shows up in the public menu feed: it has a feed kind
+ * and is not part of the bulk import that follows a cafe being added.
+ */
+export function isFeedChange(
+  type: ProductChangeType,
+  changes: FieldChange[],
+  createdAt: number,
+  cafeCreationTime: number
+): boolean {
+  if (getMenuChangeKinds(type, changes).length === 0) {
+    return false;
+  }
+  return !(
+    type === "created" && createdAt - cafeCreationTime < BULK_IMPORT_WINDOW_MS
+  );
+}
+
+/**
+ * Append an entry to the product change log. Called by `upsertProduct`,
+ * `markAsRemoved` and `updateDetails` for every write that alters a product.
+ */
+export async function recordProductChange(
+  ctx: MutationCtx,
+  product: { _id: Id<"products">; cafeId: Id<"cafes"> },
+  type: ProductChangeType,
+  changes: FieldChange[],
+  now: number
+): Promise<void> {
+  // A plain update with nothing user-visible (e.g. only the stored image id
+  // changed) is not worth an entry
+  if (type === "updated" && changes.length === 0) {
+    return;
+  }
+
+  const cafe = await ctx.db.get(product.cafeId);
+  await ctx.db.insert("productChanges", {
+    productId: product._id,
+    cafeId: product.cafeId,
+    type,
+    changes,
+    createdAt: now,
+    inFeed: cafe ? isFeedChange(type, changes, now, cafe._creationTime) : false,
+  });
+}
+
+/**
+ * Get a product's change log (newest first)
+ */
+export const getByProduct = query({
+  args: { productId: v.id("products") },
+  handler: async (ctx, { productId }) => {
+    return await ctx.db
+      .query("productChanges")
+      .withIndex("by_product_created_at", (q) => q.eq("productId", productId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Recent menu changes (new, discontinued, returning, renamed, nutrition
+ * edited), newest first, optionally scoped to one cafe. At most 100.
+ */
+export const getRecent = query({
+  args: {
+    cafeId: v.optional(v.id("cafes")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { cafeId, limit }) => {
+    const maxResults = Math.min(limit ?? MAX_FEED_LIMIT, MAX_FEED_LIMIT);
+
+    const changes = await (cafeId
+      ? ctx.db
+          .query("productChanges")
+          .withIndex("by_cafe_feed_created_at", (q) =>
+            q.eq("cafeId", cafeId).eq("inFeed", true)
+          )
+      : ctx.db
+          .query("productChanges")
+          .withIndex("by_feed_created_at", (q) => q.eq("inFeed", true))
+    )
+      .order("desc")
+      .take(maxResults);
+
+    const cafeCache = new Map<
+      Id<"cafes">,
+      { name: string; slug: string } | null
+    >();
+    const getCafe = async (id: Id<"cafes">) => {
+      if (!cafeCache.has(id)) {
+        const cafe = await ctx.db.get(id);
+        cafeCache.set(id, cafe ? { name: cafe.name, slug: cafe.slug } : null);
+      }
+      return cafeCache.get(id) ?? null;
+    };
+
+    const results: MenuChange[] = [];
+    for (const change of changes) {
+      const [cafe, product] = await Promise.all([
+        getCafe(change.cafeId),
+        ctx.db.get(change.productId),
+      ]);
+      if (!(cafe && product)) {
+        continue;
+      }
+
+      results.push({
+        _id: change._id,
+        kinds: getMenuChangeKinds(change.type, change.changes),
+        changes: change.changes,
+        createdAt: change.createdAt,
+        cafeName: cafe.name,
+        cafeSlug: cafe.slug,
+        productName: product.name,
+        productShortId: product.shortId,
+      });
+    }
+
+    return results;
+  },
+});
+
+/**
+ * Fill `inFeed` for change log entries written before the flag existed.
+ * Paginated: call again with the returned cursor until `isDone`.
+ */
+export const backfillFeedFlags = mutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { cursor, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "productChanges.backfillFeedFlags",
+    });
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("productChanges")
+      .paginate({ numItems: 200, cursor: cursor ?? null });
+
+    let updated = 0;
+    for (const change of page) {
+      if (change.inFeed !== undefined) {
+        continue;
+      }
+      const cafe = await ctx.db.get(change.cafeId);
+      await ctx.db.patch(change._id, {
+        inFeed: cafe
+          ? isFeedChange(
+              change.type,
+              change.changes,
+              change.createdAt,
+              cafe._creationTime
+            )
+          : false,
+      });
+      updated++;
+    }
+
+    return { updated, isDone, continueCursor };
+  },
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { matchesProductFilters, sortProducts } from "./productFilters";
+
+const americano = {
+  name: "아메리카노",
+  addedAt: 1,
+  price: 4500,
+  nutritions: { calories: 10, sugar: 0, caffeine: 150 },
+};
+const lemonade = {
+  name: "레몬에이드",
+  addedAt: 2,
+  price: 5500,
+  nutritions: { calories: 180, sugar: 40 },
+};
+const unknown = { name: "시즌 음료", addedAt: 3 };
+
+describe("matchesProductFilters", () => {
+  it("only keeps products with a known value under the limit", () => {
+    expect(matchesProductFilters(americano, { maxCalories: 100 })).toBe(true);
+    expect(matchesProductFilters(lemonade, { maxCalories: 100 })).toBe(false);
+    expect(matchesProductFilters(unknown, { maxCalories: 100 })).toBe(false);
+    expect(matchesProductFilters(lemonade, { maxSugar: 40 })).toBe(true);
+  });
+
+  it("only counts an explicit 0 or the tag as caffeine-free", () => {
+    const decaf = { ...americano, nutritions: { calories: 10, caffeine: 0 } };
+    const herbTea = { ...unknown, tags: ["caffeine-free" as const] };
+    expect(matchesProductFilters(decaf, { caffeineFree: true })).toBe(true);
+    expect(matchesProductFilters(herbTea, { caffeineFree: true })).toBe(true);
+    expect(matchesProductFilters(americano, { caffeineFree: true })).toBe(
+      false
+    );
+    // Calories but no caffeine value, as from crawlers that never read it
+    expect(matchesProductFilters(lemonade, { caffeineFree: true })).toBe(false);
+    expect(matchesProductFilters(unknown, { caffeineFree: true })).toBe(false);
+  });
+
+  it("filters out products without nutrition data", () => {
+    expect(matchesProductFilters(unknown, { hasNutrition: true })).toBe(false);
+    expect(matchesProductFilters(unknown, {})).toBe(true);
+  });
+
+  it("requires every selected tag, applying overrides", () => {
+    const oatLatte = {
+      addedAt: 4,
+      tags: ["contains-dairy" as const],
+      tagOverrides: {
+        added: ["vegan-option" as const],
+        removed: ["contains-dairy" as const],
+      },
+    };
+    expect(matchesProductFilters(oatLatte, { tags: ["vegan-option"] })).toBe(
+      true
+    );
+    expect(
+      matchesProductFilters(oatLatte, { tags: ["vegan-option", "decaf"] })
+    ).toBe(false);
+    expect(matchesProductFilters(oatLatte, { tags: ["contains-dairy"] })).toBe(
+      false
+    );
+  });
+});
+
+describe("sortProducts", () => {
+  const names = (products: { name: string }[]) => products.map((p) => p.name);
+
+  it("puts products without the sorted value last", () => {
+    expect(
+      names(sortProducts([unknown, lemonade, americano], "lowest-calories"))
+    ).toEqual(["아메리카노", "레몬에이드", "시즌 음료"]);
+    expect(
+      names(sortProducts([unknown, lemonade, americano], "most-caffeine"))
+    ).toEqual(["아메리카노", "시즌 음료", "레몬에이드"]);
+    expect(
+      names(sortProducts([unknown, lemonade, americano], "cheapest"))
+    ).toEqual(["아메리카노", "레몬에이드", "시즌 음료"]);
+  });
+
+  it("keeps the incoming order for relevance", () => {
+    expect(
+      names(sortProducts([unknown, lemonade, americano], "relevance"))
+    ).toEqual(["시즌 음료", "레몬에이드", "아메리카노"]);
+  });
+});
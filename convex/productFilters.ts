@@ -0,0 +1,167 @@
+import { type Infer, v } from "convex/values";
+import type { Nutritions } from "../shared/nutritions";
+import {
+  getProductTags,
+  type ProductTag,
+  productTagValidator,
+  type TagOverrides,
+} from "./productTags";
+
+/**
+ * Nutrition filters and sort orders shared by `products.getByCafe` and
+ * `products.search`. The cafe and search routes validate the same fields from
+ * URL search params and pass them straight through.
+ */
+export const productFilterFields = {
+  maxCalories: v.optional(v.number()),
+  maxSugar: v.optional(v.number()),
+  caffeineFree: v.optional(v.boolean()),
+  hasNutrition: v.optional(v.boolean()),
+  tags: v.optional(v.array(productTagValidator)),
+};
+
+export const productOrderValidator = v.union(
+  v.literal("relevance"),
+  v.literal("latest"),
+  v.literal("most-reviews"),
+  v.literal("highest-rating"),
+  v.literal("lowest-calories"),
+  v.literal("lowest-sugar"),
+  v.literal("most-caffeine"),
+  v.literal("cheapest")
+);
+
+export type ProductOrder = Infer<typeof productOrderValidator>;
+
+export interface ProductFilters {
+  caffeineFree?: boolean;
+  hasNutrition?: boolean;
+  maxCalories?: number;
+  maxSugar?: number;
+  tags?: ProductTag[];
+}
+
+interface FilterableProduct {
+  addedAt: number;
+  averageRating?: number;
+  nutritions?: Nutritions;
+  price?: number;
+  tagOverrides?: TagOverrides;
+  tags?: ProductTag[];
+  totalReviews?: number;
+}
+
+function hasNutritionData(nutritions?: Nutritions): boolean {
+  return (
+    nutritions?.calories !== undefined ||
+    nutritions?.sugar !== undefined ||
+    nutritions?.caffeine !== undefined
+  );
+}
+
+export function hasProductFilters(filters: ProductFilters): boolean {
+  return (
+    filters.maxCalories !== undefined ||
+    filters.maxSugar !== undefined ||
+    !!filters.caffeineFree ||
+    !!filters.hasNutrition ||
+    !!filters.tags?.length
+  );
+}
+
+/**
+ * Range filters only keep products whose value is known: a drink without
+ * calorie data is not "under 200kcal". Caffeine-free follows the tagger: an
+ * explicit 0 or the "caffeine-free" tag, since several crawlers never read
+ * caffeine and a missing value says nothing. Tag filters require every
+ * selected tag, with hand-made overrides applied.
+ */
+export function matchesProductFilters(
+  product: FilterableProduct,
+  filters: ProductFilters
+): boolean {
+  const { nutritions } = product;
+
+  if (filters.hasNutrition && !hasNutritionData(nutritions)) {
+    return false;
+  }
+  if (
+    filters.maxCalories !== undefined &&
+    !(
+      nutritions?.calories !== undefined &&
+      nutritions.calories <= filters.maxCalories
+    )
+  ) {
+    return false;
+  }
+  if (
+    filters.maxSugar !== undefined &&
+    !(nutritions?.sugar !== undefined && nutritions.sugar <= filters.maxSugar)
+  ) {
+    return false;
+  }
+  if (
+    filters.caffeineFree &&
+    !(
+      nutritions?.caffeine === 0 ||
+      getProductTags(product).includes("caffeine-free")
+    )
+  ) {
+    return false;
+  }
+  if (filters.tags?.length) {
+    const tags = getProductTags(product);
+    return filters.tags.every((tag) => tags.includes(tag));
+  }
+  return true;
+}
+
+// Products missing the sorted value go last, keeping their current order
+function compareKnownFirst(
+  a: number | undefined,
+  b: number | undefined,
+  direction: 1 | -1
+): number {
+  if (a === undefined || b === undefined) {
+    return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+  }
+  return (a - b) * direction;
+}
+
+/**
+ * Sort a product list in place. "relevance" keeps the incoming order, which
+ * is the search rank for `products.search`.
+ */
+export function sortProducts<T extends FilterableProduct>(
+  products: T[],
+  order: ProductOrder | undefined
+): T[] {
+  switch (order) {
+    case "latest":
+      return products.sort((a, b) => b.addedAt - a.addedAt);
+    case "most-reviews":
+      return products.sort(
+        (a, b) => (b.totalReviews ?? 0) - (a.totalReviews ?? 0)
+      );
+    case "highest-rating":
+      return products.sort(
+        (a, b) => (b.averageRating ?? 0) - (a.averageRating ?? 0)
+      );
+    case "lowest-calories":
+      return products.sort((a, b) =>
+        compareKnownFirst(a.nutritions?.calories, b.nutritions?.calories, 1)
+      );
+    case "lowest-sugar":
+      return products.sort((a, b) =>
+        compareKnownFirst(a.nutritions?.sugar, b.nutritions?.sugar, 1)
+      );
+    case "most-caffeine":
+      return products.sort((a, b) =>
+        compareKnownFirst(a.nutritions?.caffeine, b.nutritions?.caffeine, -1)
+      );
+    case "cheapest":
+      return products.sort((a, b) => compareKnownFirst(a.price, b.price, 1));
+    default:
+      return products;
+  }
+}
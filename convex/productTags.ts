@@ -0,0 +1,74 @@
+import { type Infer, v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { authorizeAdminMutation } from "./adminAuth";
+
+/**
+ * Dietary and availability tags. `products.tags` holds the tags derived by the
+ * categorizer rules (`actors/categorizer/tagger.ts`) on every crawl, while
+ * `products.tagOverrides` holds hand-made corrections that survive re-crawls.
+ * Readers should go through `getProductTags` to see both.
+ */
+export const productTagValidator = v.union(
+  v.literal("decaf"),
+  v.literal("caffeine-free"),
+  v.literal("contains-dairy"),
+  v.literal("vegan-option"),
+  v.literal("seasonal"),
+  v.literal("limited"),
+  v.literal("sugar-free")
+);
+
+export type ProductTag = Infer<typeof productTagValidator>;
+
+export const tagOverridesValidator = v.object({
+  added: v.array(productTagValidator),
+  removed: v.array(productTagValidator),
+});
+
+export type TagOverrides = Infer<typeof tagOverridesValidator>;
+
+/** Derived tags with hand-made overrides applied */
+export function getProductTags(product: {
+  tagOverrides?: TagOverrides;
+  tags?: ProductTag[];
+}): ProductTag[] {
+  const { added = [], removed = [] } = product.tagOverrides ?? {};
+  const tags = new Set([...(product.tags ?? []), ...added]);
+  for (const tag of removed) {
+    tags.delete(tag);
+  }
+  return [...tags];
+}
+
+/**
+ * Override a product's derived tags by hand. Passing empty lists clears the
+ * override.
+ */
+export const setTagOverrides = mutation({
+  args: {
+    productId: v.id("products"),
+    added: v.array(productTagValidator),
+    removed: v.array(productTagValidator),
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { productId, added, removed, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "productTags.setTagOverrides",
+      details: productId,
+    });
+
+    const product = await ctx.db.get(productId);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    await ctx.db.patch(productId, {
+      tagOverrides:
+        added.length || removed.length ? { added, removed } : undefined,
+    });
+
+    return getProductTags({ ...product, tagOverrides: { added, removed } });
+  },
+});
@@ -0,0 +1,20 @@
+import { type Infer, v } from "convex/values";
+import { nutritionsValidator } from "./nutritionsValidator";
+
+/**
+ * One size of a product (e.g. Tall/Grande/Venti, Regular/Large).
+ *
+ * Reused by the Convex schema (`convex/schema.ts`), the `upsertProduct`
+ * mutation args (`convex/products.ts`), and the shared `ProductVariant`
+ * TypeScript type (`shared/variants.ts`). The product's own `price` and
+ * `nutritions` stay as the default size so existing readers keep working.
+ */
+export const productVariantValidator = v.object({
+  size: v.string(), // Label as shown by the cafe, e.g. "Tall", "Large"
+  volume: v.optional(v.number()),
+  volumeUnit: v.optional(v.string()),
+  price: v.optional(v.number()),
+  nutritions: v.optional(nutritionsValidator),
+});
+
+export type ProductVariant = Infer<typeof productVariantValidator>;
@@ -1,16 +1,67 @@
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import type { Nutritions } from "../shared/nutritions";
-import { api } from "./_generated/api";
-import type { Id } from "./_generated/dataModel";
+import { api, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
 import {
+  internalMutation,
   type MutationCtx,
   mutation,
   type QueryCtx,
   query,
 } from "./_generated/server";
+import { authorizeAdmin, authorizeAdminMutation } from "./adminAuth";
+import { deleteProductBookmarks } from "./bookmarks";
+import {
+  buildSearchText,
+  rankSearchResults,
+  toSearchQuery,
+} from "./koreanSearch";
+import {
+  getLockedFieldConflicts,
+  keepLockedFields,
+  type LockableField,
+  type LockedFieldConflict,
+  lockableFieldValidator,
+} from "./lockedFields";
+import { deleteReviewReports } from "./moderation";
 import { nutritionsValidator } from "./nutritionsValidator";
+import { recordPriceChange } from "./priceHistory";
+import {
+  diffProductFields,
+  type ProductChangeType,
+  recordProductChange,
+} from "./productChanges";
+import {
+  hasProductFilters,
+  matchesProductFilters,
+  productFilterFields,
+  productOrderValidator,
+  sortProducts,
+} from "./productFilters";
 import { normalizeProductName } from "./productMatching";
-import { verifyUploadSecret } from "./uploadSecret";
+import {
+  getProductTags,
+  type ProductTag,
+  productTagValidator,
+} from "./productTags";
+import {
+  type ProductVariant,
+  productVariantValidator,
+} from "./productVariantValidator";
+import {
+  exceedsRemovalThreshold,
+  formatRemovalThreshold,
+  isRemovalConfirmed,
+  recordMissedCrawl,
+  resolveRemovalThreshold,
+} from "./removalGuard";
+import { deleteReviewReactions } from "./reviewReactions";
+
+// Search hits fetched before re-ranking by name match
+const SEARCH_CANDIDATES = 200;
+// Rows shown in the admin catalog table
+const ADMIN_PAGE_SIZE = 50;
 
 // Field names derived from the validator so changes stay in one place.
 const NUTRITION_FIELDS = Object.keys(
@@ -28,14 +79,20 @@ async function resolveImageUrl(
 }
 
 export const getByCafe = query({
-  args: { cafeId: v.id("cafes") },
-  handler: async (ctx, { cafeId }) => {
-    const products = await ctx.db
-      .query("products")
-      .withIndex("by_cafe_active", (q) =>
-        q.eq("cafeId", cafeId).eq("isActive", true)
-      )
-      .collect();
+  args: {
+    cafeId: v.id("cafes"),
+    ...productFilterFields,
+    order: v.optional(productOrderValidator),
+  },
+  handler: async (ctx, { cafeId, order, ...filters }) => {
+    const products = (
+      await ctx.db
+        .query("products")
+        .withIndex("by_cafe_active", (q) =>
+          q.eq("cafeId", cafeId).eq("isActive", true)
+        )
+        .collect()
+    ).filter((product) => matchesProductFilters(product, filters));
 
     const productsWithImages = await Promise.all(
       products.map(async (product) => ({
@@ -50,7 +107,7 @@ export const getByCafe = query({
     };
 
     // Sort products by date (newest first), then by time (oldest first) within same date
-    return productsWithImages.sort((a, b) => {
+    productsWithImages.sort((a, b) => {
       const aAddedAtDateStamp = convertTimestampToDate(a.addedAt);
       const bAddedAtDateStamp = convertTimestampToDate(b.addedAt);
 
@@ -60,35 +117,75 @@ export const getByCafe = query({
 
       return bAddedAtDateStamp - aAddedAtDateStamp;
     });
+
+    // Other orders are stable sorts on top, so ties stay newest first
+    return order === "latest"
+      ? productsWithImages
+      : sortProducts(productsWithImages, order);
   },
 });
 
+async function searchActiveProducts(
+  ctx: QueryCtx,
+  searchTerm: string,
+  cafeId?: Id<"cafes">
+) {
+  const query = toSearchQuery(searchTerm);
+  if (!query) {
+    return [];
+  }
+
+  const hits = await ctx.db
+    .query("products")
+    .withSearchIndex("search_text", (q) => {
+      const search = q.search("searchText", query).eq("isActive", true);
+      return cafeId ? search.eq("cafeId", cafeId) : search;
+    })
+    .take(SEARCH_CANDIDATES);
+
+  return rankSearchResults(searchTerm, hits);
+}
+
 export const search = query({
   args: {
     searchTerm: v.optional(v.string()),
     cafeId: v.optional(v.id("cafes")),
     category: v.optional(v.string()),
+    ...productFilterFields,
+    order: v.optional(productOrderValidator),
     limit: v.optional(v.number()),
   },
-  handler: async (ctx, { searchTerm, cafeId, category, limit = 50 }) => {
+  handler: async (
+    ctx,
+    { searchTerm, cafeId, category, order, limit = 50, ...filters }
+  ) => {
     // Return empty array if no search criteria provided
-    if (!(searchTerm?.trim() || cafeId || category)) {
+    if (
+      !(searchTerm?.trim() || cafeId || category || hasProductFilters(filters))
+    ) {
       return [];
     }
 
-    // Filter by cafe if specified. Both branches read only active products
-    // straight from an index instead of scanning the whole table.
-    let products = cafeId
-      ? await ctx.db
-          .query("products")
-          .withIndex("by_cafe_active", (q) =>
-            q.eq("cafeId", cafeId).eq("isActive", true)
-          )
-          .collect()
-      : await ctx.db
-          .query("products")
-          .withIndex("by_is_active_added_at", (q) => q.eq("isActive", true))
-          .collect();
+    let products: Doc<"products">[];
+    if (searchTerm?.trim()) {
+      // Already ranked by how well the name matches
+      products = await searchActiveProducts(ctx, searchTerm, cafeId);
+    } else {
+      // Filter by cafe if specified. Both branches read only active products
+      // straight from an index instead of scanning the whole table.
+      products = cafeId
+        ? await ctx.db
+            .query("products")
+            .withIndex("by_cafe_active", (q) =>
+              q.eq("cafeId", cafeId).eq("isActive", true)
+            )
+            .collect()
+        : await ctx.db
+            .query("products")
+            .withIndex("by_is_active_added_at", (q) => q.eq("isActive", true))
+            .collect();
+      products.sort((a, b) => a.name.localeCompare(b.name));
+    }
 
     // Filter by category if specified
     if (category) {
@@ -97,17 +194,14 @@ export const search = query({
       );
     }
 
-    // Filter by search term if specified
-    if (searchTerm?.trim()) {
-      const term = searchTerm.toLowerCase().replace(/\s+/g, "");
-      products = products.filter((p) =>
-        p.name.toLowerCase().replace(/\s+/g, "").includes(term)
-      );
-    }
+    products = sortProducts(
+      products.filter((p) => matchesProductFilters(p, filters)),
+      order
+    );
 
     // Get cafe information for each product
-    const productWithCafes = await Promise.all(
-      products.map(async (product) => {
+    return await Promise.all(
+      products.slice(0, limit).map(async (product) => {
         const cafe = await ctx.db.get(product.cafeId);
         return {
           ...product,
@@ -116,11 +210,6 @@ export const search = query({
         };
       })
     );
-
-    // Sort by name and limit results
-    return productWithCafes
-      .sort((a, b) => a.name.localeCompare(b.name))
-      .slice(0, limit);
   },
 });
 
@@ -134,33 +223,24 @@ export const getSuggestions = query({
       return [];
     }
 
-    // Read only active products from the index instead of scanning every
-    // product (including removed ones) on each keystroke.
-    const products = await ctx.db
-      .query("products")
-      .withIndex("by_is_active_added_at", (q) => q.eq("isActive", true))
-      .collect();
-    const term = searchTerm.toLowerCase().replace(/\s+/g, "");
+    const products = await searchActiveProducts(ctx, searchTerm);
 
-    // Search in name/nameEn
-    const matches = products
-      .filter(
-        (p) =>
-          p.name.toLowerCase().replace(/\s+/g, "").includes(term) ||
-          p.nameEn?.toLowerCase().replace(/\s+/g, "").includes(term)
-      )
-      .map((p) => ({
-        id: p._id,
-        name: p.name,
-        nameEn: p.nameEn,
-        shortId: p.shortId,
-      }))
-      .slice(0, limit);
-
-    return matches;
+    return products.slice(0, limit).map((p) => ({
+      id: p._id,
+      name: p.name,
+      nameEn: p.nameEn,
+      shortId: p.shortId,
+    }));
   },
 });
 
+interface UpsertResult {
+  action: string;
+  id: string;
+  // Locked fields the crawled data disagrees with, see lockedFields.ts
+  lockedConflicts?: LockedFieldConflict[];
+}
+
 interface UpsertProductArgs {
   cafeId: Id<"cafes">;
   category?: string;
@@ -175,6 +255,8 @@ interface UpsertProductArgs {
   nameEn?: string;
   nutritions?: Nutritions;
   price?: number;
+  tags?: ProductTag[];
+  variants?: ProductVariant[];
 }
 
 interface ExistingProduct {
@@ -184,10 +266,13 @@ interface ExistingProduct {
   externalImageUrl?: string;
   imageStorageId?: Id<"_storage">;
   isActive?: boolean;
+  lockedFields?: LockableField[];
   name: string;
   nutritions?: Nutritions;
   price?: number;
   removedAt?: number;
+  tags?: ProductTag[];
+  variants?: ProductVariant[];
 }
 
 function hasNutritionChanges(
@@ -206,6 +291,36 @@ function hasNutritionChanges(
   return NUTRITION_FIELDS.some((field) => existing[field] !== args[field]);
 }
 
+function hasVariantChanges(
+  existing?: ProductVariant[],
+  args?: ProductVariant[]
+): boolean {
+  const before = existing ?? [];
+  const after = args ?? [];
+  if (before.length !== after.length) {
+    return true;
+  }
+  // Variants keep the order the cafe lists them in, so compare pairwise.
+  return before.some((variant, index) => {
+    const next = after[index];
+    return (
+      variant.size !== next.size ||
+      variant.volume !== next.volume ||
+      variant.volumeUnit !== next.volumeUnit ||
+      variant.price !== next.price ||
+      hasNutritionChanges(variant.nutritions, next.nutritions)
+    );
+  });
+}
+
+function hasTagChanges(existing?: ProductTag[], args?: ProductTag[]): boolean {
+  const before = new Set(existing);
+  const after = new Set(args);
+  return (
+    before.size !== after.size || [...before].some((tag) => !after.has(tag))
+  );
+}
+
 function hasProductChanges(
   existing: ExistingProduct,
   args: UpsertProductArgs
@@ -221,12 +336,28 @@ function hasProductChanges(
     existing.externalImageUrl !== args.externalImageUrl ||
     existing.imageStorageId !== args.imageStorageId ||
     hasNutritionChanges(existing.nutritions, args.nutritions) ||
+    hasVariantChanges(existing.variants, args.variants) ||
+    hasTagChanges(existing.tags, args.tags) ||
     wasActive !== willBeActive ||
     // If becoming active and had removedAt, that's a change
     (willBeActive && existing.removedAt !== undefined)
   );
 }
 
+function getChangeType(
+  existing: ExistingProduct,
+  isNowActive: boolean
+): ProductChangeType {
+  const wasActive = existing.isActive ?? true;
+  if (isNowActive && (!wasActive || existing.removedAt !== undefined)) {
+    return "reactivated";
+  }
+  if (!isNowActive && wasActive) {
+    return "removed";
+  }
+  return "updated";
+}
+
 function scheduleImageDownloadIfNeeded(
   ctx: MutationCtx,
   args: UpsertProductArgs,
@@ -239,26 +370,36 @@ function scheduleImageDownloadIfNeeded(
     args.externalImageUrl &&
     !args.imageStorageId
   ) {
-    ctx.scheduler.runAfter(0, api.imageDownloader.downloadAndStoreImageAction, {
-      imageUrl: args.externalImageUrl,
-      productId,
-      uploadSecret: process.env.CONVEX_UPLOAD_SECRET,
-    });
+    ctx.scheduler.runAfter(
+      0,
+      internal.imageDownloader.downloadAndStoreImageAction,
+      {
+        imageUrl: args.externalImageUrl,
+        productId,
+      }
+    );
   }
 }
 
 async function handleExistingProduct(
   ctx: MutationCtx,
-  args: UpsertProductArgs,
+  crawled: UpsertProductArgs,
   existing: ExistingProduct,
   now: number
-): Promise<{ action: string; id: string }> {
+): Promise<UpsertResult> {
+  const args = keepLockedFields(crawled, existing);
+  const conflicts = getLockedFieldConflicts(
+    { ...crawled, isActive: crawled.isActive ?? true },
+    existing
+  );
+  const lockedConflicts = conflicts.length > 0 ? conflicts : undefined;
   const hasChanges = hasProductChanges(existing, args);
 
   if (hasChanges) {
     const isNowActive = args.isActive ?? true;
     const updateData = {
       ...args,
+      searchText: buildSearchText(args),
       updatedAt: now,
       isActive: isNowActive,
       removedAt: isNowActive ? undefined : (existing.removedAt ?? now),
@@ -267,14 +408,22 @@ async function handleExistingProduct(
     const { downloadImages: _downloadImages, ...dataToStore } = updateData;
 
     await ctx.db.patch(existing._id, dataToStore);
+    await recordPriceChange(ctx, existing._id, existing.price, args.price, now);
+    await recordProductChange(
+      ctx,
+      { _id: existing._id, cafeId: args.cafeId },
+      getChangeType(existing, isNowActive),
+      diffProductFields(existing, args),
+      now
+    );
 
     const shouldDownloadImage = !existing.imageStorageId;
     scheduleImageDownloadIfNeeded(ctx, args, existing._id, shouldDownloadImage);
 
-    return { action: "updated", id: existing._id };
+    return { action: "updated", id: existing._id, lockedConflicts };
   }
 
-  return { action: "unchanged", id: existing._id };
+  return { action: "unchanged", id: existing._id, lockedConflicts };
 }
 
 /**
@@ -309,7 +458,7 @@ async function createNewProduct(
   ctx: MutationCtx,
   args: UpsertProductArgs,
   now: number
-): Promise<{ action: string; id: string }> {
+): Promise<UpsertResult> {
   const shortId: string = await ctx.runMutation(
     api.shortId.generateShortId,
     {}
@@ -317,6 +466,7 @@ async function createNewProduct(
 
   const insertData = {
     ...args,
+    searchText: buildSearchText(args),
     addedAt: now,
     updatedAt: now,
     isActive: args.isActive ?? true,
@@ -326,13 +476,21 @@ async function createNewProduct(
   const { downloadImages: _downloadImages, ...dataToStore } = insertData;
 
   const id = await ctx.db.insert("products", dataToStore);
+  await recordPriceChange(ctx, id, undefined, args.price, now);
+  await recordProductChange(
+    ctx,
+    { _id: id, cafeId: args.cafeId },
+    "created",
+    diffProductFields({}, args),
+    now
+  );
 
   scheduleImageDownloadIfNeeded(ctx, args, id, true);
 
   return { action: "created", id };
 }
 
-export const upsertProduct = mutation({
+export const upsertProduct = internalMutation({
   args: {
     cafeId: v.id("cafes"),
     name: v.string(),
@@ -346,10 +504,12 @@ export const upsertProduct = mutation({
     externalUrl: v.string(),
     price: v.optional(v.number()),
     nutritions: v.optional(nutritionsValidator),
+    variants: v.optional(v.array(productVariantValidator)),
+    tags: v.optional(v.array(productTagValidator)),
     downloadImages: v.optional(v.boolean()),
     isActive: v.optional(v.boolean()), // Default to true if not specified
   },
-  handler: async (ctx, args): Promise<{ action: string; id: string }> => {
+  handler: async (ctx, args): Promise<UpsertResult> => {
     const now = Date.now();
 
     const existing = await ctx.db
@@ -373,67 +533,96 @@ export const upsertProduct = mutation({
   },
 });
 
-export const getRecent = query({
-  args: {
-    limit: v.optional(v.number()),
-    offset: v.optional(v.number()),
-  },
-  handler: async (ctx, { limit, offset }) => {
-    const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
-    const oneDayMs = 24 * 60 * 60 * 1000;
+const RECENT_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
-    const products = await ctx.db
-      .query("products")
-      .withIndex("by_is_active_added_at", (q) =>
-        q.eq("isActive", true).gte("addedAt", thirtyDaysAgo)
-      )
-      .collect();
-
-    // Cache cafe lookups to avoid redundant queries
-    const cafeCache = new Map<string, { name: string; creationTime: number }>();
-    const getCafe = async (cafeId: Id<"cafes">) => {
-      const cached = cafeCache.get(cafeId);
-      if (cached) {
-        return cached;
-      }
-      const cafe = await ctx.db.get(cafeId);
-      const result = {
-        name: cafe?.name || "",
-        creationTime: cafe?._creationTime ?? 0,
-      };
-      cafeCache.set(cafeId, result);
-      return result;
+// Cafe names and creation times, cached across the products of one query
+function createCafeLookup(ctx: QueryCtx) {
+  const cafeCache = new Map<string, { name: string; creationTime: number }>();
+  return async (cafeId: Id<"cafes">) => {
+    const cached = cafeCache.get(cafeId);
+    if (cached) {
+      return cached;
+    }
+    const cafe = await ctx.db.get(cafeId);
+    const result = {
+      name: cafe?.name || "",
+      creationTime: cafe?._creationTime ?? 0,
     };
+    cafeCache.set(cafeId, result);
+    return result;
+  };
+}
 
-    // Exclude bulk-imported products (added within 24h of cafe creation)
-    const filtered: typeof products = [];
-    for (const product of products) {
-      const cafe = await getCafe(product.cafeId);
-      if (product.addedAt - cafe.creationTime >= oneDayMs) {
-        filtered.push(product);
-      }
-    }
+// Recently added products, newest first
+function queryRecentProducts(ctx: QueryCtx) {
+  return ctx.db
+    .query("products")
+    .withIndex("by_is_active_added_at", (q) =>
+      q.eq("isActive", true).gte("addedAt", Date.now() - RECENT_PERIOD_MS)
+    )
+    .order("desc");
+}
 
-    // Sort by addedAt descending (newest first)
-    filtered.sort((a, b) => b.addedAt - a.addedAt);
+// Drop bulk-imported products (added within 24h of cafe creation) and add
+// cafe names and image URLs
+async function toNewProducts(
+  ctx: QueryCtx,
+  getCafe: ReturnType<typeof createCafeLookup>,
+  products: Doc<"products">[]
+) {
+  const newProducts: Doc<"products">[] = [];
+  for (const product of products) {
+    const cafe = await getCafe(product.cafeId);
+    if (product.addedAt - cafe.creationTime >= ONE_DAY_MS) {
+      newProducts.push(product);
+    }
+  }
 
-    const start = offset ?? 0;
-    const limited = limit
-      ? filtered.slice(start, start + limit)
-      : filtered.slice(start);
+  return await Promise.all(
+    newProducts.map(async (product) => {
+      const cafe = await getCafe(product.cafeId);
+      return {
+        ...product,
+        cafeName: cafe.name,
+        imageUrl: await resolveImageUrl(ctx, product.imageStorageId),
+      };
+    })
+  );
+}
 
-    const productsWithCafes = await Promise.all(
-      limited.map(async (product) => {
-        const cafe = await getCafe(product.cafeId);
-        return {
-          ...product,
-          cafeName: cafe.name,
-          imageUrl: await resolveImageUrl(ctx, product.imageStorageId),
-        };
-      })
+/**
+ * Count of products added in the last 30 days, and the newest `limit` of them
+ */
+export const getRecent = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { limit }) => {
+    const getCafe = createCafeLookup(ctx);
+    const products = await toNewProducts(
+      ctx,
+      getCafe,
+      await queryRecentProducts(ctx).collect()
     );
 
-    return { products: productsWithCafes, totalCount: filtered.length };
+    return {
+      products: limit ? products.slice(0, limit) : products,
+      totalCount: products.length,
+    };
+  },
+});
+
+/**
+ * Get a page of products added in the last 30 days, newest first. Pages can
+ * come out short, since bulk imports are dropped after paginating.
+ */
+export const getRecentPaginated = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, { paginationOpts }) => {
+    const result = await queryRecentProducts(ctx).paginate(paginationOpts);
+    const page = await toNewProducts(ctx, createCafeLookup(ctx), result.page);
+    return { ...result, page };
   },
 });
 
@@ -528,70 +717,287 @@ export const getByShortId = query({
 
     return {
       ...product,
+      tags: getProductTags(product),
       imageUrl,
     };
   },
 });
 
+/**
+ * Get several products by shortId for side-by-side comparison, in the order
+ * given. Unknown shortIds are skipped.
+ */
+export const getByShortIds = query({
+  args: { shortIds: v.array(v.string()) },
+  handler: async (ctx, { shortIds }) => {
+    const products = await Promise.all(
+      shortIds.map(async (shortId) => {
+        const product = await ctx.db
+          .query("products")
+          .withIndex("by_short_id", (q) => q.eq("shortId", shortId))
+          .first();
+        if (!product) {
+          return null;
+        }
+
+        const cafe = await ctx.db.get(product.cafeId);
+        return {
+          ...product,
+          cafeName: cafe?.name ?? "",
+          imageUrl: await resolveImageUrl(ctx, product.imageStorageId),
+        };
+      })
+    );
+
+    return products.filter((product) => product !== null);
+  },
+});
+
+async function replaceProductImage(
+  ctx: MutationCtx,
+  productId: Id<"products">,
+  storageId: Id<"_storage">
+) {
+  // Get the current product to check for existing image
+  const product = await ctx.db.get(productId);
+  if (!product) {
+    throw new Error(`Product ${productId} not found`);
+  }
+
+  const oldImageStorageId = product.imageStorageId;
+  const now = Date.now();
+
+  // Update product with new image
+  await ctx.db.patch(productId, {
+    imageStorageId: storageId,
+    updatedAt: now,
+  });
+
+  // Clean up old image if it exists and is different from new one
+  if (oldImageStorageId && oldImageStorageId !== storageId) {
+    try {
+      await ctx.storage.delete(oldImageStorageId);
+    } catch (_error) {
+      // Old image cleanup is not critical - don't fail the update
+    }
+  }
+
+  return { success: true, oldImageCleaned: !!oldImageStorageId };
+}
+
 export const updateImage = mutation({
   args: {
     productId: v.id("products"),
     storageId: v.id("_storage"),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { productId, storageId, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { productId, storageId, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "products.updateImage",
+      details: productId,
+    });
+
+    return await replaceProductImage(ctx, productId, storageId);
+  },
+});
+
+// Called by the image downloader scheduled from upsertProduct
+export const setDownloadedImage = internalMutation({
+  args: {
+    productId: v.id("products"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, { productId, storageId }) =>
+    await replaceProductImage(ctx, productId, storageId),
+});
+
+export const getAllWithImages = query({
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
+
+    const products = await ctx.db
+      .query("products")
+      .filter((q) => q.neq(q.field("imageStorageId"), undefined))
+      .collect();
+
+    // Sort by updatedAt (latest first) to prioritize recent uploads
+    return products.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+/**
+ * Products for the admin catalog table, inactive ones included. Matches the
+ * search term by name like the public search, otherwise lists the most
+ * recently updated products.
+ */
+export const getForAdmin = query({
+  args: {
+    searchTerm: v.optional(v.string()),
+    cafeId: v.optional(v.id("cafes")),
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { searchTerm, cafeId, apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "catalog" });
+
+    const query = toSearchQuery(searchTerm ?? "");
+    let products: Doc<"products">[];
+    if (query) {
+      const hits = await ctx.db
+        .query("products")
+        .withSearchIndex("search_text", (q) => {
+          const search = q.search("searchText", query);
+          return cafeId ? search.eq("cafeId", cafeId) : search;
+        })
+        .take(ADMIN_PAGE_SIZE);
+      products = rankSearchResults(searchTerm ?? "", hits);
+    } else if (cafeId) {
+      products = await ctx.db
+        .query("products")
+        .withIndex("by_cafe_updated_at", (q) => q.eq("cafeId", cafeId))
+        .order("desc")
+        .take(ADMIN_PAGE_SIZE);
+    } else {
+      products = await ctx.db
+        .query("products")
+        .withIndex("by_updated_at")
+        .order("desc")
+        .take(ADMIN_PAGE_SIZE);
+    }
+
+    return await Promise.all(
+      products.map(async (product) => {
+        const cafe = await ctx.db.get(product.cafeId);
+        return {
+          ...product,
+          cafeName: cafe?.name || "",
+          imageUrl: await resolveImageUrl(ctx, product.imageStorageId),
+        };
+      })
+    );
+  },
+});
+
+function getRemovedAt(
+  product: Doc<"products">,
+  isActive: boolean | undefined,
+  now: number
+) {
+  if (isActive === undefined) {
+    return product.removedAt;
+  }
+  return isActive ? undefined : (product.removedAt ?? now);
+}
+
+/**
+ * Hand-correct a product from the admin catalog console. Every edited field
+ * is locked so the next crawler upload keeps the corrected value.
+ */
+export const updateDetails = mutation({
+  args: {
+    productId: v.id("products"),
+    name: v.optional(v.string()),
+    category: v.optional(v.string()),
+    nutritions: v.optional(nutritionsValidator),
+    price: v.optional(v.number()),
+    isActive: v.optional(v.boolean()),
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { productId, apiToken, ...edits }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "products.updateDetails",
+      details: productId,
+    });
 
-    // Get the current product to check for existing image
     const product = await ctx.db.get(productId);
     if (!product) {
       throw new Error(`Product ${productId} not found`);
     }
 
-    const oldImageStorageId = product.imageStorageId;
-    const now = Date.now();
+    const editedFields = (Object.keys(edits) as LockableField[]).filter(
+      (field) => edits[field] !== undefined
+    );
+    if (editedFields.length === 0) {
+      return { success: true };
+    }
 
-    // Update product with new image
+    const updated = { ...product, ...edits };
+    const now = Date.now();
     await ctx.db.patch(productId, {
-      imageStorageId: storageId,
+      ...edits,
+      searchText: buildSearchText(updated),
       updatedAt: now,
+      removedAt: getRemovedAt(product, edits.isActive, now),
+      // A hand-set availability ends any pending removal
+      ...(edits.isActive === undefined
+        ? {}
+        : { missingSince: undefined, missedCrawls: undefined }),
+      lockedFields: [
+        ...new Set([...(product.lockedFields ?? []), ...editedFields]),
+      ],
     });
+    await recordPriceChange(ctx, productId, product.price, updated.price, now);
+    await recordProductChange(
+      ctx,
+      product,
+      getChangeType(product, updated.isActive ?? true),
+      diffProductFields(product, updated),
+      now
+    );
 
-    // Clean up old image if it exists and is different from new one
-    if (oldImageStorageId && oldImageStorageId !== storageId) {
-      try {
-        await ctx.storage.delete(oldImageStorageId);
-      } catch (_error) {
-        // Old image cleanup is not critical - don't fail the update
-      }
-    }
-
-    return { success: true, oldImageCleaned: !!oldImageStorageId };
+    return { success: true };
   },
 });
 
-export const getAllWithImages = query({
-  args: { uploadSecret: v.optional(v.string()) },
-  handler: async (ctx, { uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+/**
+ * Hand a locked field back to the crawler; the next upload overwrites it
+ */
+export const unlockField = mutation({
+  args: {
+    productId: v.id("products"),
+    field: lockableFieldValidator,
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { productId, field, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "products.unlockField",
+      details: `${productId} ${field}`,
+    });
 
-    const products = await ctx.db
-      .query("products")
-      .filter((q) => q.neq(q.field("imageStorageId"), undefined))
-      .collect();
+    const product = await ctx.db.get(productId);
+    if (!product) {
+      throw new Error(`Product ${productId} not found`);
+    }
 
-    // Sort by updatedAt (latest first) to prioritize recent uploads
-    return products.sort((a, b) => b.updatedAt - a.updatedAt);
+    const lockedFields = product.lockedFields?.filter(
+      (locked) => locked !== field
+    );
+    await ctx.db.patch(productId, {
+      lockedFields: lockedFields?.length ? lockedFields : undefined,
+    });
+
+    return { success: true };
   },
 });
 
 export const deleteProduct = mutation({
   args: {
     productId: v.id("products"),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { productId, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { productId, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "products.deleteProduct",
+      details: productId,
+    });
 
     const product = await ctx.db.get(productId);
     if (!product) {
@@ -617,9 +1023,29 @@ export const deleteProduct = mutation({
           }
         }
       }
+      await deleteReviewReports(ctx, review._id);
+      await deleteReviewReactions(ctx, review._id);
       await ctx.db.delete(review._id);
     }
 
+    await deleteProductBookmarks(ctx, productId);
+
+    const priceHistory = await ctx.db
+      .query("priceHistory")
+      .withIndex("by_product_recorded_at", (q) => q.eq("productId", productId))
+      .collect();
+    for (const entry of priceHistory) {
+      await ctx.db.delete(entry._id);
+    }
+
+    const productChanges = await ctx.db
+      .query("productChanges")
+      .withIndex("by_product_created_at", (q) => q.eq("productId", productId))
+      .collect();
+    for (const change of productChanges) {
+      await ctx.db.delete(change._id);
+    }
+
     // Clean up associated image
     if (product.imageStorageId) {
       try {
@@ -640,13 +1066,20 @@ export const deleteProduct = mutation({
   },
 });
 
-export const markAsRemoved = mutation({
+export const markAsRemoved = internalMutation({
   args: {
     cafeId: v.id("cafes"),
     currentExternalIds: v.array(v.string()),
+    // Removal limit such as "15" or "30%"; see removalGuard.ts
+    maxRemovals: v.optional(v.string()),
+    confirmRemovals: v.optional(v.boolean()),
   },
-  handler: async (ctx, { cafeId, currentExternalIds }) => {
+  handler: async (
+    ctx,
+    { cafeId, currentExternalIds, maxRemovals, confirmRemovals = false }
+  ) => {
     const now = Date.now();
+    const threshold = resolveRemovalThreshold(maxRemovals);
 
     // Get all active products for this cafe
     const allProducts = await ctx.db
@@ -655,20 +1088,76 @@ export const markAsRemoved = mutation({
       .filter((q) => q.eq(q.field("isActive"), true))
       .collect();
 
+    // Products back in the crawl within their grace period were never removed
+    const foundAgainProducts = allProducts.filter(
+      (product) =>
+        product.missingSince !== undefined &&
+        currentExternalIds.includes(product.externalId)
+    );
+    for (const product of foundAgainProducts) {
+      await ctx.db.patch(product._id, {
+        missingSince: undefined,
+        missedCrawls: undefined,
+      });
+    }
+
+    // Find products that are no longer in the current crawl. A hand-set
+    // availability is locked and left alone.
+    const missingProducts = allProducts
+      .filter(
+        (product) =>
+          !(
+            currentExternalIds.includes(product.externalId) ||
+            product.lockedFields?.includes("isActive")
+          )
+      )
+      .map((product) => ({
+        product,
+        missing: recordMissedCrawl(product, now),
+      }));
+    const confirmedRemovals = missingProducts.filter(({ missing }) =>
+      isRemovalConfirmed(missing, now)
+    );
+
     const removedProducts: string[] = [];
+    const stillMissingProducts: string[] = [];
     const reactivatedProducts: string[] = [];
+    let blockedRemovals:
+      | { threshold: string; activeCount: number; products: string[] }
+      | undefined;
+
+    if (
+      !confirmRemovals &&
+      exceedsRemovalThreshold(
+        threshold,
+        confirmedRemovals.length,
+        allProducts.length
+      )
+    ) {
+      blockedRemovals = {
+        threshold: formatRemovalThreshold(threshold),
+        activeCount: allProducts.length,
+        products: confirmedRemovals.map(({ product }) => product.name),
+      };
+    }
 
-    // Find products that are no longer in the current crawl
-    for (const product of allProducts) {
-      if (!currentExternalIds.includes(product.externalId)) {
-        // Mark as removed
-        await ctx.db.patch(product._id, {
-          isActive: false,
-          removedAt: now,
-          updatedAt: now,
-        });
-        removedProducts.push(product.name);
+    for (const { product, missing } of missingProducts) {
+      if (blockedRemovals || !isRemovalConfirmed(missing, now)) {
+        // Still within the grace period (or held back by the guard)
+        await ctx.db.patch(product._id, missing);
+        stillMissingProducts.push(product.name);
+        continue;
       }
+
+      await ctx.db.patch(product._id, {
+        isActive: false,
+        removedAt: now,
+        updatedAt: now,
+        missingSince: undefined,
+        missedCrawls: undefined,
+      });
+      await recordProductChange(ctx, product, "removed", [], now);
+      removedProducts.push(product.name);
     }
 
     // Find products that were previously removed but are now back
@@ -679,13 +1168,17 @@ export const markAsRemoved = mutation({
       .collect();
 
     for (const product of previouslyRemovedProducts) {
-      if (currentExternalIds.includes(product.externalId)) {
+      if (
+        currentExternalIds.includes(product.externalId) &&
+        !product.lockedFields?.includes("isActive")
+      ) {
         // Reactivate the product
         await ctx.db.patch(product._id, {
           isActive: true,
           removedAt: undefined,
           updatedAt: now,
         });
+        await recordProductChange(ctx, product, "reactivated", [], now);
         reactivatedProducts.push(product.name);
       }
     }
@@ -693,8 +1186,11 @@ export const markAsRemoved = mutation({
     return {
       removed: removedProducts.length,
       removedProducts,
+      missing: stillMissingProducts.length,
+      missingProducts: stillMissingProducts,
       reactivated: reactivatedProducts.length,
       reactivatedProducts,
+      blockedRemovals,
     };
   },
 });
@@ -716,13 +1212,18 @@ export const backdateReimportedProducts = mutation({
     // creation time; override if that is not comfortably older than 30 days.
     targetAddedAt: v.optional(v.number()),
     dryRun: v.optional(v.boolean()),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
   handler: async (
     ctx,
-    { cafeSlug, importedBefore, targetAddedAt, dryRun, uploadSecret }
+    { cafeSlug, importedBefore, targetAddedAt, dryRun, apiToken }
   ) => {
-    verifyUploadSecret(uploadSecret);
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "products.backdateReimportedProducts",
+      details: cafeSlug,
+    });
 
     const cafe = await ctx.db
       .query("cafes")
@@ -768,3 +1269,33 @@ export const backdateReimportedProducts = mutation({
     };
   },
 });
+
+/**
+ * Fill `searchText` for products written before the search index existed.
+ * Paginated: call again with the returned cursor until `isDone`.
+ */
+export const backfillSearchText = mutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    apiToken: v.optional(v.string()),
+  },
+  handler: async (ctx, { cursor, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "catalog",
+      action: "products.backfillSearchText",
+    });
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("products")
+      .paginate({ numItems: 200, cursor: cursor ?? null });
+
+    for (const product of page) {
+      await ctx.db.patch(product._id, {
+        searchText: buildSearchText(product),
+      });
+    }
+
+    return { updated: page.length, isDone, continueCursor };
+  },
+});
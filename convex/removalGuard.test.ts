@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  exceedsRemovalThreshold,
+  isRemovalConfirmed,
+  MISSING_PERIOD_BEFORE_REMOVAL_MS,
+  parseRemovalThreshold,
+  recordMissedCrawl,
+} from "./removalGuard";
+
+const NOW = Date.UTC(2025, 5, 1);
+
+describe("parseRemovalThreshold", () => {
+  it("reads counts and percentages", () => {
+    expect(parseRemovalThreshold("15")).toEqual({ kind: "count", value: 15 });
+    expect(parseRemovalThreshold(" 30% ")).toEqual({
+      kind: "ratio",
+      value: 0.3,
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseRemovalThreshold("abc")).toThrow();
+    expect(() => parseRemovalThreshold("150%")).toThrow();
+    expect(() => parseRemovalThreshold("2.5")).toThrow();
+  });
+});
+
+describe("exceedsRemovalThreshold", () => {
+  it("compares against an absolute count", () => {
+    const threshold = parseRemovalThreshold("3");
+    expect(exceedsRemovalThreshold(threshold, 3, 100)).toBe(false);
+    expect(exceedsRemovalThreshold(threshold, 4, 100)).toBe(true);
+  });
+
+  it("compares against a share of the active products", () => {
+    const threshold = parseRemovalThreshold("30%");
+    expect(exceedsRemovalThreshold(threshold, 30, 100)).toBe(false);
+    expect(exceedsRemovalThreshold(threshold, 31, 100)).toBe(true);
+  });
+
+  it("never blocks an upload that removes nothing", () => {
+    expect(exceedsRemovalThreshold(parseRemovalThreshold("0"), 0, 0)).toBe(
+      false
+    );
+  });
+});
+
+describe("recordMissedCrawl", () => {
+  it("starts and then counts a missing streak", () => {
+    const first = recordMissedCrawl({}, NOW);
+    expect(first).toEqual({ missedCrawls: 1, missingSince: NOW });
+    expect(recordMissedCrawl(first, NOW + 1000)).toEqual({
+      missedCrawls: 2,
+      missingSince: NOW,
+    });
+  });
+});
+
+describe("isRemovalConfirmed", () => {
+  it("waits for a second missed crawl", () => {
+    const first = recordMissedCrawl({}, NOW);
+    expect(isRemovalConfirmed(first, NOW)).toBe(false);
+    expect(isRemovalConfirmed(recordMissedCrawl(first, NOW), NOW)).toBe(true);
+  });
+
+  it("confirms a product missing for the whole grace period", () => {
+    const state = { missedCrawls: 1, missingSince: NOW };
+    expect(
+      isRemovalConfirmed(state, NOW + MISSING_PERIOD_BEFORE_REMOVAL_MS)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Safety limit for removal detection. A crawl that silently loses part of a
+ * menu (a changed page layout, a failed category request) would otherwise mark
+ * every missing product as removed once its grace period (below) runs out.
+ * Above the limit the removals are held back and reported until the upload is
+ * re-run with `--confirm-removals`.
+ *
+ * The limit is written as an absolute count ("15") or a share of the cafe's
+ * active products ("30%"). The uploader's `--max-removals` flag overrides the
+ * `REMOVAL_GUARD_MAX_REMOVALS` deployment variable, which overrides the default.
+ */
+
+export type RemovalThreshold =
+  | { kind: "count"; value: number }
+  | { kind: "ratio"; value: number };
+
+export const DEFAULT_MAX_REMOVALS = "30%";
+
+const THRESHOLD_PATTERN = /^(\d+(?:\.\d+)?)(%?)$/;
+
+export function parseRemovalThreshold(input: string): RemovalThreshold {
+  const match = THRESHOLD_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid removal threshold "${input}". Use a count like "15" or a percentage like "30%".`
+    );
+  }
+
+  const value = Number(match[1]);
+  if (match[2]) {
+    if (value > 100) {
+      throw new Error(`Removal threshold cannot exceed 100%: "${input}"`);
+    }
+    return { kind: "ratio", value: value / 100 };
+  }
+  if (!Number.isInteger(value)) {
+    throw new Error(
+      `Removal threshold count must be a whole number: "${input}"`
+    );
+  }
+  return { kind: "count", value };
+}
+
+/** Whether removing `removing` of `activeCount` products goes over the limit */
+export function exceedsRemovalThreshold(
+  threshold: RemovalThreshold,
+  removing: number,
+  activeCount: number
+): boolean {
+  if (removing === 0) {
+    return false;
+  }
+  if (threshold.kind === "count") {
+    return removing > threshold.value;
+  }
+  return removing > activeCount * threshold.value;
+}
+
+export function resolveRemovalThreshold(maxRemovals?: string) {
+  return parseRemovalThreshold(
+    maxRemovals ??
+      process.env.REMOVAL_GUARD_MAX_REMOVALS ??
+      DEFAULT_MAX_REMOVALS
+  );
+}
+
+export function formatRemovalThreshold(threshold: RemovalThreshold): string {
+  return threshold.kind === "count"
+    ? `${threshold.value} products`
+    : `${Math.round(threshold.value * 100)}% of active products`;
+}
+
+/**
+ * Grace period before a product is marked removed. Some cafe sites hide items
+ * for a day, so a product missing from a crawl is first only marked missing
+ * (`missingSince`, `missedCrawls`) and stays active everywhere public. It is
+ * removed once it has missed this many consecutive crawls or has been missing
+ * this long; showing up again in between clears the missing state.
+ */
+export const MISSED_CRAWLS_BEFORE_REMOVAL = 2;
+export const MISSING_PERIOD_BEFORE_REMOVAL_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface MissingState {
+  missedCrawls: number;
+  missingSince: number;
+}
+
+/** Missing state after one more crawl without the product */
+export function recordMissedCrawl(
+  previous: Partial<MissingState>,
+  now: number
+): MissingState {
+  return {
+    missedCrawls: (previous.missedCrawls ?? 0) + 1,
+    missingSince: previous.missingSince ?? now,
+  };
+}
+
+export function isRemovalConfirmed(state: MissingState, now: number): boolean {
+  return (
+    state.missedCrawls >= MISSED_CRAWLS_BEFORE_REMOVAL ||
+    now - state.missingSince >= MISSING_PERIOD_BEFORE_REMOVAL_MS
+  );
+}
@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation } from "./_generated/server";
+import { getCurrentUserOrThrow } from "./users";
+
+/** Remove all "도움돼요" reactions of a review that is about to be deleted */
+export async function deleteReviewReactions(
+  ctx: MutationCtx,
+  reviewId: Id<"reviews">
+): Promise<void> {
+  const reactions = await ctx.db
+    .query("reviewReactions")
+    .withIndex("by_review_user", (q) => q.eq("reviewId", reviewId))
+    .collect();
+  for (const reaction of reactions) {
+    await ctx.db.delete(reaction._id);
+  }
+}
+
+/**
+ * Remove a user's reactions, for account deletion, and take them off the
+ * cached counts of the reviews they were on
+ */
+export async function deleteUserReactions(
+  ctx: MutationCtx,
+  userId: Id<"users">
+): Promise<void> {
+  const reactions = await ctx.db
+    .query("reviewReactions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const reaction of reactions) {
+    const review = await ctx.db.get(reaction.reviewId);
+    if (review) {
+      await ctx.db.patch(review._id, {
+        helpfulCount: Math.max((review.helpfulCount ?? 0) - 1, 0),
+      });
+    }
+    await ctx.db.delete(reaction._id);
+  }
+}
+
+/**
+ * Mark a review as helpful ("도움돼요"), or take the mark back. Each user
+ * counts once per review, and the count is cached on the review for sorting.
+ */
+export const toggleHelpful = mutation({
+  args: { reviewId: v.id("reviews") },
+  handler: async (ctx, { reviewId }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const review = await ctx.db.get(reviewId);
+
+    if (!review) {
+      throw new Error("Review not found");
+    }
+
+    if (review.userId === user._id) {
+      throw new Error("Cannot mark your own review as helpful");
+    }
+
+    const existing = await ctx.db
+      .query("reviewReactions")
+      .withIndex("by_review_user", (q) =>
+        q.eq("reviewId", reviewId).eq("userId", user._id)
+      )
+      .first();
+    const helpfulCount = review.helpfulCount ?? 0;
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      await ctx.db.patch(reviewId, {
+        helpfulCount: Math.max(helpfulCount - 1, 0),
+      });
+      return { markedHelpful: false };
+    }
+
+    await ctx.db.insert("reviewReactions", {
+      reviewId,
+      userId: user._id,
+      createdAt: Date.now(),
+    });
+    await ctx.db.patch(reviewId, { helpfulCount: helpfulCount + 1 });
+    return { markedHelpful: true };
+  },
+});
@@ -0,0 +1,46 @@
+import { type Infer, v } from "convex/values";
+
+/**
+ * Orders `reviews.getByProduct` can list a product's reviews in, shared by
+ * the query and the sort labels in `shared/reviewSort.ts`.
+ */
+export const reviewSortValidator = v.union(
+  v.literal("newest"),
+  v.literal("helpful"),
+  v.literal("highestRating"),
+  v.literal("lowestRating"),
+  v.literal("withPhotos") // Newest reviews that have photos
+);
+
+export type ReviewSort = Infer<typeof reviewSortValidator>;
+
+/**
+ * Optional per-criterion answers on a review, next to the overall rating.
+ * Labels live in `shared/ratings.ts`.
+ */
+export const sweetnessRatingValidator = v.union(
+  v.literal("tooLittle"),
+  v.literal("justRight"),
+  v.literal("tooMuch")
+);
+
+export const strengthRatingValidator = v.union(
+  v.literal("weak"),
+  v.literal("justRight"),
+  v.literal("strong")
+);
+
+export const valueRatingValidator = v.union(
+  v.literal("poor"),
+  v.literal("fair"),
+  v.literal("good")
+);
+
+export const subRatingsValidator = v.object({
+  sweetness: v.optional(sweetnessRatingValidator),
+  strength: v.optional(strengthRatingValidator),
+  value: v.optional(valueRatingValidator), // Value for money
+  wouldReorder: v.optional(v.boolean()),
+});
+
+export type SubRatings = Infer<typeof subRatingsValidator>;
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeRatingStats,
+  decodeFeedCursor,
+  mergeFeedPages,
+} from "./reviews";
+
+describe("computeRatingStats", () => {
+  it("averages ratings and counts each value", () => {
+    const stats = computeRatingStats([
+      { rating: 5 },
+      { rating: 3.5 },
+      { rating: 3.5 },
+    ]);
+    expect(stats.averageRating).toBe(4);
+    expect(stats.totalReviews).toBe(3);
+    expect(stats.ratingDistribution[3.5]).toBe(2);
+  });
+
+  it("counts sub-ratings only for reviews that answered them", () => {
+    const { subRatings } = computeRatingStats([
+      {
+        rating: 4,
+        subRatings: { sweetness: "tooMuch", value: "good", wouldReorder: true },
+      },
+      { rating: 2, subRatings: { sweetness: "tooMuch", wouldReorder: false } },
+      { rating: 3 },
+    ]);
+    expect(subRatings).toEqual({
+      sweetness: { tooLittle: 0, justRight: 0, tooMuch: 2 },
+      strength: { weak: 0, justRight: 0, strong: 0 },
+      value: { poor: 0, fair: 0, good: 1 },
+      wouldReorder: { yes: 1, no: 1 },
+    });
+  });
+
+  it("is empty without reviews", () => {
+    const stats = computeRatingStats([]);
+    expect(stats.totalReviews).toBe(0);
+    expect(stats.subRatings.wouldReorder).toEqual({ yes: 0, no: 0 });
+  });
+});
+
+describe("mergeFeedPages", () => {
+  const review = (id: string, createdAt: number, creationTime = createdAt) => ({
+    id,
+    createdAt,
+    _creationTime: creationTime,
+  });
+
+  it("merges followees newest first and continues after the last review", () => {
+    const result = mergeFeedPages(
+      [
+        [review("a3", 30), review("a1", 10)],
+        [review("b2", 20), review("b0", 5)],
+      ],
+      3
+    );
+    expect(result.page.map(({ id }) => id)).toEqual(["a3", "b2", "a1"]);
+    expect(result.isDone).toBe(false);
+    expect(decodeFeedCursor(result.continueCursor)).toEqual({
+      createdAt: 10,
+      creationTime: 10,
+    });
+  });
+
+  it("breaks createdAt ties by creation time", () => {
+    const { page } = mergeFeedPages(
+      [[review("first", 10, 1)], [review("second", 10, 2)]],
+      2
+    );
+    expect(page.map(({ id }) => id)).toEqual(["second", "first"]);
+  });
+
+  it("is done when every followee ran out", () => {
+    const result = mergeFeedPages([[review("a", 10)], []], 2);
+    expect(result.isDone).toBe(true);
+    expect(mergeFeedPages([[], []], 2)).toEqual({
+      page: [],
+      isDone: true,
+      continueCursor: "",
+    });
+  });
+});
+
+describe("decodeFeedCursor", () => {
+  it("starts from the newest review without a cursor", () => {
+    expect(decodeFeedCursor(null)).toBeNull();
+  });
+
+  it("rejects cursors it did not write", () => {
+    expect(() => decodeFeedCursor("abc")).toThrow("InvalidCursor");
+  });
+});
@@ -1,14 +1,29 @@
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import {
   RATING_TEXTS,
   RATING_VALUES,
   type RatingDistribution,
+  type SubRatingStats,
 } from "../shared/ratings";
-import { api } from "./_generated/api";
-import type { Id } from "./_generated/dataModel";
-import { mutation, type QueryCtx, query } from "./_generated/server";
-import { verifyUploadSecret } from "./uploadSecret";
-import { getCurrentUserOrThrow } from "./users";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { authorizeAdmin, authorizeAdminMutation } from "./adminAuth";
+import { deleteReviewReports } from "./moderation";
+import { deleteReviewReactions } from "./reviewReactions";
+import {
+  type ReviewSort,
+  reviewSortValidator,
+  type SubRatings,
+  subRatingsValidator,
+} from "./reviewValidators";
+import { getCurrentUser, getCurrentUserOrThrow } from "./users";
 
 async function resolveImageUrls(
   ctx: QueryCtx,
@@ -28,10 +43,41 @@ function getRatingText(rating: number): string {
   return RATING_TEXTS[rating as keyof typeof RATING_TEXTS] || "";
 }
 
-function computeRatingStats(reviews: { rating: number }[]): {
+function countSubRatings(
+  reviews: { subRatings?: SubRatings }[]
+): SubRatingStats {
+  const stats: SubRatingStats = {
+    sweetness: { tooLittle: 0, justRight: 0, tooMuch: 0 },
+    strength: { weak: 0, justRight: 0, strong: 0 },
+    value: { poor: 0, fair: 0, good: 0 },
+    wouldReorder: { yes: 0, no: 0 },
+  };
+
+  for (const { subRatings } of reviews) {
+    if (subRatings?.sweetness) {
+      stats.sweetness[subRatings.sweetness]++;
+    }
+    if (subRatings?.strength) {
+      stats.strength[subRatings.strength]++;
+    }
+    if (subRatings?.value) {
+      stats.value[subRatings.value]++;
+    }
+    if (subRatings?.wouldReorder !== undefined) {
+      stats.wouldReorder[subRatings.wouldReorder ? "yes" : "no"]++;
+    }
+  }
+
+  return stats;
+}
+
+export function computeRatingStats(
+  reviews: { rating: number; subRatings?: SubRatings }[]
+): {
   averageRating: number;
   totalReviews: number;
   ratingDistribution: RatingDistribution;
+  subRatings: SubRatingStats;
 } {
   const ratingDistribution: RatingDistribution = {
     1: 0,
@@ -42,9 +88,15 @@ function computeRatingStats(reviews: { rating: number }[]): {
     4.5: 0,
     5: 0,
   };
+  const subRatings = countSubRatings(reviews);
 
   if (reviews.length === 0) {
-    return { averageRating: 0, totalReviews: 0, ratingDistribution };
+    return {
+      averageRating: 0,
+      totalReviews: 0,
+      ratingDistribution,
+      subRatings,
+    };
   }
 
   const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
@@ -57,33 +109,137 @@ function computeRatingStats(reviews: { rating: number }[]): {
     }
   }
 
-  return { averageRating, totalReviews: reviews.length, ratingDistribution };
+  return {
+    averageRating,
+    totalReviews: reviews.length,
+    ratingDistribution,
+    subRatings,
+  };
+}
+
+// "도움돼요" marks a review needs before it is highlighted on the product page
+const MIN_HELPFUL_COUNT_TO_HIGHLIGHT = 3;
+
+function queryProductReviews(
+  ctx: QueryCtx,
+  productId: Id<"products">,
+  sort: ReviewSort
+) {
+  switch (sort) {
+    case "helpful":
+      return ctx.db
+        .query("reviews")
+        .withIndex("by_product_helpful", (q) => q.eq("productId", productId))
+        .order("desc");
+    case "highestRating":
+    case "lowestRating":
+      return ctx.db
+        .query("reviews")
+        .withIndex("by_product_rating", (q) => q.eq("productId", productId))
+        .order(sort === "highestRating" ? "desc" : "asc");
+    default:
+      return ctx.db
+        .query("reviews")
+        .withIndex("by_product", (q) => q.eq("productId", productId))
+        .order("desc");
+  }
+}
+
+// Whether the current user marked each review as helpful
+async function getMarkedHelpful(
+  ctx: QueryCtx,
+  reviewIds: Id<"reviews">[]
+): Promise<Set<Id<"reviews">>> {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    return new Set();
+  }
+  const reactions = await Promise.all(
+    reviewIds.map((reviewId) =>
+      ctx.db
+        .query("reviewReactions")
+        .withIndex("by_review_user", (q) =>
+          q.eq("reviewId", reviewId).eq("userId", user._id)
+        )
+        .first()
+    )
+  );
+  return new Set(
+    reactions.flatMap((reaction) => (reaction ? [reaction.reviewId] : []))
+  );
 }
 
 /**
- * Get all reviews for a product
+ * Get a page of a product's reviews in the given order (newest first by
+ * default), for `usePaginatedQuery`
  */
 export const getByProduct = query({
   args: {
     productId: v.id("products"),
-    limit: v.optional(v.number()),
+    sort: v.optional(reviewSortValidator),
+    paginationOpts: paginationOptsValidator,
   },
-  handler: async (ctx, { productId, limit = 50 }) => {
-    const reviews = await ctx.db
-      .query("reviews")
-      .withIndex("by_product", (q) => q.eq("productId", productId))
-      .filter((q) => q.neq(q.field("isVisible"), false)) // Show visible reviews
-      .order("desc")
-      .take(limit);
+  handler: async (ctx, { productId, sort = "newest", paginationOpts }) => {
+    const result = await queryProductReviews(ctx, productId, sort)
+      .filter((q) =>
+        sort === "withPhotos"
+          ? q.and(
+              q.neq(q.field("isVisible"), false),
+              q.neq(q.field("imageStorageIds"), undefined)
+            )
+          : q.neq(q.field("isVisible"), false)
+      )
+      .paginate(paginationOpts);
+    // An empty photo list can't be told apart from a missing one in a filter,
+    // so such pages come out a little short
+    const reviews =
+      sort === "withPhotos"
+        ? result.page.filter(
+            (review) => (review.imageStorageIds?.length ?? 0) > 0
+          )
+        : result.page;
+
+    const markedHelpful = await getMarkedHelpful(
+      ctx,
+      reviews.map((review) => review._id)
+    );
 
     // Add image URLs for review photos
-    return await Promise.all(
+    const page = await Promise.all(
       reviews.map(async (review) => ({
         ...review,
         imageUrls: await resolveImageUrls(ctx, review.imageStorageIds),
         ratingText: getRatingText(review.rating),
+        markedHelpful: markedHelpful.has(review._id),
       }))
     );
+    return { ...result, page };
+  },
+});
+
+/**
+ * The product's most helpful review, if enough users marked it as helpful
+ */
+export const getTopHelpfulReview = query({
+  args: { productId: v.id("products") },
+  handler: async (ctx, { productId }) => {
+    const review = await queryProductReviews(ctx, productId, "helpful")
+      .filter((q) => q.neq(q.field("isVisible"), false))
+      .first();
+    if (
+      !review ||
+      (review.helpfulCount ?? 0) < MIN_HELPFUL_COUNT_TO_HIGHLIGHT
+    ) {
+      return null;
+    }
+
+    const markedHelpful = await getMarkedHelpful(ctx, [review._id]);
+    return {
+      ...review,
+      imageUrls: await resolveImageUrls(ctx, review.imageStorageIds),
+      ratingText: getRatingText(review.rating),
+      markedHelpful: markedHelpful.has(review._id),
+    };
   },
 });
 
@@ -164,6 +320,7 @@ export const upsertReview = mutation({
     rating: v.number(),
     text: v.optional(v.string()),
     imageStorageIds: v.optional(v.array(v.id("_storage"))),
+    subRatings: v.optional(subRatingsValidator),
   },
   handler: async (ctx, args) => {
     // Identity is derived from the authenticated session, never trusted from
@@ -199,8 +356,9 @@ export const upsertReview = mutation({
         rating: args.rating,
         text: args.text,
         imageStorageIds: args.imageStorageIds,
+        subRatings: args.subRatings,
         updatedAt: now,
-        isVisible: true, // Reset visibility on update
+        // isVisible is left alone so editing can't undo a moderator's hide
       });
       reviewId = existingReview._id;
     } else {
@@ -211,6 +369,7 @@ export const upsertReview = mutation({
         rating: args.rating,
         text: args.text,
         imageStorageIds: args.imageStorageIds,
+        subRatings: args.subRatings,
         createdAt: now,
         updatedAt: now,
         isVisible: true,
@@ -218,7 +377,7 @@ export const upsertReview = mutation({
     }
 
     // Update product aggregation stats
-    await ctx.runMutation(api.reviews.updateProductStats, {
+    await ctx.runMutation(internal.reviews.updateProductStats, {
       productId: args.productId,
     });
 
@@ -257,10 +416,12 @@ export const deleteReview = mutation({
       }
     }
 
+    await deleteReviewReports(ctx, reviewId);
+    await deleteReviewReactions(ctx, reviewId);
     await ctx.db.delete(reviewId);
 
     // Update product aggregation stats
-    await ctx.runMutation(api.reviews.updateProductStats, {
+    await ctx.runMutation(internal.reviews.updateProductStats, {
       productId: review.productId,
     });
 
@@ -271,7 +432,7 @@ export const deleteReview = mutation({
 /**
  * Update product rating aggregation statistics
  */
-export const updateProductStats = mutation({
+export const updateProductStats = internalMutation({
   args: { productId: v.id("products") },
   handler: async (ctx, { productId }) => {
     const reviews = await ctx.db
@@ -304,30 +465,31 @@ export const generateUploadUrl = mutation({
 });
 
 /**
- * Get all reviews by a specific user
+ * Get a page of a user's reviews, newest first
  */
 export const getUserReviews = query({
   args: {
     userId: v.string(),
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
-  handler: async (ctx, { userId, limit = 50 }) => {
-    const reviews = await ctx.db
+  handler: async (ctx, { userId, paginationOpts }) => {
+    const result = await ctx.db
       .query("reviews")
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .filter((q) => q.neq(q.field("isVisible"), false))
       .order("desc")
-      .take(limit);
+      .paginate(paginationOpts);
 
     // Get product information for each review
-    return await Promise.all(
-      reviews.map(async (review) => ({
+    const page = await Promise.all(
+      result.page.map(async (review) => ({
         ...review,
         product: await ctx.db.get(review.productId),
         imageUrls: await resolveImageUrls(ctx, review.imageStorageIds),
         ratingText: getRatingText(review.rating),
       }))
     );
+    return { ...result, page };
   },
 });
 
@@ -348,27 +510,173 @@ export const getUserStats = query({
 });
 
 /**
- * Get recent reviews across all products (for homepage, etc.)
+ * Get a page of recent reviews across all products (for homepage, etc.)
  */
 export const getRecentReviews = query({
-  args: { limit: v.optional(v.number()) },
-  handler: async (ctx, { limit = 10 }) => {
-    const reviews = await ctx.db
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, { paginationOpts }) => {
+    const result = await ctx.db
       .query("reviews")
       .withIndex("by_created_at")
       .filter((q) => q.neq(q.field("isVisible"), false))
       .order("desc")
-      .take(limit);
+      .paginate(paginationOpts);
 
     // Get product information for each review
-    return await Promise.all(
-      reviews.map(async (review) => ({
+    const page = await Promise.all(
+      result.page.map(async (review) => ({
         ...review,
         product: await ctx.db.get(review.productId),
         imageUrls: await resolveImageUrls(ctx, review.imageStorageIds),
         ratingText: getRatingText(review.rating),
       }))
     );
+    return { ...result, page };
+  },
+});
+
+// Position in the following feed: the last review shown, newest first.
+// `_creationTime` breaks ties between reviews written in the same millisecond.
+interface FeedCursor {
+  createdAt: number;
+  creationTime: number;
+}
+
+type FeedReview = Pick<Doc<"reviews">, "createdAt" | "_creationTime">;
+
+function encodeFeedCursor(review: FeedReview): string {
+  return `${review.createdAt}:${review._creationTime}`;
+}
+
+export function decodeFeedCursor(cursor: string | null): FeedCursor | null {
+  if (!cursor) {
+    return null;
+  }
+  const [createdAt, creationTime] = cursor.split(":").map(Number);
+  if (!(Number.isFinite(createdAt) && Number.isFinite(creationTime))) {
+    // usePaginatedQuery restarts from the first page on "InvalidCursor"
+    throw new Error(`InvalidCursor: not a following feed cursor: ${cursor}`);
+  }
+  return { createdAt, creationTime };
+}
+
+function compareFeedReviews(a: FeedReview, b: FeedReview): number {
+  return b.createdAt - a.createdAt || b._creationTime - a._creationTime;
+}
+
+function isAfterCursor(review: FeedReview, cursor: FeedCursor | null) {
+  return (
+    !cursor ||
+    compareFeedReviews(
+      { createdAt: cursor.createdAt, _creationTime: cursor.creationTime },
+      review
+    ) > 0
+  );
+}
+
+/**
+ * Merge each followee's newest reviews into one page. Every list must be
+ * sorted newest first and hold up to `numItems + 1` reviews, so that a
+ * leftover review shows the feed goes on.
+ */
+export function mergeFeedPages<T extends FeedReview>(
+  lists: T[][],
+  numItems: number
+): { page: T[]; isDone: boolean; continueCursor: string } {
+  const merged = lists.flat().sort(compareFeedReviews);
+  const page = merged.slice(0, numItems);
+  const last = page.at(-1);
+  return {
+    page,
+    isDone: merged.length <= numItems,
+    continueCursor: last ? encodeFeedCursor(last) : "",
+  };
+}
+
+// A followee's visible reviews older than the cursor, newest first, one more
+// than a page so the merge can tell whether the feed goes on
+async function takeFolloweeReviews(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  cursor: FeedCursor | null,
+  numItems: number
+) {
+  const reviews = ctx.db
+    .query("reviews")
+    .withIndex("by_user_created_at", (q) =>
+      cursor
+        ? q.eq("userId", userId).lte("createdAt", cursor.createdAt)
+        : q.eq("userId", userId)
+    )
+    .order("desc");
+
+  const taken: Doc<"reviews">[] = [];
+  for await (const review of reviews) {
+    if (review.isVisible === false || !isAfterCursor(review, cursor)) {
+      continue;
+    }
+    taken.push(review);
+    if (taken.length > numItems) {
+      break;
+    }
+  }
+  return taken;
+}
+
+/**
+ * "팔로잉" feed: recent reviews by the users the current user follows, for
+ * `usePaginatedQuery`. Each followee's reviews are read through
+ * `by_user_created_at` and merged, so quiet followees cost no extra reads.
+ */
+export const getFollowingFeed = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, { paginationOpts }) => {
+    const user = await getCurrentUser(ctx);
+    const follows = user
+      ? await ctx.db
+          .query("follows")
+          .withIndex("by_follower", (q) => q.eq("followerId", user._id))
+          .collect()
+      : [];
+    if (follows.length === 0) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const cursor = decodeFeedCursor(paginationOpts.cursor);
+    const result = mergeFeedPages(
+      await Promise.all(
+        follows.map((follow) =>
+          takeFolloweeReviews(
+            ctx,
+            follow.followingId,
+            cursor,
+            paginationOpts.numItems
+          )
+        )
+      ),
+      paginationOpts.numItems
+    );
+
+    const page = await Promise.all(
+      result.page.map(async (review) => {
+        const author = await ctx.db.get(review.userId as Id<"users">);
+        return {
+          ...review,
+          author: author && {
+            name: author.name,
+            handle: author.handle,
+            imageUrl: author.imageStorageId
+              ? (await ctx.storage.getUrl(author.imageStorageId)) || undefined
+              : undefined,
+          },
+          product: await ctx.db.get(review.productId),
+          imageUrls: await resolveImageUrls(ctx, review.imageStorageIds),
+          ratingText: getRatingText(review.rating),
+        };
+      })
+    );
+
+    return { ...result, page };
   },
 });
 
@@ -409,9 +717,9 @@ export const getById = query({
 });
 
 export const getAllWithImages = query({
-  args: { uploadSecret: v.optional(v.string()) },
-  handler: async (ctx, { uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
 
     const reviews = await ctx.db
       .query("reviews")
@@ -427,10 +735,15 @@ export const updateImages = mutation({
   args: {
     reviewId: v.id("reviews"),
     imageStorageIds: v.array(v.id("_storage")),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { reviewId, imageStorageIds, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { reviewId, imageStorageIds, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "reviews.updateImages",
+      details: reviewId,
+    });
 
     const now = Date.now();
 
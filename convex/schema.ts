@@ -1,6 +1,20 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { apiTokenScopeValidator, userRoleValidator } from "./adminValidators";
+import {
+  crawlRunStatusValidator,
+  uploadCountsValidator,
+} from "./crawlRunValidators";
+import { lockableFieldValidator } from "./lockedFields";
+import {
+  moderationActionValidator,
+  reportReasonValidator,
+  reportStatusValidator,
+} from "./moderationValidators";
 import { nutritionsValidator } from "./nutritionsValidator";
+import { productTagValidator, tagOverridesValidator } from "./productTags";
+import { productVariantValidator } from "./productVariantValidator";
+import { subRatingsValidator } from "./reviewValidators";
 
 export default defineSchema({
   cafes: defineTable({
@@ -22,11 +36,18 @@ export default defineSchema({
     externalUrl: v.string(),
     price: v.optional(v.number()),
     nutritions: v.optional(nutritionsValidator),
+    variants: v.optional(v.array(productVariantValidator)), // Per-size price/nutrition; price/nutritions above hold the default size
+    tags: v.optional(v.array(productTagValidator)), // Derived by the categorizer on every crawl
+    tagOverrides: v.optional(tagOverridesValidator), // Hand-made tag corrections, see productTags.ts
     isActive: v.optional(v.boolean()), // Track if product is currently available on cafe website
+    lockedFields: v.optional(v.array(lockableFieldValidator)), // Hand-edited in /admin, kept on crawler uploads
     addedAt: v.number(),
     updatedAt: v.number(),
     removedAt: v.optional(v.number()), // When product was marked as removed
+    missingSince: v.optional(v.number()), // First crawl the product was missing from, see removalGuard.ts
+    missedCrawls: v.optional(v.number()), // Consecutive crawls the product was missing from
     shortId: v.string(), // Short URL-friendly ID
+    searchText: v.optional(v.string()), // Search index terms, see koreanSearch.ts
     // Review aggregation fields
     averageRating: v.optional(v.number()), // Cached average rating for performance
     totalReviews: v.optional(v.number()), // Cached total review count
@@ -38,21 +59,149 @@ export default defineSchema({
     .index("by_cafe_active", ["cafeId", "isActive"])
     .index("by_short_id", ["shortId"])
     .index("by_rating", ["averageRating"])
-    .index("by_is_active_added_at", ["isActive", "addedAt"]),
+    .index("by_is_active_added_at", ["isActive", "addedAt"])
+    .index("by_updated_at", ["updatedAt"])
+    .index("by_cafe_updated_at", ["cafeId", "updatedAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["isActive", "cafeId"],
+    }),
+  // One entry per crawl of a cafe; the upload of its output adds `upload`
+  crawlRuns: defineTable({
+    cafeId: v.id("cafes"),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    status: crawlRunStatusValidator,
+    productCount: v.number(),
+    nutritionCount: v.number(), // Products with nutrition data
+    errors: v.array(v.string()),
+    upload: v.optional(uploadCountsValidator),
+  }).index("by_cafe_started_at", ["cafeId", "startedAt"]),
+  priceHistory: defineTable({
+    productId: v.id("products"),
+    price: v.number(),
+    previousPrice: v.optional(v.number()), // Undefined for the first recorded price
+    recordedAt: v.number(),
+  }).index("by_product_recorded_at", ["productId", "recordedAt"]),
+  productChanges: defineTable({
+    productId: v.id("products"),
+    cafeId: v.id("cafes"),
+    type: v.union(
+      v.literal("created"),
+      v.literal("updated"),
+      v.literal("removed"),
+      v.literal("reactivated")
+    ),
+    // Field-level diff; nutrition fields are flattened as `nutritions.<field>`
+    changes: v.array(
+      v.object({
+        field: v.string(),
+        before: v.optional(v.union(v.string(), v.number())),
+        after: v.optional(v.union(v.string(), v.number())),
+      })
+    ),
+    createdAt: v.number(),
+    // Shown in the public menu feed; set on write (see isFeedChange). Entries
+    // logged before the flag existed are filled by backfillFeedFlags.
+    inFeed: v.optional(v.boolean()),
+  })
+    .index("by_product_created_at", ["productId", "createdAt"])
+    .index("by_cafe_feed_created_at", ["cafeId", "inFeed", "createdAt"])
+    .index("by_feed_created_at", ["inFeed", "createdAt"]),
+  intakeLogs: defineTable({
+    userId: v.id("users"),
+    productId: v.id("products"),
+    // Snapshot at logging time so past totals survive menu changes
+    productName: v.string(),
+    size: v.optional(v.string()), // Variant size label, if one was picked
+    calories: v.optional(v.number()),
+    sugar: v.optional(v.number()),
+    caffeine: v.optional(v.number()),
+    loggedAt: v.number(),
+  }).index("by_user_logged_at", ["userId", "loggedAt"]),
+  // Products a user saved to their "마실 목록"
+  bookmarks: defineTable({
+    userId: v.id("users"),
+    productId: v.id("products"),
+    createdAt: v.number(),
+  })
+    .index("by_user_created_at", ["userId", "createdAt"])
+    .index("by_user_product", ["userId", "productId"])
+    .index("by_product", ["productId"]),
   reviews: defineTable({
     productId: v.id("products"),
     userId: v.string(), // Convex users._id (the review author's document id)
     rating: v.number(), // 1-5 scale (1=최악, 2=별로, 3=보통, 3.5=좋음, 4=추천, 4.5=강력추천, 5=최고)
     text: v.optional(v.string()), // Optional review text
     imageStorageIds: v.optional(v.array(v.id("_storage"))), // Up to 2 photos
+    subRatings: v.optional(subRatingsValidator), // Optional per-criterion answers
     createdAt: v.number(),
     updatedAt: v.number(),
     isVisible: v.optional(v.boolean()), // For moderation purposes
+    helpfulCount: v.optional(v.number()), // Cached count of "도움돼요" reactions
   })
     .index("by_product", ["productId"])
     .index("by_user", ["userId"])
+    .index("by_user_created_at", ["userId", "createdAt"])
     .index("by_product_rating", ["productId", "rating"])
+    .index("by_product_helpful", ["productId", "helpfulCount"])
     .index("by_created_at", ["createdAt"]),
+  // "도움돼요" marks, one per user and review, see reviewReactions.ts
+  reviewReactions: defineTable({
+    reviewId: v.id("reviews"),
+    userId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_review_user", ["reviewId", "userId"])
+    .index("by_user", ["userId"]),
+  // Who follows whom, for the "팔로잉" review feed
+  follows: defineTable({
+    followerId: v.id("users"),
+    followingId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_follower", ["followerId", "followingId"])
+    .index("by_following", ["followingId"]),
+  reviewReports: defineTable({
+    reviewId: v.id("reviews"),
+    reporterId: v.id("users"),
+    reason: reportReasonValidator,
+    details: v.optional(v.string()),
+    status: reportStatusValidator,
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+    resolvedBy: v.optional(v.id("users")),
+  })
+    .index("by_review_status", ["reviewId", "status"])
+    .index("by_status_created_at", ["status", "createdAt"])
+    .index("by_reporter", ["reporterId"]),
+  // Audit trail of moderator actions; kept after the review is deleted
+  moderationLogs: defineTable({
+    reviewId: v.id("reviews"),
+    moderatorId: v.id("users"),
+    action: moderationActionValidator,
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_created_at", ["createdAt"]),
+  // Tokens for scripts and CI; only a SHA-256 hash of the token is stored
+  apiTokens: defineTable({
+    name: v.string(),
+    tokenHash: v.string(),
+    scopes: v.array(apiTokenScopeValidator),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_name", ["name"]),
+  // One entry per admin mutation, made either by a user or an API token
+  adminAuditLogs: defineTable({
+    action: v.string(),
+    userId: v.optional(v.id("users")),
+    apiTokenId: v.optional(v.id("apiTokens")),
+    details: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_created_at", ["createdAt"]),
   users: defineTable({
     name: v.string(),
     handle: v.string(),
@@ -60,6 +209,7 @@ export default defineSchema({
     hasCompletedSetup: v.optional(v.boolean()), // Track if user has completed initial setup
     // this the Clerk ID, stored in the subject JWT field
     externalId: v.string(),
+    role: v.optional(userRoleValidator), // Missing means a regular user
   })
     .index("byExternalId", ["externalId"])
     .index("byName", ["name"])
@@ -1,7 +1,7 @@
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
 import { mutation, query } from "./_generated/server";
-import { verifyUploadSecret } from "./uploadSecret";
+import { authorizeAdmin, authorizeAdminMutation } from "./adminAuth";
 
 /**
  * Get storage files from the system with pagination
@@ -11,10 +11,10 @@ export const getAllStorageFiles = query({
   args: {
     cursor: v.optional(v.string()),
     limit: v.optional(v.number()),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { cursor, limit = 8000, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { cursor, limit = 8000, apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
 
     // Ensure we don't exceed Convex limits
     const safeLimit = Math.min(limit, 8000);
@@ -47,10 +47,10 @@ export const getAllStorageFiles = query({
 export const getStorageMetadata = query({
   args: {
     storageIds: v.array(v.id("_storage")),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { storageIds, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { storageIds, apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
 
     const metadataPromises = storageIds.map(async (storageId) => {
       try {
@@ -79,10 +79,15 @@ export const getStorageMetadata = query({
 export const deleteStorageFile = mutation({
   args: {
     storageId: v.id("_storage"),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { storageId, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { storageId, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "storage.deleteStorageFile",
+      details: storageId,
+    });
 
     try {
       await ctx.storage.delete(storageId);
@@ -103,10 +108,15 @@ export const deleteStorageFile = mutation({
 export const deleteStorageFiles = mutation({
   args: {
     storageIds: v.array(v.id("_storage")),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { storageIds, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { storageIds, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "storage.deleteStorageFiles",
+      details: `${storageIds.length} files`,
+    });
 
     const results: Array<{
       success: boolean;
@@ -143,9 +153,9 @@ export const deleteStorageFiles = mutation({
  * Get statistics about storage usage
  */
 export const getStorageStats = query({
-  args: { uploadSecret: v.optional(v.string()) },
-  handler: async (ctx, { uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
 
     const storageFiles = await ctx.db.system.query("_storage").collect();
 
@@ -1,7 +1,8 @@
 import { createClerkClient, type UserJSON } from "@clerk/backend";
 import { type Validator, v } from "convex/values";
 import { nanoid } from "nanoid";
-import { api, internal } from "./_generated/api";
+import { hasRole, type UserRole } from "../shared/roles";
+import { internal } from "./_generated/api";
 import {
   action,
   internalMutation,
@@ -9,7 +10,11 @@ import {
   type QueryCtx,
   query,
 } from "./_generated/server";
-import { verifyUploadSecret } from "./uploadSecret";
+import { authorizeAdmin, authorizeAdminMutation } from "./adminAuth";
+import { userRoleValidator } from "./adminValidators";
+import { deleteUserFollows } from "./follows";
+import { deleteReviewReports } from "./moderation";
+import { deleteReviewReactions, deleteUserReactions } from "./reviewReactions";
 
 // Move regex to top level for performance
 const HANDLE_REGEX = /^[a-zA-Z0-9_-]+$/;
@@ -65,6 +70,25 @@ export const deleteFromClerk = internalMutation({
   },
 });
 
+/**
+ * Grant or revoke a role. Run from the Convex CLI, e.g.
+ * `npx convex run users:setRole '{"handle": "jane", "role": "admin"}'`.
+ */
+export const setRole = internalMutation({
+  args: { handle: v.string(), role: userRoleValidator },
+  handler: async (ctx, { handle, role }) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("byHandle", (q) => q.eq("handle", handle))
+      .unique();
+    if (!user) {
+      throw new Error(`User not found: ${handle}`);
+    }
+
+    await ctx.db.patch(user._id, { role });
+  },
+});
+
 export async function getCurrentUserOrThrow(ctx: QueryCtx) {
   const userRecord = await getCurrentUser(ctx);
   if (!userRecord) {
@@ -73,6 +97,18 @@ export async function getCurrentUserOrThrow(ctx: QueryCtx) {
   return userRecord;
 }
 
+/**
+ * Current user, if they have at least the given role. Admins pass every
+ * moderator check.
+ */
+export async function requireRole(ctx: QueryCtx, role: UserRole) {
+  const user = await getCurrentUserOrThrow(ctx);
+  if (!hasRole(user.role, role)) {
+    throw new Error(`Unauthorized: ${role} role required`);
+  }
+  return user;
+}
+
 export async function getCurrentUser(ctx: QueryCtx) {
   const identity = await ctx.auth.getUserIdentity();
   if (identity === null) {
@@ -226,9 +262,9 @@ export const generateUploadUrl = mutation({
 });
 
 export const getAllWithImages = query({
-  args: { uploadSecret: v.optional(v.string()) },
-  handler: async (ctx, { uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  args: { apiToken: v.optional(v.string()) },
+  handler: async (ctx, { apiToken }) => {
+    await authorizeAdmin(ctx, { apiToken, scope: "storage" });
 
     const users = await ctx.db
       .query("users")
@@ -244,10 +280,15 @@ export const updateImage = mutation({
   args: {
     userId: v.id("users"),
     storageId: v.id("_storage"),
-    uploadSecret: v.optional(v.string()),
+    apiToken: v.optional(v.string()),
   },
-  handler: async (ctx, { userId, storageId, uploadSecret }) => {
-    verifyUploadSecret(uploadSecret);
+  handler: async (ctx, { userId, storageId, apiToken }) => {
+    await authorizeAdminMutation(ctx, {
+      apiToken,
+      scope: "storage",
+      action: "users.updateImage",
+      details: userId,
+    });
 
     await ctx.db.patch(userId, {
       imageStorageId: storageId,
@@ -286,19 +327,49 @@ export const deleteAccount = mutation({
         }
       }
       // Delete the review
+      await deleteReviewReports(ctx, review._id);
+      await deleteReviewReactions(ctx, review._id);
       await ctx.db.delete(review._id);
     }
 
+    await deleteUserReactions(ctx, user._id);
+
+    const reports = await ctx.db
+      .query("reviewReports")
+      .withIndex("by_reporter", (q) => q.eq("reporterId", user._id))
+      .collect();
+    for (const report of reports) {
+      await ctx.db.delete(report._id);
+    }
+
     // Refresh averageRating/totalReviews for each affected product so the
     // caches don't keep counting the now-deleted reviews. Scheduled (rather
     // than runMutation) so each recompute runs after this deletion commits,
     // matching how the codebase triggers follow-up work from a mutation.
     for (const productId of affectedProductIds) {
-      await ctx.scheduler.runAfter(0, api.reviews.updateProductStats, {
+      await ctx.scheduler.runAfter(0, internal.reviews.updateProductStats, {
         productId,
       });
     }
 
+    const intakeLogs = await ctx.db
+      .query("intakeLogs")
+      .withIndex("by_user_logged_at", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const log of intakeLogs) {
+      await ctx.db.delete(log._id);
+    }
+
+    const bookmarks = await ctx.db
+      .query("bookmarks")
+      .withIndex("by_user_created_at", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const bookmark of bookmarks) {
+      await ctx.db.delete(bookmark._id);
+    }
+
+    await deleteUserFollows(ctx, user._id);
+
     // Delete user's profile image from storage (best-effort, see above).
     if (user.imageStorageId) {
       try {
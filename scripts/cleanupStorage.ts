@@ -23,7 +23,7 @@ const client = new ConvexHttpClient(convexUrl);
 
 // Admin read queries are gated by this secret in production. May be undefined
 // in local dev, in which case the server-side check is skipped.
-const UPLOAD_SECRET = process.env.CONVEX_UPLOAD_SECRET;
+const API_TOKEN = process.env.JANJUM_API_TOKEN;
 
 interface StorageReference {
   field: string;
@@ -61,7 +61,7 @@ async function getAllStorageFiles(): Promise<Id<"_storage">[]> {
       } = await client.query(api.storage.getAllStorageFiles, {
         cursor: cursor || undefined,
         limit: 8000,
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
 
       allStorageIds.push(...result.files);
@@ -84,7 +84,7 @@ async function getAllStorageFiles(): Promise<Id<"_storage">[]> {
 async function getCafeReferences(): Promise<StorageReference[]> {
   const references: StorageReference[] = [];
   const cafes = await client.query(api.cafes.getAllWithImages, {
-    uploadSecret: UPLOAD_SECRET,
+    apiToken: API_TOKEN,
   });
   for (const cafe of cafes) {
     references.push({
@@ -101,7 +101,7 @@ async function getCafeReferences(): Promise<StorageReference[]> {
 async function getProductReferences(): Promise<StorageReference[]> {
   const references: StorageReference[] = [];
   const products = await client.query(api.products.getAllWithImages, {
-    uploadSecret: UPLOAD_SECRET,
+    apiToken: API_TOKEN,
   });
   for (const product of products) {
     references.push({
@@ -118,7 +118,7 @@ async function getProductReferences(): Promise<StorageReference[]> {
 async function getReviewReferences(): Promise<StorageReference[]> {
   const references: StorageReference[] = [];
   const reviews = await client.query(api.reviews.getAllWithImages, {
-    uploadSecret: UPLOAD_SECRET,
+    apiToken: API_TOKEN,
   });
   for (const review of reviews) {
     // biome-ignore lint/style/noNonNullAssertion: safe by query
@@ -137,7 +137,7 @@ async function getReviewReferences(): Promise<StorageReference[]> {
 async function getUserReferences(): Promise<StorageReference[]> {
   const references: StorageReference[] = [];
   const users = await client.query(api.users.getAllWithImages, {
-    uploadSecret: UPLOAD_SECRET,
+    apiToken: API_TOKEN,
   });
   for (const user of users) {
     references.push({
@@ -195,7 +195,7 @@ async function findDanglingFiles(): Promise<DanglingFile[]> {
   try {
     const metadataResults = await client.query(api.storage.getStorageMetadata, {
       storageIds: danglingStorageIds,
-      uploadSecret: UPLOAD_SECRET,
+      apiToken: API_TOKEN,
     });
 
     for (const result of metadataResults) {
@@ -249,10 +249,10 @@ function displayDanglingFiles(files: DanglingFile[]): void {
 }
 
 async function performDeletion(files: DanglingFile[]): Promise<void> {
-  const uploadSecret = process.env.CONVEX_UPLOAD_SECRET;
-  if (!uploadSecret) {
+  const apiToken = process.env.JANJUM_API_TOKEN;
+  if (!apiToken) {
     logger.error(
-      "CONVEX_UPLOAD_SECRET environment variable is required for deletion"
+      "JANJUM_API_TOKEN environment variable is required for deletion"
     );
     return;
   }
@@ -274,7 +274,7 @@ async function performDeletion(files: DanglingFile[]): Promise<void> {
 
       const result = await client.mutation(api.storage.deleteStorageFiles, {
         storageIds,
-        uploadSecret,
+        apiToken,
       });
 
       totalDeleted += result.successCount;
@@ -335,7 +335,7 @@ async function showStorageStats() {
   try {
     logger.info("Fetching storage statistics...");
     const stats = await client.query(api.storage.getStorageStats, {
-      uploadSecret: UPLOAD_SECRET,
+      apiToken: API_TOKEN,
     });
 
     logger.info(`Storage Statistics:
@@ -366,7 +366,7 @@ by any database records and optionally removes them.
 
 Environment variables required:
   VITE_CONVEX_URL      Your Convex deployment URL
-  CONVEX_UPLOAD_SECRET Upload secret for file operations (required for deletion)
+  JANJUM_API_TOKEN     API token with the "storage" scope
 
 Examples:
   # Dry run (list dangling files without deleting)
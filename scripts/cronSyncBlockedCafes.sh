@@ -7,10 +7,4 @@ set -e
 
 BLOCKED_CAFES=("compose" "oozy")
 
-for cafe in "${BLOCKED_CAFES[@]}"; do
-  echo "=== Syncing $cafe ==="
-  pnpm run crawl "$cafe"
-  pnpm run categorize "$cafe"
-  pnpm run upload "$cafe"
-  echo "=== Done: $cafe ==="
-done
+pnpm run sync "${BLOCKED_CAFES[@]}"
@@ -1,6 +1,4 @@
 #! /bin/bash
 # sync data to production
 
-pnpm run crawl "$1"
-pnpm run categorize "$1"
-pnpm dotenv -e .env.prod-upload -- pnpm run upload "$1"
+pnpm dotenv -e .env.prod-upload -- pnpm run sync "$@"
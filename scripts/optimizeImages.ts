@@ -7,15 +7,15 @@ import type { Id } from "../convex/_generated/dataModel";
 import { logger } from "../shared/logger";
 
 const CONVEX_URL = process.env.VITE_CONVEX_URL;
-const UPLOAD_SECRET = process.env.CONVEX_UPLOAD_SECRET;
+const API_TOKEN = process.env.JANJUM_API_TOKEN;
 
 if (!CONVEX_URL) {
   logger.error("CONVEX_URL environment variable is required");
   process.exit(1);
 }
 
-if (!UPLOAD_SECRET) {
-  logger.error("CONVEX_UPLOAD_SECRET environment variable is required");
+if (!API_TOKEN) {
+  logger.error("JANJUM_API_TOKEN environment variable is required");
   process.exit(1);
 }
 
@@ -111,7 +111,7 @@ class ImageOptimizer {
     try {
       // Generate upload URL
       const uploadUrl = await convex.mutation(api.http.generateUploadUrl, {
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
 
       // Upload the optimized image
@@ -204,7 +204,7 @@ class ImageOptimizer {
     try {
       // Get all products with images
       const products = await convex.query(api.products.getAllWithImages, {
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
 
       logger.info(`Found ${products.length} products with images to process`);
@@ -228,7 +228,7 @@ class ImageOptimizer {
           await convex.mutation(api.products.updateImage, {
             productId: product._id,
             storageId: newStorageId,
-            uploadSecret: UPLOAD_SECRET,
+            apiToken: API_TOKEN,
           });
 
           logger.info(`Updated product ${product.name} with optimized image`);
@@ -249,7 +249,7 @@ class ImageOptimizer {
     try {
       // Get all cafes with images
       const cafes = await convex.query(api.cafes.getAllWithImages, {
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
 
       logger.info(`Found ${cafes.length} cafes with images to process`);
@@ -271,7 +271,7 @@ class ImageOptimizer {
           await convex.mutation(api.cafes.updateImage, {
             cafeId: cafe._id,
             storageId: newStorageId,
-            uploadSecret: UPLOAD_SECRET,
+            apiToken: API_TOKEN,
           });
 
           logger.info(`Updated cafe ${cafe.name} with optimized image`);
@@ -292,7 +292,7 @@ class ImageOptimizer {
     try {
       // Get all users with images
       const users = await convex.query(api.users.getAllWithImages, {
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
 
       logger.info(`Found ${users.length} users with images to process`);
@@ -314,7 +314,7 @@ class ImageOptimizer {
           await convex.mutation(api.users.updateImage, {
             userId: user._id,
             storageId: newStorageId,
-            uploadSecret: UPLOAD_SECRET,
+            apiToken: API_TOKEN,
           });
 
           logger.info(`Updated user ${user.name} with optimized image`);
@@ -335,7 +335,7 @@ class ImageOptimizer {
     try {
       // Get all reviews with images
       const reviews = await convex.query(api.reviews.getAllWithImages, {
-        uploadSecret: UPLOAD_SECRET,
+        apiToken: API_TOKEN,
       });
 
       logger.info(`Found ${reviews.length} reviews with images to process`);
@@ -361,7 +361,7 @@ class ImageOptimizer {
         await convex.mutation(api.reviews.updateImages, {
           reviewId: review._id,
           imageStorageIds: optimizedImageIds,
-          uploadSecret: UPLOAD_SECRET,
+          apiToken: API_TOKEN,
         });
 
         logger.info("Updated review with optimized images");
@@ -0,0 +1,34 @@
+import type { Nutritions } from "./nutritions";
+
+/**
+ * A run is flagged when it found less than this share of the previous run's
+ * products, which usually means the crawler broke rather than the menu shrank.
+ */
+export const SHARP_DROP_RATIO = 0.7;
+
+/** Product count and how many of them came with nutrition data */
+export function summarizeCrawlOutput(
+  products: { nutritions?: Partial<Record<keyof Nutritions, unknown>> | null }[]
+): { nutritionCount: number; productCount: number } {
+  return {
+    productCount: products.length,
+    nutritionCount: products.filter(
+      (product) =>
+        product.nutritions &&
+        Object.values(product.nutritions).some(
+          (value) => typeof value === "number"
+        )
+    ).length,
+  };
+}
+
+export function isSharpDrop(
+  previousCount: number | undefined,
+  productCount: number
+): boolean {
+  return (
+    previousCount !== undefined &&
+    previousCount > 0 &&
+    productCount < previousCount * SHARP_DROP_RATIO
+  );
+}
@@ -0,0 +1,260 @@
+import { z } from "zod";
+import type { Nutritions } from "./nutritions";
+import { PRODUCT_TAGS, type ProductTag } from "./tags";
+
+/**
+ * Schema of a product in the crawler output files, checked when a crawler
+ * writes its file, when the categorizer reads it and on upload (both in the
+ * uploader CLI and in `dataUploader.uploadProductsFromJson`). Besides types
+ * it rejects implausible nutrition values, which usually mean the crawler
+ * read the wrong table cell. A missing serving size is only a warning, since
+ * some cafes (e.g. Coffee Bean) do not list one.
+ */
+
+// Crawlers write null for values the cafe does not list
+export type CrawledNutritions = {
+  [K in keyof Nutritions]?: Nutritions[K] | null;
+};
+
+export const MAX_CALORIES = 2000;
+
+const amountSchema = z.number().nonnegative().nullish();
+const unitSchema = z.string().nullish();
+
+// `satisfies` keeps the field set in step with the Convex validator: a field
+// added to or removed from `Nutritions` fails the type check here
+const nutritionsShape = {
+  servingSize: amountSchema,
+  servingSizeUnit: unitSchema,
+  calories: amountSchema,
+  caloriesUnit: unitSchema,
+  carbohydrates: amountSchema,
+  carbohydratesUnit: unitSchema,
+  sugar: amountSchema,
+  sugarUnit: unitSchema,
+  protein: amountSchema,
+  proteinUnit: unitSchema,
+  fat: amountSchema,
+  fatUnit: unitSchema,
+  transFat: amountSchema,
+  transFatUnit: unitSchema,
+  saturatedFat: amountSchema,
+  saturatedFatUnit: unitSchema,
+  natrium: amountSchema,
+  natriumUnit: unitSchema,
+  cholesterol: amountSchema,
+  cholesterolUnit: unitSchema,
+  caffeine: amountSchema,
+  caffeineUnit: unitSchema,
+} satisfies Record<keyof Nutritions, z.ZodTypeAny>;
+
+const nutritionsSchema = z.object(
+  nutritionsShape
+) satisfies z.ZodType<CrawledNutritions>;
+
+const variantSchema = z.object({
+  size: z.string().min(1),
+  volume: z.number().positive().nullish(),
+  volumeUnit: z.string().nullish(),
+  price: z.number().nonnegative().nullish(),
+  nutritions: nutritionsSchema.nullish(),
+});
+
+function hasNutritionValues(nutritions: CrawledNutritions): boolean {
+  return Object.entries(nutritions).some(
+    ([key, value]) => key !== "servingSize" && typeof value === "number"
+  );
+}
+
+function checkNutritions(
+  nutritions: CrawledNutritions | null | undefined,
+  path: (string | number)[],
+  ctx: z.RefinementCtx
+) {
+  if (!nutritions) {
+    return;
+  }
+  const { calories, sugar, carbohydrates } = nutritions;
+
+  if (typeof calories === "number" && calories > MAX_CALORIES) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, "calories"],
+      message: `Calories must be between 0 and ${MAX_CALORIES}, got ${calories}`,
+    });
+  }
+  if (
+    typeof sugar === "number" &&
+    typeof carbohydrates === "number" &&
+    sugar > carbohydrates
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, "sugar"],
+      message: `Sugar (${sugar}) cannot exceed carbohydrates (${carbohydrates})`,
+    });
+  }
+}
+
+function lacksServingSize(nutritions?: CrawledNutritions | null): boolean {
+  return (
+    !!nutritions &&
+    typeof nutritions.servingSize !== "number" &&
+    hasNutritionValues(nutritions)
+  );
+}
+
+export const crawledProductSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    nameEn: z.string().nullable(),
+    description: z.string().nullable(),
+    externalId: z.string().min(1),
+    externalCategory: z.string(),
+    externalImageUrl: z.string(),
+    externalUrl: z.string(),
+    category: z.string().nullable(),
+    price: z.number().nonnegative().nullable(),
+    nutritions: nutritionsSchema.nullish(),
+    variants: z.array(variantSchema).nullish(),
+    // Added by the categorizer
+    tags: z
+      .array(z.enum(PRODUCT_TAGS as [ProductTag, ...ProductTag[]]))
+      .nullish(),
+    // Added by the uploader once the image is in Convex storage
+    imageStorageId: z.string().optional(),
+  })
+  .superRefine((product, ctx) => {
+    checkNutritions(product.nutritions, ["nutritions"], ctx);
+    for (const [index, variant] of (product.variants ?? []).entries()) {
+      checkNutritions(
+        variant.nutritions,
+        ["variants", index, "nutritions"],
+        ctx
+      );
+    }
+  });
+
+export type CrawledProduct = z.infer<typeof crawledProductSchema>;
+export type CrawledVariant = z.infer<typeof variantSchema>;
+
+/** Crawled nutritions without nulls; undefined when no value is left */
+export function cleanNutritions(
+  nutritions?: CrawledNutritions | null
+): Nutritions | undefined {
+  if (!nutritions) {
+    return;
+  }
+
+  const cleaned: Nutritions = {};
+
+  // Convert all null values to undefined
+  for (const [key, value] of Object.entries(nutritions)) {
+    if (value !== null) {
+      (cleaned as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  // Return undefined if no actual nutrition data exists
+  const hasData = Object.keys(cleaned).length > 0;
+  return hasData ? cleaned : undefined;
+}
+
+export interface ProductIssues {
+  index: number;
+  issues: string[];
+  // Name or external ID, whichever the invalid product has
+  product: string;
+}
+
+function describeProduct(product: unknown, index: number): string {
+  if (product && typeof product === "object") {
+    const { name, externalId } = product as Record<string, unknown>;
+    if (typeof name === "string" && name) {
+      return name;
+    }
+    if (typeof externalId === "string" && externalId) {
+      return externalId;
+    }
+  }
+  return `#${index + 1}`;
+}
+
+function getWarnings(product: CrawledProduct): string[] {
+  const warnings: string[] = [];
+  if (lacksServingSize(product.nutritions)) {
+    warnings.push(
+      "nutritions.servingSize: missing while nutrition values are present"
+    );
+  }
+  for (const [index, variant] of (product.variants ?? []).entries()) {
+    if (lacksServingSize(variant.nutritions)) {
+      warnings.push(
+        `variants.${index}.nutritions.servingSize: missing while nutrition values are present`
+      );
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Split crawler output into valid products and a report of invalid ones.
+ * Warnings are about valid products.
+ */
+export function validateCrawledProducts(products: unknown[]): {
+  valid: CrawledProduct[];
+  invalid: ProductIssues[];
+  warnings: ProductIssues[];
+} {
+  const valid: CrawledProduct[] = [];
+  const invalid: ProductIssues[] = [];
+  const warnings: ProductIssues[] = [];
+
+  for (const [index, product] of products.entries()) {
+    const result = crawledProductSchema.safeParse(product);
+    if (result.success) {
+      valid.push(result.data);
+      const issues = getWarnings(result.data);
+      if (issues.length > 0) {
+        warnings.push({ index, product: result.data.name, issues });
+      }
+    } else {
+      invalid.push({
+        index,
+        product: describeProduct(product, index),
+        issues: result.error.issues.map(
+          (issue) => `${issue.path.join(".") || "(product)"}: ${issue.message}`
+        ),
+      });
+    }
+  }
+
+  return { valid, invalid, warnings };
+}
+
+/**
+ * External IDs the crawl saw, for marking the rest of the cafe's products as
+ * missing. Invalid products are included on purpose: failing validation
+ * usually means the crawler misread a value, not that the drink left the
+ * menu. Their last valid data stays live rather than being counted as a
+ * missed crawl and eventually shown as discontinued; the upload reports them
+ * as errors so the crawler gets fixed.
+ */
+export function getSeenExternalIds(products: unknown[]): string[] {
+  return products.flatMap((product) => {
+    if (product && typeof product === "object") {
+      const { externalId } = product as Record<string, unknown>;
+      if (typeof externalId === "string" && externalId) {
+        return [externalId];
+      }
+    }
+    return [];
+  });
+}
+
+/** One line per product, for logs and upload error lists */
+export function formatProductIssues(invalid: ProductIssues[]): string[] {
+  return invalid.map(
+    ({ product, issues }) => `${product}: ${issues.join("; ")}`
+  );
+}
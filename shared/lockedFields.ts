@@ -0,0 +1,13 @@
+import type { LockableField } from "../convex/lockedFields";
+
+// The LockableField type is derived from the Convex validator so the field set
+// is defined in exactly one place. See convex/lockedFields.ts.
+export type { LockableField } from "../convex/lockedFields";
+
+export const lockedFieldLabels: Record<LockableField, string> = {
+  name: "이름",
+  category: "카테고리",
+  nutritions: "영양 정보",
+  price: "가격",
+  isActive: "판매 상태",
+};
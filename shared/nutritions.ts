@@ -13,3 +13,6 @@ export const dailyStandardNutritions = {
   natrium: 2000,
   cholesterol: 300,
 } as const;
+
+// Maximum daily caffeine intake recommended for adults (mg)
+export const dailyCaffeineLimit = 400;
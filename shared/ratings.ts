@@ -1,3 +1,7 @@
+import type { SubRatings } from "../convex/reviewValidators";
+
+export type { SubRatings } from "../convex/reviewValidators";
+
 /**
  * Rating scale mapping for Korean labels
  */
@@ -21,3 +25,54 @@ export type RatingValue = (typeof RATING_VALUES)[number];
 export type RatingDistribution = {
   [key in RatingValue]: number;
 };
+
+/**
+ * Sub-ratings answered on a scale, with the label of each answer in the
+ * order they are shown
+ */
+export type ScaleSubRating = Exclude<keyof SubRatings, "wouldReorder">;
+
+export const SUB_RATING_SCALES: {
+  [K in ScaleSubRating]: {
+    name: string;
+    options: Record<NonNullable<SubRatings[K]>, string>;
+  };
+} = {
+  sweetness: {
+    name: "단맛",
+    options: {
+      tooLittle: "덜 달아요",
+      justRight: "적당해요",
+      tooMuch: "너무 달아요",
+    },
+  },
+  strength: {
+    name: "진하기",
+    options: { weak: "연해요", justRight: "적당해요", strong: "진해요" },
+  },
+  value: {
+    name: "가성비",
+    options: { poor: "비싸요", fair: "적당해요", good: "만족해요" },
+  },
+};
+
+export const SCALE_SUB_RATINGS = Object.keys(
+  SUB_RATING_SCALES
+) as ScaleSubRating[];
+
+export const WOULD_REORDER_LABEL = "재주문 의사";
+
+export const WOULD_REORDER_OPTIONS = {
+  yes: "또 마실래요",
+  no: "한 번이면 충분해요",
+} as const;
+
+/**
+ * Answer counts per sub-rating; reviews that skipped a criterion are not
+ * counted for it
+ */
+export type SubRatingStats = {
+  [K in ScaleSubRating]: Record<NonNullable<SubRatings[K]>, number>;
+} & {
+  wouldReorder: { yes: number; no: number };
+};
@@ -0,0 +1,10 @@
+import type { ReportReason } from "../convex/moderationValidators";
+
+export type { ReportReason } from "../convex/moderationValidators";
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  spam: "스팸/광고",
+  offensive: "욕설/비방",
+  irrelevant: "음료와 관련 없는 내용",
+  other: "기타",
+};
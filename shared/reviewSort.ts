@@ -0,0 +1,11 @@
+import type { ReviewSort } from "../convex/reviewValidators";
+
+export type { ReviewSort } from "../convex/reviewValidators";
+
+export const reviewSortLabels: Record<ReviewSort, string> = {
+  newest: "최신순",
+  helpful: "도움돼요순",
+  highestRating: "평점 높은순",
+  lowestRating: "평점 낮은순",
+  withPhotos: "사진 후기",
+};
@@ -0,0 +1,16 @@
+import type { UserRole } from "../convex/adminValidators";
+
+// The UserRole type is derived from the Convex validator so the role set is
+// defined in exactly one place. See convex/adminValidators.ts.
+export type { UserRole } from "../convex/adminValidators";
+
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/** Users without a stored role are regular users; admins can do everything */
+export function hasRole(role: UserRole | undefined, required: UserRole) {
+  return ROLE_RANK[role ?? "user"] >= ROLE_RANK[required];
+}
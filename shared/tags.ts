@@ -0,0 +1,17 @@
+import type { ProductTag } from "../convex/productTags";
+
+// The ProductTag type is derived from the Convex validator so the tag set is
+// defined in exactly one place. See convex/productTags.ts.
+export type { ProductTag } from "../convex/productTags";
+
+export const productTagLabels: Record<ProductTag, string> = {
+  decaf: "디카페인 가능",
+  "caffeine-free": "논카페인",
+  "contains-dairy": "유제품 포함",
+  "vegan-option": "비건 옵션",
+  seasonal: "시즌",
+  limited: "한정",
+  "sugar-free": "무설탕",
+};
+
+export const PRODUCT_TAGS = Object.keys(productTagLabels) as ProductTag[];
@@ -0,0 +1,19 @@
+import type { ProductVariant } from "../convex/productVariantValidator";
+import type { Nutritions } from "./nutritions";
+
+// The ProductVariant type is derived from the Convex validator so the field set
+// is defined in exactly one place. See convex/productVariantValidator.ts.
+export type { ProductVariant } from "../convex/productVariantValidator";
+
+/**
+ * Nutritions to show for a product: its own, or the first size's when only
+ * per-size values were crawled.
+ */
+export function getDefaultNutritions(
+  nutritions: Nutritions | null | undefined,
+  variants: ProductVariant[] | undefined
+): Nutritions | undefined {
+  return (
+    nutritions ?? variants?.find((variant) => variant.nutritions)?.nutritions
+  );
+}
@@ -0,0 +1,74 @@
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Id } from "convex/_generated/dataModel";
+import { type MouseEvent, useState } from "react";
+import { showToast } from "~/utils/toast";
+import { api } from "../../convex/_generated/api";
+import { SignInModal } from "./auth/SignInModal";
+import { BookmarkIcon } from "./icons/BookmarkIcon";
+
+// Saves the product to the user's "마실 목록" shown on /profile
+export function BookmarkButton({
+  productId,
+  className,
+}: {
+  productId: Id<"products">;
+  className?: string;
+}) {
+  const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
+  // Shared by every button on the page, see getMyBookmarkedProductIds
+  const { data: bookmarkedIds = [] } = useQuery({
+    ...convexQuery(api.bookmarks.getMyBookmarkedProductIds, {}),
+    enabled: !!currentUser,
+  });
+  const [showSignInModal, setShowSignInModal] = useState(false);
+  const isBookmarked = bookmarkedIds.includes(productId);
+
+  const toggleMutation = useMutation({
+    mutationFn: useConvexMutation(api.bookmarks.toggleBookmark),
+  });
+
+  const handleClick = async (event: MouseEvent<HTMLButtonElement>) => {
+    // ProductCard wraps the whole card in a link
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (!currentUser) {
+      setShowSignInModal(true);
+      return;
+    }
+    try {
+      const { bookmarked } = await toggleMutation.mutateAsync({ productId });
+      showToast(
+        bookmarked
+          ? "마실 목록에 저장했습니다."
+          : "마실 목록에서 삭제했습니다.",
+        "success"
+      );
+    } catch {
+      showToast("저장에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return (
+    <>
+      <button
+        aria-label={isBookmarked ? "마실 목록에서 삭제" : "마실 목록에 저장"}
+        aria-pressed={isBookmarked}
+        className={`btn btn-ghost btn-xs btn-square ${isBookmarked ? "text-primary" : ""} ${className ?? ""}`}
+        disabled={toggleMutation.isPending}
+        onClick={handleClick}
+        type="button"
+      >
+        <BookmarkIcon
+          aria-hidden="true"
+          fill={isBookmarked ? "currentColor" : "none"}
+          size="sm"
+        />
+      </button>
+      {showSignInModal && (
+        <SignInModal isOpen onClose={() => setShowSignInModal(false)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import { Link, useLocation } from "@tanstack/react-router";
+import { MAX_COMPARE_PRODUCTS, useCompareList } from "~/hooks/useCompareList";
+
+// Floating shortcut to /compare while products are selected
+export function CompareBar() {
+  const { shortIds, clear } = useCompareList();
+  const isComparePage = useLocation().pathname === "/compare";
+
+  if (shortIds.length === 0 || isComparePage) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+      <div className="flex items-center gap-2 rounded-box bg-base-100 p-2 shadow-lg">
+        <Link
+          className="btn btn-primary btn-sm"
+          search={{ ids: shortIds.join(",") }}
+          to="/compare"
+        >
+          비교하기 ({shortIds.length}/{MAX_COMPARE_PRODUCTS})
+        </Link>
+        <button className="btn btn-ghost btn-sm" onClick={clear} type="button">
+          비우기
+        </button>
+      </div>
+    </div>
+  );
+}
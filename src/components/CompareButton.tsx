@@ -0,0 +1,42 @@
+import type { MouseEvent } from "react";
+import { MAX_COMPARE_PRODUCTS, useCompareList } from "~/hooks/useCompareList";
+import { showToast } from "~/utils/toast";
+
+export function CompareButton({
+  shortId,
+  className,
+}: {
+  shortId: string;
+  className?: string;
+}) {
+  const { shortIds, add, remove } = useCompareList();
+  const isSelected = shortIds.includes(shortId);
+
+  const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+    // ProductCard wraps the whole card in a link
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (isSelected) {
+      remove(shortId);
+      return;
+    }
+    if (!add(shortId)) {
+      showToast(
+        `최대 ${MAX_COMPARE_PRODUCTS}개까지 비교할 수 있습니다.`,
+        "error"
+      );
+    }
+  };
+
+  return (
+    <button
+      aria-pressed={isSelected}
+      className={`btn btn-xs ${isSelected ? "btn-primary" : "btn-outline"} ${className ?? ""}`}
+      onClick={handleClick}
+      type="button"
+    >
+      {isSelected ? "비교 중" : "비교에 추가"}
+    </button>
+  );
+}
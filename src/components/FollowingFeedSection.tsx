@@ -0,0 +1,64 @@
+import { Link } from "@tanstack/react-router";
+import { usePaginatedQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { ReviewInUserPage } from "./reviews/ReviewInUserPage";
+
+const FEED_PAGE_SIZE = 10;
+
+// "팔로잉" feed on the home page; hidden until followed users have reviews
+export function FollowingFeedSection() {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.reviews.getFollowingFeed,
+    {},
+    { initialNumItems: FEED_PAGE_SIZE }
+  );
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h2 className="mb-6 font-bold text-3xl">팔로잉</h2>
+      <div className="card bg-base-100 shadow-md">
+        <div className="card-body space-y-4">
+          {results.map((review) => (
+            <div key={review._id}>
+              {review.author && (
+                <Link
+                  className="mb-1 flex items-center gap-2 font-semibold text-sm"
+                  params={{ handle: review.author.handle }}
+                  to="/user/$handle"
+                >
+                  {review.author.imageUrl && (
+                    <img
+                      alt=""
+                      className="h-6 w-6 rounded-full object-cover"
+                      height={24}
+                      src={review.author.imageUrl}
+                      width={24}
+                    />
+                  )}
+                  {review.author.name}
+                </Link>
+              )}
+              <ReviewInUserPage review={review} />
+            </div>
+          ))}
+          {status === "CanLoadMore" && (
+            <button
+              className="btn btn-ghost btn-sm self-center"
+              onClick={() => loadMore(FEED_PAGE_SIZE)}
+              type="button"
+            >
+              더 보기
+            </button>
+          )}
+          {status === "LoadingMore" && (
+            <span className="loading loading-spinner loading-sm self-center" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,12 @@ export function Footer() {
             >
               검색
             </Link>
+            <Link
+              className="text-base-content/70 text-sm transition-colors hover:text-primary"
+              to="/changes"
+            >
+              메뉴 변경
+            </Link>
             <Link
               className="text-base-content/70 text-sm transition-colors hover:text-primary"
               to="/profile"
@@ -0,0 +1,68 @@
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Id } from "convex/_generated/dataModel";
+import { useState } from "react";
+import type { ProductVariant } from "shared/variants";
+import { showToast } from "~/utils/toast";
+import { api } from "../../convex/_generated/api";
+import { SignInModal } from "./auth/SignInModal";
+
+interface LogIntakeButtonProps {
+  productId: Id<"products">;
+  variants?: ProductVariant[];
+}
+
+// "마셨어요" button that adds the product to the user's intake log
+export function LogIntakeButton({ productId, variants }: LogIntakeButtonProps) {
+  const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
+  const [size, setSize] = useState<string | undefined>(variants?.[0]?.size);
+  const [showSignInModal, setShowSignInModal] = useState(false);
+
+  const logMutation = useMutation({
+    mutationFn: useConvexMutation(api.intakeLogs.log),
+  });
+
+  const handleLog = async () => {
+    if (!currentUser) {
+      setShowSignInModal(true);
+      return;
+    }
+    try {
+      await logMutation.mutateAsync({ productId, size });
+      showToast("오늘 마신 음료에 추가했습니다.", "success");
+    } catch {
+      showToast("기록에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {variants && variants.length > 1 && (
+        <select
+          aria-label="사이즈"
+          className="select select-bordered select-xs w-auto"
+          onChange={(e) => setSize(e.target.value)}
+          value={size}
+        >
+          {variants.map((variant) => (
+            <option key={variant.size} value={variant.size}>
+              {variant.size}
+            </option>
+          ))}
+        </select>
+      )}
+      <button
+        className="btn btn-outline btn-xs"
+        disabled={logMutation.isPending}
+        onClick={handleLog}
+        type="button"
+      >
+        마셨어요
+      </button>
+      <SignInModal
+        isOpen={showSignInModal}
+        onClose={() => setShowSignInModal(false)}
+      />
+    </div>
+  );
+}
@@ -12,16 +12,6 @@ export const recentProductsQueryOptions = {
   staleTime: STALE_TIME,
 };
 
-export const NEW_PRODUCTS_PAGE_SIZE = 40;
-
-export const recentProductsPageQueryOptions = (offset: number) => ({
-  ...convexQuery(api.products.getRecent, {
-    limit: NEW_PRODUCTS_PAGE_SIZE,
-    offset,
-  }),
-  staleTime: STALE_TIME,
-});
-
 export function NewProductsSection() {
   const { data } = useSuspenseQuery(recentProductsQueryOptions);
   const reviewStats = useProductReviewStats(
@@ -1,12 +1,16 @@
 import type { Nutritions } from "shared/nutritions";
+import { getDefaultNutritions, type ProductVariant } from "shared/variants";
 import { NutritionTable } from "./NutritionTable";
 
 export const NutritionDialogButton = ({
   nutritions,
+  variants,
 }: {
   nutritions: Nutritions | undefined;
+  variants?: ProductVariant[];
 }) => {
-  if (!nutritions) {
+  const defaultNutritions = getDefaultNutritions(nutritions, variants);
+  if (!defaultNutritions) {
     return null;
   }
 
@@ -25,7 +29,7 @@ export const NutritionDialogButton = ({
       </button>
       <dialog className="modal" id="nutritions-modal">
         <div className="modal-box w-auto p-0">
-          <NutritionTable nutritions={nutritions} />
+          <NutritionTable nutritions={defaultNutritions} variants={variants} />
         </div>
         <form className="modal-backdrop" method="dialog">
           <button type="submit">close</button>
@@ -0,0 +1,68 @@
+import type { ProductFilterValues } from "~/utils/productFilters";
+
+const calorieOptions = [100, 200, 300];
+const sugarOptions = [5, 10, 20];
+
+interface NutritionFiltersProps {
+  onChange: (filters: Partial<ProductFilterValues>) => void;
+  value: ProductFilterValues;
+}
+
+function parseLimit(value: string): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+export function NutritionFilters({ value, onChange }: NutritionFiltersProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="칼로리"
+        className="select select-bordered select-sm w-auto"
+        onChange={(e) => onChange({ maxCalories: parseLimit(e.target.value) })}
+        value={value.maxCalories ?? ""}
+      >
+        <option value="">칼로리 전체</option>
+        {calorieOptions.map((calories) => (
+          <option key={calories} value={calories}>
+            {calories}kcal 이하
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="당류"
+        className="select select-bordered select-sm w-auto"
+        onChange={(e) => onChange({ maxSugar: parseLimit(e.target.value) })}
+        value={value.maxSugar ?? ""}
+      >
+        <option value="">당류 전체</option>
+        {sugarOptions.map((sugar) => (
+          <option key={sugar} value={sugar}>
+            당류 {sugar}g 이하
+          </option>
+        ))}
+      </select>
+      <label className="label cursor-pointer gap-2 text-sm">
+        <input
+          checked={value.caffeineFree ?? false}
+          className="checkbox checkbox-sm"
+          onChange={(e) =>
+            onChange({ caffeineFree: e.target.checked || undefined })
+          }
+          type="checkbox"
+        />
+        카페인 없음
+      </label>
+      <label className="label cursor-pointer gap-2 text-sm">
+        <input
+          checked={value.hasNutrition ?? false}
+          className="checkbox checkbox-sm"
+          onChange={(e) =>
+            onChange({ hasNutrition: e.target.checked || undefined })
+          }
+          type="checkbox"
+        />
+        영양정보 있음
+      </label>
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
 import type { Nutritions } from "~/../../shared/nutritions";
+import {
+  getDefaultNutritions,
+  type ProductVariant,
+} from "~/../../shared/variants";
 import { NutritionDialogButton } from "./NutritionDialogButton";
 import { NutritionLevels } from "./NutritionLevels";
 
 export interface NutritionInfoSectionProps {
   nutritions?: Nutritions | null;
+  variants?: ProductVariant[];
 }
 
 export function NutritionInfoSection({
   nutritions,
+  variants,
 }: NutritionInfoSectionProps) {
-  if (!nutritions) {
+  const defaultNutritions = getDefaultNutritions(nutritions, variants);
+  if (!defaultNutritions) {
     return null;
   }
 
@@ -17,10 +24,13 @@ export function NutritionInfoSection({
     <div className="max-w-3xs space-y-2">
       <div className="flex justify-between">
         <h4 className="font-medium text-base-content/80">영양 정보</h4>
-        <NutritionDialogButton nutritions={nutritions} />
+        <NutritionDialogButton
+          nutritions={defaultNutritions}
+          variants={variants}
+        />
       </div>
       {/* Progress visualization */}
-      <NutritionLevels nutritions={nutritions} />
+      <NutritionLevels nutritions={defaultNutritions} />
     </div>
   );
 }
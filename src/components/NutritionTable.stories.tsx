@@ -50,3 +50,46 @@ export const Secondary: Story = {
     },
   },
 };
+
+export const WithVariants: Story = {
+  args: {
+    nutritions: {
+      servingSize: 355,
+      servingSizeUnit: "ml",
+      calories: 10,
+      caloriesUnit: "kcal",
+      caffeine: 150,
+      caffeineUnit: "mg",
+    },
+    variants: [
+      {
+        size: "Tall",
+        volume: 355,
+        volumeUnit: "ml",
+        price: 4700,
+        nutritions: {
+          servingSize: 355,
+          servingSizeUnit: "ml",
+          calories: 10,
+          caloriesUnit: "kcal",
+          caffeine: 150,
+          caffeineUnit: "mg",
+        },
+      },
+      {
+        size: "Grande",
+        volume: 473,
+        volumeUnit: "ml",
+        price: 5200,
+        nutritions: {
+          servingSize: 473,
+          servingSizeUnit: "ml",
+          calories: 15,
+          caloriesUnit: "kcal",
+          caffeine: 225,
+          caffeineUnit: "mg",
+        },
+      },
+    ],
+  },
+};
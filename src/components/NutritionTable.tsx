@@ -1,4 +1,6 @@
+import { useState } from "react";
 import { dailyStandardNutritions, type Nutritions } from "shared/nutritions";
+import type { ProductVariant } from "shared/variants";
 
 const NutrationRow = ({
   label,
@@ -71,9 +73,37 @@ export const nutritionItems: NutritionItem[] = [
   { key: "caffeine", name: "카페인" },
 ];
 
-export const NutritionTable = ({ nutritions }: { nutritions: Nutritions }) => {
+export const NutritionTable = ({
+  nutritions: defaultNutritions,
+  variants,
+}: {
+  nutritions: Nutritions;
+  variants?: ProductVariant[];
+}) => {
+  const sizes = variants?.filter((variant) => variant.nutritions) ?? [];
+  const [selectedSize, setSelectedSize] = useState(sizes.at(0)?.size);
+  const nutritions =
+    sizes.find((variant) => variant.size === selectedSize)?.nutritions ??
+    defaultNutritions;
+
   return (
     <div className="max-w-3xs border-4 border-black bg-white text-black">
+      {sizes.length > 1 && (
+        <div className="tabs tabs-box rounded-none" role="tablist">
+          {sizes.map((variant) => (
+            <button
+              aria-selected={variant.size === selectedSize}
+              className={`tab flex-1 ${variant.size === selectedSize ? "tab-active" : ""}`}
+              key={variant.size}
+              onClick={() => setSelectedSize(variant.size)}
+              role="tab"
+              type="button"
+            >
+              {variant.size}
+            </button>
+          ))}
+        </div>
+      )}
       <table className="table">
         <thead>
           <tr>
@@ -0,0 +1,104 @@
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 64;
+const CHART_PADDING = 6;
+
+interface PriceHistoryEntry {
+  previousPrice?: number;
+  price: number;
+  recordedAt: number;
+}
+
+interface PriceHistoryChartProps {
+  entries: PriceHistoryEntry[];
+}
+
+interface PricePoint {
+  price: number;
+  // Undefined for the price a product had before tracking began
+  recordedAt?: number;
+}
+
+function formatShortDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear() % 100}.${date.getMonth() + 1}.${date.getDate()}`;
+}
+
+// Products priced before tracking began have no entry for their original
+// price, so the first change's previous price becomes the starting point
+function toPricePoints(entries: PriceHistoryEntry[]): PricePoint[] {
+  const first = entries[0];
+  if (first?.previousPrice === undefined) {
+    return entries;
+  }
+  return [{ price: first.previousPrice }, ...entries];
+}
+
+function formatPointLabel(point: PricePoint): string {
+  const date =
+    point.recordedAt === undefined ? "이전" : formatShortDate(point.recordedAt);
+  return `${date} ${point.price.toLocaleString()}원`;
+}
+
+export function PriceHistoryChart({ entries }: PriceHistoryChartProps) {
+  const pricePoints = toPricePoints(entries);
+
+  // A single price is not a change; nothing to chart yet
+  if (pricePoints.length < 2) {
+    return null;
+  }
+
+  const prices = pricePoints.map((point) => point.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const priceRange = maxPrice - minPrice || 1;
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  // Points are spaced evenly since changes are rare and irregular in time
+  const points = pricePoints.map((point, index) => ({
+    x: CHART_PADDING + (index / (pricePoints.length - 1)) * innerWidth,
+    y:
+      CHART_PADDING +
+      innerHeight -
+      ((point.price - minPrice) / priceRange) * innerHeight,
+  }));
+
+  // Prices hold until the next change, so draw a step line
+  const path = points
+    .map((point, index) => {
+      if (index === 0) {
+        return `M ${point.x} ${point.y}`;
+      }
+      return `H ${point.x} V ${point.y}`;
+    })
+    .join(" ");
+
+  const first = pricePoints[0];
+  const last = pricePoints.at(-1) ?? first;
+
+  return (
+    <div className="space-y-1">
+      <svg
+        aria-label="가격 변동 그래프"
+        className="w-full max-w-60 text-primary"
+        role="img"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      >
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+        {points.map((point, index) => (
+          <circle
+            cx={point.x}
+            cy={point.y}
+            fill="currentColor"
+            key={pricePoints[index].recordedAt ?? "start"}
+            r={3}
+          />
+        ))}
+      </svg>
+      <div className="flex max-w-60 justify-between text-base-content/60 text-xs">
+        <span>{formatPointLabel(first)}</span>
+        <span>{formatPointLabel(last)}</span>
+      </div>
+    </div>
+  );
+}
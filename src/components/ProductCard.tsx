@@ -1,8 +1,11 @@
 import { Link } from "@tanstack/react-router";
+import { Authenticated } from "convex/react";
 import type { ComponentProps } from "react";
 
 import type { Doc } from "../../convex/_generated/dataModel";
 import { RatingSummary } from "../components/RatingSummary";
+import { BookmarkButton } from "./BookmarkButton";
+import { CompareButton } from "./CompareButton";
 
 type ReviewStats = ComponentProps<typeof RatingSummary>["reviewStats"];
 
@@ -79,6 +82,13 @@ export function ProductCard({
               </p>
             )}
           </div>
+          <div className="flex items-center gap-1">
+            {/* The sign-in modal can't open inside the card link */}
+            <Authenticated>
+              <BookmarkButton productId={product._id} />
+            </Authenticated>
+            <CompareButton shortId={product.shortId} />
+          </div>
         </div>
       </div>
     </Link>
@@ -0,0 +1,34 @@
+import { PRODUCT_TAGS, type ProductTag, productTagLabels } from "shared/tags";
+
+interface TagFilterProps {
+  onChange: (tags: ProductTag[] | undefined) => void;
+  selectedTags: ProductTag[] | undefined;
+}
+
+export function TagFilter({ selectedTags = [], onChange }: TagFilterProps) {
+  const toggle = (tag: ProductTag) => {
+    const tags = selectedTags.includes(tag)
+      ? selectedTags.filter((selected) => selected !== tag)
+      : [...selectedTags, tag];
+    onChange(tags.length ? tags : undefined);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {PRODUCT_TAGS.map((tag) => {
+        const isSelected = selectedTags.includes(tag);
+        return (
+          <button
+            aria-pressed={isSelected}
+            className={`btn btn-xs rounded-full ${isSelected ? "btn-secondary" : "btn-ghost bg-base-100"}`}
+            key={tag}
+            onClick={() => toggle(tag)}
+            type="button"
+          >
+            {productTagLabels[tag]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { FunctionReturnType } from "convex/server";
+import { useState } from "react";
+import { formatDateTime } from "~/utils/dateFormat";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+
+type BackdateResult = FunctionReturnType<
+  typeof api.products.backdateReimportedProducts
+>;
+
+// Moves a re-imported menu out of the "new products" list, preview first
+export function BackdatePanel() {
+  const { data: cafes } = useQuery(convexQuery(api.cafes.list, {}));
+  const [cafeSlug, setCafeSlug] = useState("");
+  const [importedBefore, setImportedBefore] = useState("");
+  const [preview, setPreview] = useState<BackdateResult | null>(null);
+
+  const backdate = useMutation({
+    mutationFn: useConvexMutation(api.products.backdateReimportedProducts),
+  });
+
+  const run = async (dryRun: boolean) => {
+    try {
+      const result = await backdate.mutateAsync({
+        cafeSlug,
+        importedBefore: importedBefore
+          ? new Date(importedBefore).getTime()
+          : undefined,
+        dryRun,
+      });
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      setPreview(null);
+      showToast(`${result.count}개 상품의 등록일을 옮겼습니다.`, "success");
+    } catch {
+      showToast("실행에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  const resetPreview = () => setPreview(null);
+
+  return (
+    <section className="card bg-base-100 shadow-sm">
+      <div className="card-body gap-4">
+        <h2 className="card-title">재수집 상품 등록일 되돌리기</h2>
+        <p className="text-base-content/60 text-sm">
+          카페 메뉴가 새 ID로 다시 수집되어 신상품 목록을 채운 경우, 최근 30일
+          안에 등록된 상품의 등록일을 카페 등록 시점으로 옮깁니다.
+        </p>
+        <div className="flex flex-wrap items-end gap-2">
+          <select
+            aria-label="카페"
+            className="select select-bordered select-sm"
+            onChange={(e) => {
+              setCafeSlug(e.target.value);
+              resetPreview();
+            }}
+            value={cafeSlug}
+          >
+            <option disabled value="">
+              카페 선택
+            </option>
+            {cafes?.map((cafe) => (
+              <option key={cafe._id} value={cafe.slug}>
+                {cafe.name}
+              </option>
+            ))}
+          </select>
+          <label className="floating-label">
+            <span>이 날짜 이전 등록분만 (선택)</span>
+            <input
+              className="input input-bordered input-sm"
+              onChange={(e) => {
+                setImportedBefore(e.target.value);
+                resetPreview();
+              }}
+              type="datetime-local"
+              value={importedBefore}
+            />
+          </label>
+          <button
+            className="btn btn-outline btn-sm"
+            disabled={!cafeSlug || backdate.isPending}
+            onClick={() => run(true)}
+            type="button"
+          >
+            미리보기
+          </button>
+          <button
+            className="btn btn-warning btn-sm"
+            disabled={!preview || preview.count === 0 || backdate.isPending}
+            onClick={() => run(false)}
+            type="button"
+          >
+            적용
+          </button>
+        </div>
+
+        {preview && (
+          <div className="text-sm">
+            <p className="mb-2">
+              {preview.cafe}: {preview.count}개 상품을{" "}
+              {formatDateTime(preview.target)}(으)로 옮깁니다.
+            </p>
+            <ul className="list-inside list-disc text-base-content/70">
+              {preview.sample.map((item) => (
+                <li key={`${item.name}-${item.from}`}>
+                  {item.name} ({formatDateTime(item.from)})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 64;
+const BAR_GAP = 2;
+
+interface CrawlRunChartProps {
+  runs: {
+    _id: string;
+    productCount: number;
+    sharpDrop: boolean;
+    status: "succeeded" | "failed";
+  }[];
+}
+
+function getBarClassName(run: CrawlRunChartProps["runs"][number]) {
+  if (run.status === "failed") {
+    return "fill-error";
+  }
+  return run.sharpDrop ? "fill-warning" : "fill-primary";
+}
+
+// Product count per run; failed runs and sharp drops stand out in color
+export function CrawlRunChart({ runs }: CrawlRunChartProps) {
+  if (runs.length === 0) {
+    return null;
+  }
+
+  const maxCount = Math.max(...runs.map((run) => run.productCount), 1);
+  const barWidth = CHART_WIDTH / runs.length - BAR_GAP;
+
+  return (
+    <svg
+      aria-label="수집 상품 수 그래프"
+      className="w-full max-w-60"
+      role="img"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+    >
+      {runs.map((run, index) => {
+        // Failed runs found nothing; keep a stub so they remain visible
+        const height = Math.max(
+          (run.productCount / maxCount) * CHART_HEIGHT,
+          3
+        );
+        return (
+          <rect
+            className={getBarClassName(run)}
+            height={height}
+            key={run._id}
+            width={barWidth}
+            x={index * (barWidth + BAR_GAP)}
+            y={CHART_HEIGHT - height}
+          />
+        );
+      })}
+    </svg>
+  );
+}
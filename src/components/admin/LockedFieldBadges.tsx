@@ -0,0 +1,47 @@
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import type { Id } from "convex/_generated/dataModel";
+import { type LockableField, lockedFieldLabels } from "shared/lockedFields";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+
+// Hand-edited fields; unlocking lets the next crawler upload overwrite them
+export function LockedFieldBadges({
+  productId,
+  lockedFields,
+}: {
+  productId: Id<"products">;
+  lockedFields?: LockableField[];
+}) {
+  const unlockMutation = useMutation({
+    mutationFn: useConvexMutation(api.products.unlockField),
+  });
+
+  const handleUnlock = async (field: LockableField) => {
+    try {
+      await unlockMutation.mutateAsync({ productId, field });
+      showToast(`${lockedFieldLabels[field]} 잠금을 해제했습니다.`, "success");
+    } catch {
+      showToast("잠금 해제에 실패했습니다.", "error");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {lockedFields?.map((field) => (
+        <span className="badge badge-outline badge-sm gap-1" key={field}>
+          {lockedFieldLabels[field]}
+          <button
+            aria-label={`${lockedFieldLabels[field]} 잠금 해제`}
+            className="cursor-pointer text-base-content/60 hover:text-error"
+            disabled={unlockMutation.isPending}
+            onClick={() => handleUnlock(field)}
+            type="button"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import type { Doc, Id } from "convex/_generated/dataModel";
+import { useRef, useState } from "react";
+import type { Nutritions } from "shared/nutritions";
+import { nutritionItems } from "~/components/NutritionTable";
+import { CATEGORY_ORDER } from "~/utils/categories";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+
+type NutritionKey = keyof Nutritions;
+
+const NUTRITION_FIELDS: { key: NutritionKey; name: string }[] = [
+  { key: "servingSize", name: "총 내용량" },
+  { key: "calories", name: "칼로리" },
+  ...nutritionItems,
+];
+
+function toInputValue(value: unknown): string {
+  return value === undefined ? "" : String(value);
+}
+
+function parseNumber(value: string): number | undefined {
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+interface EditForm {
+  category: string;
+  isActive: boolean;
+  name: string;
+  nutritions: Partial<Record<NutritionKey, string>>;
+  price: string;
+}
+
+function toEditForm(product: Doc<"products">): EditForm {
+  return {
+    name: product.name,
+    category: product.category ?? "",
+    price: toInputValue(product.price),
+    isActive: product.isActive ?? true,
+    nutritions: Object.fromEntries(
+      NUTRITION_FIELDS.map(({ key }) => [
+        key,
+        toInputValue(product.nutritions?.[key]),
+      ])
+    ),
+  };
+}
+
+// Only fields that actually changed are sent, since each one gets locked
+function getEdits(product: Doc<"products">, form: EditForm) {
+  const edits: {
+    category?: string;
+    isActive?: boolean;
+    name?: string;
+    nutritions?: Nutritions;
+    price?: number;
+  } = {};
+
+  if (form.name.trim() && form.name.trim() !== product.name) {
+    edits.name = form.name.trim();
+  }
+  if (form.category && form.category !== product.category) {
+    edits.category = form.category;
+  }
+  const price = parseNumber(form.price);
+  if (price !== undefined && price !== product.price) {
+    edits.price = price;
+  }
+  if (form.isActive !== (product.isActive ?? true)) {
+    edits.isActive = form.isActive;
+  }
+
+  const nutritions: Nutritions = { ...product.nutritions };
+  let hasNutritionEdits = false;
+  for (const { key } of NUTRITION_FIELDS) {
+    const value = parseNumber(form.nutritions[key] ?? "");
+    if (value !== product.nutritions?.[key]) {
+      Object.assign(nutritions, { [key]: value });
+      hasNutritionEdits = true;
+    }
+  }
+  if (hasNutritionEdits) {
+    edits.nutritions = nutritions;
+  }
+
+  return edits;
+}
+
+export function ProductEditDialog({
+  product,
+}: {
+  product: Doc<"products"> & { cafeName: string };
+}) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [form, setForm] = useState(() => toEditForm(product));
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const updateDetails = useMutation({
+    mutationFn: useConvexMutation(api.products.updateDetails),
+  });
+  const generateUploadUrl = useMutation({
+    mutationFn: useConvexMutation(api.http.generateUploadUrl),
+  });
+  const updateImage = useMutation({
+    mutationFn: useConvexMutation(api.products.updateImage),
+  });
+  const deleteProduct = useMutation({
+    mutationFn: useConvexMutation(api.products.deleteProduct),
+  });
+
+  const open = () => {
+    setForm(toEditForm(product));
+    setConfirmDelete(false);
+    dialogRef.current?.showModal();
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await updateDetails.mutateAsync({
+        productId: product._id,
+        ...getEdits(product, form),
+      });
+      dialogRef.current?.close();
+      showToast("상품 정보를 저장했습니다.", "success");
+    } catch {
+      showToast("저장에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  const handleImageChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      const uploadUrl = await generateUploadUrl.mutateAsync({});
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      if (!result.ok) {
+        throw new Error(`Failed to upload image: ${result.status}`);
+      }
+      const { storageId } = await result.json();
+      await updateImage.mutateAsync({
+        productId: product._id,
+        storageId: storageId as Id<"_storage">,
+      });
+      showToast("이미지를 교체했습니다.", "success");
+    } catch {
+      showToast("이미지 교체에 실패했습니다.", "error");
+    } finally {
+      event.target.value = "";
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const result = await deleteProduct.mutateAsync({
+        productId: product._id,
+      });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      dialogRef.current?.close();
+      showToast("상품을 삭제했습니다.", "success");
+    } catch {
+      showToast("삭제에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return (
+    <>
+      <button className="btn btn-ghost btn-xs" onClick={open} type="button">
+        편집
+      </button>
+
+      <dialog className="modal" ref={dialogRef}>
+        <form className="modal-box max-w-2xl space-y-4" onSubmit={handleSubmit}>
+          <h3 className="font-bold text-lg">
+            {product.cafeName} · {product.name}
+          </h3>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="floating-label col-span-2">
+              <span>이름</span>
+              <input
+                className="input input-bordered w-full"
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                value={form.name}
+              />
+            </label>
+            <label className="floating-label">
+              <span>카테고리</span>
+              <select
+                className="select select-bordered w-full"
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                value={form.category}
+              >
+                <option disabled value="">
+                  카테고리
+                </option>
+                {CATEGORY_ORDER.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="floating-label">
+              <span>가격 (원)</span>
+              <input
+                className="input input-bordered w-full"
+                inputMode="numeric"
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+                value={form.price}
+              />
+            </label>
+            <label className="label col-span-2 cursor-pointer gap-2">
+              <input
+                checked={form.isActive}
+                className="checkbox checkbox-sm"
+                onChange={(e) =>
+                  setForm({ ...form, isActive: e.target.checked })
+                }
+                type="checkbox"
+              />
+              판매 중
+            </label>
+          </div>
+
+          <fieldset className="fieldset">
+            <legend className="fieldset-legend">영양 정보</legend>
+            <div className="grid grid-cols-3 gap-2">
+              {NUTRITION_FIELDS.map(({ key, name }) => (
+                <label className="floating-label" key={key}>
+                  <span>{name}</span>
+                  <input
+                    className="input input-bordered input-sm w-full"
+                    inputMode="decimal"
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        nutritions: {
+                          ...form.nutritions,
+                          [key]: e.target.value,
+                        },
+                      })
+                    }
+                    placeholder={name}
+                    value={form.nutritions[key] ?? ""}
+                  />
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="fieldset">
+            <span className="fieldset-legend">이미지 교체</span>
+            <input
+              accept="image/*"
+              className="file-input file-input-bordered file-input-sm w-full"
+              disabled={generateUploadUrl.isPending || updateImage.isPending}
+              onChange={handleImageChange}
+              type="file"
+            />
+          </label>
+
+          <p className="text-base-content/60 text-sm">
+            수정한 항목은 잠겨서 다음 크롤링 업로드가 덮어쓰지 않습니다.
+          </p>
+
+          <div className="modal-action justify-between">
+            {confirmDelete ? (
+              <button
+                className="btn btn-error"
+                disabled={deleteProduct.isPending}
+                onClick={handleDelete}
+                type="button"
+              >
+                후기까지 삭제 확인
+              </button>
+            ) : (
+              <button
+                className="btn btn-ghost text-error"
+                onClick={() => setConfirmDelete(true)}
+                type="button"
+              >
+                삭제
+              </button>
+            )}
+            <div className="flex gap-2">
+              <button
+                className="btn btn-ghost"
+                onClick={() => dialogRef.current?.close()}
+                type="button"
+              >
+                취소
+              </button>
+              <button
+                className="btn btn-primary"
+                disabled={updateDetails.isPending}
+                type="submit"
+              >
+                저장
+              </button>
+            </div>
+          </div>
+        </form>
+        <form className="modal-backdrop" method="dialog">
+          <button type="submit">close</button>
+        </form>
+      </dialog>
+    </>
+  );
+}
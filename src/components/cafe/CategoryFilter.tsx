@@ -1,8 +1,13 @@
+import type { ProductTag } from "shared/tags";
+import { TagFilter } from "~/components/TagFilter";
+
 interface CategoryFilterProps {
   categories: string[];
   isLoading: boolean;
   onCategoryChange: (category: string) => void;
+  onTagsChange?: (tags: ProductTag[] | undefined) => void;
   selectedCategory: string | undefined;
+  selectedTags?: ProductTag[];
 }
 
 export function CategoryFilter({
@@ -10,6 +15,8 @@ export function CategoryFilter({
   selectedCategory,
   isLoading,
   onCategoryChange,
+  selectedTags,
+  onTagsChange,
 }: CategoryFilterProps) {
   return (
     <div className="mb-8">
@@ -42,6 +49,11 @@ export function CategoryFilter({
               </button>
             ))}
       </div>
+      {onTagsChange && (
+        <div className="mt-3">
+          <TagFilter onChange={onTagsChange} selectedTags={selectedTags} />
+        </div>
+      )}
     </div>
   );
 }
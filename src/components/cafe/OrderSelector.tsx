@@ -1,28 +1,48 @@
+import type { z } from "zod";
+import type { productOrderSchema } from "~/utils/productFilters";
+
 const orderOptions = [
+  { value: "relevance", label: "관련도순" },
   { value: "latest", label: "최신순" },
   { value: "most-reviews", label: "후기 많은순" },
   { value: "highest-rating", label: "높은 평점순" },
-] as const;
+  { value: "lowest-calories", label: "칼로리 낮은순" },
+  { value: "lowest-sugar", label: "당류 낮은순" },
+  { value: "most-caffeine", label: "카페인 많은순" },
+  { value: "cheapest", label: "가격 낮은순" },
+] as const satisfies {
+  value: z.infer<typeof productOrderSchema>;
+  label: string;
+}[];
 
 export type OrderOption = (typeof orderOptions)[number]["value"];
 
-interface OrderSelectorProps {
-  onChange: (value: OrderOption) => void;
-  value: OrderOption;
+interface OrderSelectorProps<T extends OrderOption> {
+  onChange: (value: T) => void;
+  // Only search results have a relevance order
+  showRelevance?: boolean;
+  value: T;
 }
 
-export function OrderSelector({ value, onChange }: OrderSelectorProps) {
+export function OrderSelector<T extends OrderOption>({
+  value,
+  onChange,
+  showRelevance = false,
+}: OrderSelectorProps<T>) {
   return (
     <select
+      aria-label="정렬"
       className="select select-bordered w-auto shrink-0"
-      onChange={(e) => onChange(e.target.value as OrderOption)}
+      onChange={(e) => onChange(e.target.value as T)}
       value={value}
     >
-      {orderOptions.map((option) => (
-        <option key={option.value} value={option.value}>
-          {option.label}
-        </option>
-      ))}
+      {orderOptions
+        .filter((option) => showRelevance || option.value !== "relevance")
+        .map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
     </select>
   );
 }
@@ -0,0 +1,57 @@
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Id } from "convex/_generated/dataModel";
+import { useState } from "react";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+import { SignInModal } from "../auth/SignInModal";
+
+export function FollowButton({ userId }: { userId: Id<"users"> }) {
+  const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
+  const { data: followStats } = useQuery(
+    convexQuery(api.follows.getFollowStats, { userId })
+  );
+  const [showSignInModal, setShowSignInModal] = useState(false);
+  const isFollowing = followStats?.isFollowing ?? false;
+
+  const followMutation = useMutation({
+    mutationFn: useConvexMutation(api.follows.follow),
+  });
+  const unfollowMutation = useMutation({
+    mutationFn: useConvexMutation(api.follows.unfollow),
+  });
+
+  const handleClick = async () => {
+    if (!currentUser) {
+      setShowSignInModal(true);
+      return;
+    }
+    try {
+      if (isFollowing) {
+        await unfollowMutation.mutateAsync({ userId });
+      } else {
+        await followMutation.mutateAsync({ userId });
+      }
+    } catch {
+      showToast("요청에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return (
+    <>
+      <button
+        aria-pressed={isFollowing}
+        className={`btn btn-sm ${isFollowing ? "btn-outline" : "btn-primary"}`}
+        disabled={followMutation.isPending || unfollowMutation.isPending}
+        onClick={handleClick}
+        type="button"
+      >
+        {isFollowing ? "팔로잉" : "팔로우"}
+      </button>
+      <SignInModal
+        isOpen={showSignInModal}
+        onClose={() => setShowSignInModal(false)}
+      />
+    </>
+  );
+}
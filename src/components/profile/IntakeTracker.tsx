@@ -0,0 +1,188 @@
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import type { Id } from "convex/_generated/dataModel";
+import { useMemo } from "react";
+import { dailyCaffeineLimit, dailyStandardNutritions } from "shared/nutritions";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+import type { IntakeTotals } from "../../../convex/intakeLogs";
+
+const intakeItems = [
+  { key: "caffeine", name: "카페인", unit: "mg", limit: dailyCaffeineLimit },
+  {
+    key: "sugar",
+    name: "당류",
+    unit: "g",
+    limit: dailyStandardNutritions.sugar,
+  },
+  {
+    key: "calories",
+    name: "칼로리",
+    unit: "kcal",
+    limit: dailyStandardNutritions.calories,
+  },
+] as const;
+
+// Local midnight today and on Monday of this week
+function getPeriodStarts() {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const monday = new Date(today);
+  monday.setDate(today.getDate() - ((today.getDay() + 6) % 7));
+  return { todayStart: today.getTime(), weekStart: monday.getTime() };
+}
+
+function formatTime(timestamp: number) {
+  const date = new Date(timestamp);
+  const hours = date.getHours().toString().padStart(2, "0");
+  const minutes = date.getMinutes().toString().padStart(2, "0");
+  return `${date.getMonth() + 1}/${date.getDate()} ${hours}:${minutes}`;
+}
+
+function IntakeTotalsCard({
+  title,
+  totals,
+  days,
+}: {
+  title: string;
+  totals: IntakeTotals;
+  days: number;
+}) {
+  return (
+    <div className="card bg-base-100 shadow-md">
+      <div className="card-body gap-4">
+        <h3 className="card-title text-base">
+          {title}
+          <span className="font-normal text-base-content/60 text-sm">
+            {totals.count}잔
+          </span>
+        </h3>
+        {intakeItems.map((item) => {
+          const value = Math.round(totals[item.key]);
+          const limit = item.limit * days;
+          return (
+            <div key={item.key}>
+              <div className="mb-1 flex justify-between text-sm">
+                <span>{item.name}</span>
+                <span className="text-base-content/60">
+                  {value.toLocaleString()}
+                  {item.unit} / {limit.toLocaleString()}
+                  {item.unit}
+                </span>
+              </div>
+              <progress
+                className={`progress ${value > limit ? "progress-error" : "progress-primary"}`}
+                max={limit}
+                value={Math.min(value, limit)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function IntakeTracker() {
+  const { todayStart, weekStart } = useMemo(getPeriodStarts, []);
+  const { data: summary, isLoading } = useQuery(
+    convexQuery(api.intakeLogs.getMySummary, { todayStart, weekStart })
+  );
+
+  const removeMutation = useMutation({
+    mutationFn: useConvexMutation(api.intakeLogs.remove),
+  });
+
+  const handleRemove = async (logId: Id<"intakeLogs">) => {
+    try {
+      await removeMutation.mutateAsync({ logId });
+    } catch {
+      showToast("기록 삭제에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <span className="loading loading-spinner loading-md" />
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return null;
+  }
+
+  // Days elapsed this week, including today
+  const weekDays = Math.round((todayStart - weekStart) / 86_400_000) + 1;
+
+  return (
+    <div className="space-y-6">
+      {summary.today.caffeine > dailyCaffeineLimit && (
+        <div className="alert alert-warning" role="alert">
+          오늘 카페인 섭취량이 하루 권장량({dailyCaffeineLimit}mg)을 넘었습니다.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <IntakeTotalsCard days={1} title="오늘" totals={summary.today} />
+        <IntakeTotalsCard
+          days={weekDays}
+          title="이번 주"
+          totals={summary.week}
+        />
+      </div>
+
+      <div className="card bg-base-100 shadow-md">
+        <div className="card-body">
+          <h3 className="card-title text-base">이번 주 마신 음료</h3>
+          {summary.entries.length === 0 ? (
+            <p className="py-4 text-center text-base-content/60">
+              음료 페이지의 &quot;마셨어요&quot; 버튼으로 기록해보세요.
+            </p>
+          ) : (
+            <ul className="divide-y divide-base-200">
+              {summary.entries.map((entry) => (
+                <li
+                  className="flex items-center justify-between gap-2 py-2"
+                  key={entry._id}
+                >
+                  <div className="min-w-0">
+                    {entry.shortId ? (
+                      <Link
+                        className="hover:text-primary"
+                        params={{ shortId: entry.shortId }}
+                        to="/product/$shortId"
+                      >
+                        {entry.productName}
+                      </Link>
+                    ) : (
+                      entry.productName
+                    )}
+                    {entry.size && (
+                      <span className="ml-1 text-base-content/60 text-sm">
+                        {entry.size}
+                      </span>
+                    )}
+                    <p className="text-base-content/60 text-xs">
+                      {formatTime(entry.loggedAt)}
+                    </p>
+                  </div>
+                  <button
+                    className="btn btn-ghost btn-xs"
+                    disabled={removeMutation.isPending}
+                    onClick={() => handleRemove(entry._id)}
+                    type="button"
+                  >
+                    삭제
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { useProductReviewStats } from "~/hooks/useProductReviewStats";
+import { api } from "../../../convex/_generated/api";
+import { ProductCard } from "../ProductCard";
+
+// "저장한 음료" tab: the user's bookmarks, with discontinued ones listed apart
+export function ProfileBookmarks() {
+  const { data: bookmarks = [], isLoading } = useQuery(
+    convexQuery(api.bookmarks.getMyBookmarks, {})
+  );
+  const reviewStats = useProductReviewStats(
+    bookmarks.map((product) => product._id)
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <span className="loading loading-spinner loading-md" />
+      </div>
+    );
+  }
+
+  if (bookmarks.length === 0) {
+    return (
+      <div className="py-8 text-center">
+        <p className="mb-4 text-base-content/60">
+          아직 저장한 음료가 없습니다.
+        </p>
+        <Link className="btn btn-primary" to="/search">
+          상품 찾아보기
+        </Link>
+      </div>
+    );
+  }
+
+  const available = bookmarks.filter((product) => product.isActive);
+  const discontinued = bookmarks.filter((product) => !product.isActive);
+
+  return (
+    <div className="space-y-8">
+      {available.length > 0 && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {available.map((product) => (
+            <ProductCard
+              key={product._id}
+              product={product}
+              reviewStats={reviewStats?.[product._id]}
+            />
+          ))}
+        </div>
+      )}
+      {discontinued.length > 0 && (
+        <div>
+          <h3 className="mb-2 font-bold text-lg">
+            단종된 음료{" "}
+            <span className="text-base-content/50 text-sm">
+              {discontinued.length}
+            </span>
+          </h3>
+          <div className="alert alert-soft alert-warning mb-4">
+            저장한 음료 중 카페 메뉴에서 빠진 음료입니다.
+          </div>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {discontinued.map((product) => (
+              <ProductCard
+                key={product._id}
+                product={product}
+                reviewStats={reviewStats?.[product._id]}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
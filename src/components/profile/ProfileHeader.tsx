@@ -1,5 +1,7 @@
 import { SignOutButton } from "@clerk/tanstack-react-start";
 import { Link } from "@tanstack/react-router";
+import type { Id } from "convex/_generated/dataModel";
+import { FollowButton } from "./FollowButton";
 
 interface User {
   _id: string;
@@ -42,6 +44,7 @@ export function ProfileHeader({
             <h1 className="font-bold text-2xl">{user.name || "사용자"}</h1>
             <p className="text-base-content/60 text-sm">@{user.handle}</p>
           </div>
+          {!isCurrentUser && <FollowButton userId={user._id as Id<"users">} />}
           {isCurrentUser && (
             <div className="flex flex-wrap gap-2">
               <Link className="btn btn-outline btn-sm" to="/settings">
@@ -1,32 +1,35 @@
 import { Link } from "@tanstack/react-router";
-import {
-  type Review,
-  ReviewInUserPage,
-} from "~/components/reviews/ReviewInUserPage";
+import { usePaginatedQuery } from "convex/react";
+import { ReviewInUserPage } from "~/components/reviews/ReviewInUserPage";
+import { useInfiniteScroll } from "~/hooks/useInfiniteScroll";
+import { api } from "../../../convex/_generated/api";
+
+const REVIEWS_PAGE_SIZE = 10;
 
 interface ProfileReviewsProps {
-  error: Error | null;
   isCurrentUser?: boolean;
-  isLoading: boolean;
-  userReviews: Review[] | undefined;
-}
-
-const EMPTY_REVIEWS: Review[] = [];
-
-interface ProfileReviewsContentProps {
-  error: Error | null;
-  isCurrentUser: boolean;
-  isLoading: boolean;
-  userReviews: Review[];
+  userId: string | undefined;
 }
 
 function ProfileReviewsContent({
-  userReviews,
-  isLoading,
-  error,
+  userId,
   isCurrentUser,
-}: ProfileReviewsContentProps) {
-  if (isLoading) {
+}: {
+  isCurrentUser: boolean;
+  userId: string | undefined;
+}) {
+  const {
+    results: userReviews,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.reviews.getUserReviews,
+    userId ? { userId } : "skip",
+    { initialNumItems: REVIEWS_PAGE_SIZE }
+  );
+  const sentinelRef = useInfiniteScroll(status, loadMore, REVIEWS_PAGE_SIZE);
+
+  if (!userId || status === "LoadingFirstPage") {
     return (
       <div className="flex justify-center py-8">
         <span className="loading loading-spinner loading-md" />
@@ -34,23 +37,19 @@ function ProfileReviewsContent({
     );
   }
 
-  if (error) {
-    return (
-      <div className="py-8 text-center">
-        <p className="mb-4 text-error">
-          후기를 불러오는 중 오류가 발생했습니다.
-        </p>
-        <p className="text-base-content/60 text-sm">{String(error)}</p>
-      </div>
-    );
-  }
-
-  if (userReviews?.length > 0) {
+  if (userReviews.length > 0) {
     return (
       <div className="space-y-4">
         {userReviews.map((review) => (
           <ReviewInUserPage key={review._id} review={review} />
         ))}
+        {/* Loads the next page when scrolled into view */}
+        <div ref={sentinelRef} />
+        {status === "LoadingMore" && (
+          <div className="flex justify-center">
+            <span className="loading loading-spinner loading-md" />
+          </div>
+        )}
       </div>
     );
   }
@@ -72,9 +71,7 @@ function ProfileReviewsContent({
 }
 
 export function ProfileReviews({
-  userReviews = EMPTY_REVIEWS,
-  isLoading,
-  error,
+  userId,
   isCurrentUser = false,
 }: ProfileReviewsProps) {
   return (
@@ -83,12 +80,7 @@ export function ProfileReviews({
         <h2 className="card-title mb-4">
           {isCurrentUser ? "내 후기" : "후기"}
         </h2>
-        <ProfileReviewsContent
-          error={error}
-          isCurrentUser={isCurrentUser}
-          isLoading={isLoading}
-          userReviews={userReviews}
-        />
+        <ProfileReviewsContent isCurrentUser={isCurrentUser} userId={userId} />
       </div>
     </div>
   );
@@ -7,12 +7,22 @@ interface UserStats {
   totalReviews: number;
 }
 
+interface FollowStats {
+  followers: number;
+  following: number;
+}
+
 interface ProfileStatsProps {
+  followStats?: FollowStats;
   isLoading: boolean;
   userStats: UserStats | undefined;
 }
 
-export function ProfileStats({ userStats, isLoading }: ProfileStatsProps) {
+export function ProfileStats({
+  userStats,
+  followStats,
+  isLoading,
+}: ProfileStatsProps) {
   if (isLoading) {
     return (
       <div className="card bg-base-100 shadow-md">
@@ -40,6 +50,18 @@ export function ProfileStats({ userStats, isLoading }: ProfileStatsProps) {
   return (
     <div className="card bg-base-100 shadow-md">
       <div className="card-body">
+        {followStats && (
+          <div className="flex justify-center gap-6 text-center">
+            <div>
+              <div className="font-bold text-lg">{followStats.followers}</div>
+              <div className="text-base-content/60 text-sm">팔로워</div>
+            </div>
+            <div>
+              <div className="font-bold text-lg">{followStats.following}</div>
+              <div className="text-base-content/60 text-sm">팔로잉</div>
+            </div>
+          </div>
+        )}
         <div className="mb-6 text-center">
           <div className="stat">
             <div className="stat-title">평균 평점</div>
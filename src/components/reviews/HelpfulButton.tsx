@@ -0,0 +1,44 @@
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import type { Id } from "convex/_generated/dataModel";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+
+interface HelpfulButtonProps {
+  count: number;
+  // Signed-out users and the review's author only see the count
+  disabled: boolean;
+  markedHelpful: boolean;
+  reviewId: Id<"reviews">;
+}
+
+export function HelpfulButton({
+  reviewId,
+  count,
+  markedHelpful,
+  disabled,
+}: HelpfulButtonProps) {
+  const toggleMutation = useMutation({
+    mutationFn: useConvexMutation(api.reviewReactions.toggleHelpful),
+  });
+
+  const handleClick = async () => {
+    try {
+      await toggleMutation.mutateAsync({ reviewId });
+    } catch {
+      showToast("요청에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return (
+    <button
+      aria-pressed={markedHelpful}
+      className={`btn btn-xs ${markedHelpful ? "btn-primary" : "btn-outline"}`}
+      disabled={disabled || toggleMutation.isPending}
+      onClick={handleClick}
+      type="button"
+    >
+      도움돼요{count > 0 && ` ${count}`}
+    </button>
+  );
+}
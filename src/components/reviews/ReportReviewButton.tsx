@@ -0,0 +1,96 @@
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import type { Id } from "convex/_generated/dataModel";
+import { useRef, useState } from "react";
+import { type ReportReason, reportReasonLabels } from "shared/reports";
+import { showToast } from "~/utils/toast";
+import { api } from "../../../convex/_generated/api";
+
+const reasons = Object.keys(reportReasonLabels) as ReportReason[];
+
+export function ReportReviewButton({ reviewId }: { reviewId: Id<"reviews"> }) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+
+  const reportMutation = useMutation({
+    mutationFn: useConvexMutation(api.moderation.reportReview),
+  });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await reportMutation.mutateAsync({
+        reviewId,
+        reason,
+        details: details.trim() || undefined,
+      });
+      dialogRef.current?.close();
+      setDetails("");
+      showToast("신고가 접수되었습니다.", "success");
+    } catch {
+      showToast("신고에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="btn btn-ghost btn-xs text-base-content/60"
+        onClick={() => dialogRef.current?.showModal()}
+        type="button"
+      >
+        신고
+      </button>
+
+      <dialog className="modal" ref={dialogRef}>
+        <form className="modal-box space-y-4" onSubmit={handleSubmit}>
+          <h3 className="font-bold text-lg">후기 신고</h3>
+          <div className="space-y-2">
+            {reasons.map((value) => (
+              <label
+                className="flex cursor-pointer items-center gap-2"
+                key={value}
+              >
+                <input
+                  checked={reason === value}
+                  className="radio radio-sm"
+                  name="reason"
+                  onChange={() => setReason(value)}
+                  type="radio"
+                />
+                {reportReasonLabels[value]}
+              </label>
+            ))}
+          </div>
+          <textarea
+            className="textarea textarea-bordered w-full"
+            maxLength={500}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="자세한 내용 (선택)"
+            value={details}
+          />
+          <div className="modal-action">
+            <button
+              className="btn btn-ghost"
+              onClick={() => dialogRef.current?.close()}
+              type="button"
+            >
+              취소
+            </button>
+            <button
+              className="btn btn-error"
+              disabled={reportMutation.isPending}
+              type="submit"
+            >
+              신고하기
+            </button>
+          </div>
+        </form>
+        <form className="modal-backdrop" method="dialog">
+          <button type="submit">close</button>
+        </form>
+      </dialog>
+    </>
+  );
+}
@@ -2,9 +2,37 @@ import { convexQuery } from "@convex-dev/react-query";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "@tanstack/react-router";
 import type { Id } from "convex/_generated/dataModel";
+import {
+  SCALE_SUB_RATINGS,
+  SUB_RATING_SCALES,
+  type SubRatings,
+  WOULD_REORDER_OPTIONS,
+} from "shared/ratings";
 import { api } from "../../../convex/_generated/api";
 import { showToast } from "../../utils/toast";
+import { HelpfulButton } from "./HelpfulButton";
 import { RatingText } from "./RatingText";
+import { ReportReviewButton } from "./ReportReviewButton";
+
+// One label per answered sub-rating, e.g. "단맛 너무 달아요"
+function getSubRatingLabels(subRatings: SubRatings | undefined): string[] {
+  if (!subRatings) {
+    return [];
+  }
+  const labels = SCALE_SUB_RATINGS.flatMap((key) => {
+    const value = subRatings[key];
+    const options: Record<string, string> = SUB_RATING_SCALES[key].options;
+    return value ? [`${SUB_RATING_SCALES[key].name} ${options[value]}`] : [];
+  });
+  if (subRatings.wouldReorder !== undefined) {
+    labels.push(
+      subRatings.wouldReorder
+        ? WOULD_REORDER_OPTIONS.yes
+        : WOULD_REORDER_OPTIONS.no
+    );
+  }
+  return labels;
+}
 
 function useUserProfile(userId: string) {
   const { data: fetchedUser } = useQuery({
@@ -68,6 +96,8 @@ function ReviewImageModal({
 
 interface ReviewCardProps {
   currentUserId?: string;
+  // Shown as the product's most helpful review
+  highlighted?: boolean;
   onDelete?: () => void;
   onEdit?: () => void;
   review: {
@@ -79,12 +109,17 @@ interface ReviewCardProps {
     ratingText: string;
     createdAt: number;
     updatedAt: number;
+    subRatings?: SubRatings;
+    helpfulCount?: number;
+    // Only set by queries that look up the current user's reactions
+    markedHelpful?: boolean;
   };
 }
 
 export function ReviewCard({
   review,
   currentUserId,
+  highlighted = false,
   onEdit,
   onDelete,
 }: ReviewCardProps) {
@@ -94,10 +129,18 @@ export function ReviewCard({
   const createdDate = new Date(review.createdAt);
   const updatedDate = new Date(review.updatedAt);
   const wasEdited = review.updatedAt > review.createdAt;
+  const subRatingLabels = getSubRatingLabels(review.subRatings);
 
   return (
-    <div className="card border border-base-300 bg-base-100 shadow-sm">
+    <div
+      className={`card border bg-base-100 shadow-sm ${highlighted ? "border-primary" : "border-base-300"}`}
+    >
       <div className="card-body gap-0 p-4">
+        {highlighted && (
+          <div className="badge badge-soft badge-primary mb-3">
+            가장 도움된 후기
+          </div>
+        )}
         {/* Header with Profile Image, User Name, and Actions */}
         <div className="flex items-start justify-between">
           <div className="flex items-start gap-3">
@@ -166,6 +209,15 @@ export function ReviewCard({
                   ratingText={review.ratingText}
                 />
               </div>
+              {subRatingLabels.length > 0 && (
+                <div className="mb-2 flex flex-wrap gap-1">
+                  {subRatingLabels.map((label) => (
+                    <span className="badge badge-soft badge-sm" key={label}>
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -204,6 +256,10 @@ export function ReviewCard({
               </svg>
             </button>
 
+            {currentUserId && !isOwner && (
+              <ReportReviewButton reviewId={review._id} />
+            )}
+
             {/* Owner Action Menu */}
             {isOwner && (
               <div className="dropdown dropdown-end">
@@ -276,10 +332,18 @@ export function ReviewCard({
           </div>
         )}
 
-        {/* Date */}
-        <div className="mt-3 text-right text-base-content/60 text-sm">
+        {/* Helpful reaction and date */}
+        <div className="mt-3 flex items-center justify-between gap-2 text-base-content/60 text-sm">
+          {review.markedHelpful !== undefined && (
+            <HelpfulButton
+              count={review.helpfulCount ?? 0}
+              disabled={!currentUserId || isOwner}
+              markedHelpful={review.markedHelpful}
+              reviewId={review._id}
+            />
+          )}
           <Link
-            className="link link-hover"
+            className="link link-hover ml-auto"
             params={{ reviewId: review._id }}
             to="/review/$reviewId"
           >
@@ -2,10 +2,12 @@ import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import type { Id } from "convex/_generated/dataModel";
 import { useEffect, useState } from "react";
+import type { SubRatings } from "shared/ratings";
 import { usePostHogEvents } from "~/hooks/usePostHogEvents";
 import { showToast } from "~/utils/toast";
 import { api } from "../../../convex/_generated/api";
 import { RatingButtonGroup } from "./RatingButtonGroup";
+import { SubRatingInputs } from "./SubRatingInputs";
 
 interface ReviewFormProps {
   onCancel?: () => void;
@@ -22,6 +24,7 @@ export function ReviewForm({
   const { trackReviewSubmit } = usePostHogEvents();
   const [rating, setRating] = useState<number>(0);
   const [text, setText] = useState("");
+  const [subRatings, setSubRatings] = useState<SubRatings>({});
   const [images, setImages] = useState<File[]>([]);
   const [imageStorageIds, setImageStorageIds] = useState<Id<"_storage">[]>([]);
   const [existingImageUrls, setExistingImageUrls] = useState<string[]>([]);
@@ -41,6 +44,7 @@ export function ReviewForm({
     if (existingReview) {
       setRating(existingReview.rating);
       setText(existingReview.text || "");
+      setSubRatings(existingReview.subRatings ?? {});
       setImageStorageIds(existingReview.imageStorageIds || []);
       // We'll get image URLs from the review query that includes imageUrls
       setExistingImageUrls(existingReview.imageUrls || []);
@@ -140,6 +144,11 @@ export function ReviewForm({
         productId,
         rating,
         text: text.trim() || undefined,
+        subRatings: Object.values(subRatings).some(
+          (value) => value !== undefined
+        )
+          ? subRatings
+          : undefined,
         imageStorageIds:
           allImageStorageIds.length > 0 ? allImageStorageIds : undefined,
       });
@@ -188,6 +197,17 @@ export function ReviewForm({
             <RatingButtonGroup onRatingChange={setRating} rating={rating} />
           </div>
 
+          {/* Sub-ratings */}
+          <div className="form-control">
+            <span className="label block">
+              <span className="label-text font-medium">세부 평가</span>
+              <span className="label-text-alt ml-2 text-base-content/60">
+                선택
+              </span>
+            </span>
+            <SubRatingInputs onChange={setSubRatings} subRatings={subRatings} />
+          </div>
+
           {/* Review Text */}
           <div className="form-control">
             <label className="label block" htmlFor="review-text">
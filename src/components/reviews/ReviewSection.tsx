@@ -1,13 +1,20 @@
 import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import type { Id } from "convex/_generated/dataModel";
+import { usePaginatedQuery } from "convex/react";
 import { useState } from "react";
+import { type ReviewSort, reviewSortLabels } from "shared/reviewSort";
+import { useInfiniteScroll } from "~/hooks/useInfiniteScroll";
 import { showToast } from "~/utils/toast";
 import { api } from "../../../convex/_generated/api";
 import { SignInModal } from "../auth/SignInModal";
 import { ReviewCard } from "./ReviewCard";
 import { ReviewForm } from "./ReviewForm";
 
+const reviewSorts = Object.keys(reviewSortLabels) as ReviewSort[];
+
+const REVIEWS_PAGE_SIZE = 10;
+
 interface ReviewSectionProps {
   productId: Id<"products">;
 }
@@ -17,6 +24,7 @@ export function ReviewSection({ productId }: ReviewSectionProps) {
   const [showForm, setShowForm] = useState(false);
   const [_editingReview, setEditingReview] = useState(false);
   const [showSignInModal, setShowSignInModal] = useState(false);
+  const [sort, setSort] = useState<ReviewSort>("newest");
   const [showDeleteConfirm, setShowDeleteConfirm] =
     useState<Id<"reviews"> | null>(null);
 
@@ -25,9 +33,24 @@ export function ReviewSection({ productId }: ReviewSectionProps) {
     convexQuery(api.reviews.getProductStats, { productId })
   );
 
-  // Get product reviews
-  const { data: reviews } = useQuery(
-    convexQuery(api.reviews.getByProduct, { productId, limit: 20 })
+  // Get product reviews, loading more as the list is scrolled
+  const {
+    results: reviews,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.reviews.getByProduct,
+    { productId, sort },
+    { initialNumItems: REVIEWS_PAGE_SIZE }
+  );
+  const sentinelRef = useInfiniteScroll(status, loadMore, REVIEWS_PAGE_SIZE);
+
+  // Highlighted above the list, which then leaves it out
+  const { data: topReview } = useQuery(
+    convexQuery(api.reviews.getTopHelpfulReview, { productId })
+  );
+  const listedReviews = reviews.filter(
+    (review) => review._id !== topReview?._id
   );
 
   // Get user's existing review
@@ -94,7 +117,7 @@ export function ReviewSection({ productId }: ReviewSectionProps) {
   };
 
   const hasUserReview = !!userReview;
-  const hasReviews = !!reviews && reviews.length > 0;
+  const hasReviews = !!reviewStats && reviewStats.totalReviews > 0;
 
   return (
     <div className="space-y-6">
@@ -146,10 +169,42 @@ export function ReviewSection({ productId }: ReviewSectionProps) {
         />
       )}
 
+      {hasReviews && (
+        <select
+          aria-label="후기 정렬"
+          className="select select-bordered select-sm w-auto"
+          onChange={(e) => setSort(e.target.value as ReviewSort)}
+          value={sort}
+        >
+          {reviewSorts.map((value) => (
+            <option key={value} value={value}>
+              {reviewSortLabels[value]}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Most helpful review */}
+      {topReview && (
+        <ReviewCard
+          currentUserId={currentUser?._id}
+          highlighted
+          review={topReview}
+        />
+      )}
+
+      {sort === "withPhotos" &&
+        status === "Exhausted" &&
+        reviews.length === 0 && (
+          <p className="py-4 text-center text-base-content/60">
+            사진이 있는 후기가 없습니다.
+          </p>
+        )}
+
       {/* Reviews List */}
-      {reviews && reviews.length > 0 ? (
+      {listedReviews.length > 0 ? (
         <div className="space-y-4">
-          {reviews.map((review) => (
+          {listedReviews.map((review) => (
             <ReviewCard
               currentUserId={currentUser?._id}
               key={review._id}
@@ -168,7 +223,7 @@ export function ReviewSection({ productId }: ReviewSectionProps) {
           ))}
         </div>
       ) : (
-        !showForm && (
+        !(showForm || hasReviews) && (
           <div className="card bg-base-100 shadow-sm">
             <div className="card-body py-12 text-center">
               <h4 className="mb-2 font-semibold text-lg">
@@ -199,6 +254,14 @@ export function ReviewSection({ productId }: ReviewSectionProps) {
         )
       )}
 
+      {/* Loads the next page when scrolled into view */}
+      <div ref={sentinelRef} />
+      {status === "LoadingMore" && (
+        <div className="flex justify-center">
+          <span className="loading loading-spinner loading-md" />
+        </div>
+      )}
+
       {/* Delete Confirmation Dialog */}
       {showDeleteConfirm && (
         <div className="modal modal-open">
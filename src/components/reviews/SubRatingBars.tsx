@@ -0,0 +1,80 @@
+import {
+  SCALE_SUB_RATINGS,
+  SUB_RATING_SCALES,
+  type SubRatingStats,
+  WOULD_REORDER_LABEL,
+} from "shared/ratings";
+
+// Shades for the answers of a scale, from the first answer to the last
+const SEGMENT_CLASS_NAMES = ["bg-secondary", "bg-primary", "bg-accent"];
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+function toPercent(count: number, total: number): number {
+  return Math.round((count / total) * 100);
+}
+
+// Aggregated sub-ratings of a product's reviews, one bar per criterion
+export function SubRatingBars({
+  subRatings,
+  className,
+}: {
+  subRatings: SubRatingStats;
+  className?: string;
+}) {
+  const reorderTotal = sumCounts(subRatings.wouldReorder);
+  const scales = SCALE_SUB_RATINGS.filter(
+    (key) => sumCounts(subRatings[key]) > 0
+  );
+
+  if (scales.length === 0 && reorderTotal === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`space-y-2 text-sm ${className ?? ""}`}>
+      {scales.map((key) => {
+        const counts: Record<string, number> = subRatings[key];
+        const labels: Record<string, string> = SUB_RATING_SCALES[key].options;
+        const total = sumCounts(counts);
+        // Most common answer, shown next to the bar
+        const [topValue] = Object.entries(counts).sort(
+          ([, a], [, b]) => b - a
+        )[0];
+        return (
+          <div className="flex items-center gap-3" key={key}>
+            <span className="w-20 shrink-0">{SUB_RATING_SCALES[key].name}</span>
+            <div className="flex h-3 flex-1 overflow-hidden rounded-full bg-base-300">
+              {Object.entries(labels).map(([value, label], index) => (
+                <div
+                  className={SEGMENT_CLASS_NAMES[index]}
+                  key={value}
+                  style={{ width: `${(counts[value] / total) * 100}%` }}
+                  title={`${label} ${toPercent(counts[value], total)}%`}
+                />
+              ))}
+            </div>
+            <span className="w-32 shrink-0 text-base-content/70">
+              {labels[topValue]} {toPercent(counts[topValue], total)}%
+            </span>
+          </div>
+        );
+      })}
+      {reorderTotal > 0 && (
+        <div className="flex items-center gap-3">
+          <span className="w-20 shrink-0">{WOULD_REORDER_LABEL}</span>
+          <progress
+            className="progress progress-primary flex-1"
+            max={reorderTotal}
+            value={subRatings.wouldReorder.yes}
+          />
+          <span className="w-32 shrink-0 text-base-content/70">
+            {toPercent(subRatings.wouldReorder.yes, reorderTotal)}%
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
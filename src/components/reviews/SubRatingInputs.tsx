@@ -0,0 +1,77 @@
+import {
+  SCALE_SUB_RATINGS,
+  SUB_RATING_SCALES,
+  type SubRatings,
+  WOULD_REORDER_LABEL,
+  WOULD_REORDER_OPTIONS,
+} from "shared/ratings";
+
+interface SubRatingInputsProps {
+  onChange: (subRatings: SubRatings) => void;
+  subRatings: SubRatings;
+}
+
+// Optional per-criterion answers; picking the selected answer again clears it
+export function SubRatingInputs({
+  subRatings,
+  onChange,
+}: SubRatingInputsProps) {
+  const toggle = <K extends keyof SubRatings>(key: K, value: SubRatings[K]) => {
+    onChange({
+      ...subRatings,
+      [key]: subRatings[key] === value ? undefined : value,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {SCALE_SUB_RATINGS.map((key) => (
+        <div className="flex items-center gap-3" key={key}>
+          <span className="w-20 shrink-0 text-sm">
+            {SUB_RATING_SCALES[key].name}
+          </span>
+          <div className="join">
+            {Object.entries(SUB_RATING_SCALES[key].options).map(
+              ([value, label]) => (
+                <button
+                  aria-pressed={subRatings[key] === value}
+                  className={`join-item btn btn-xs ${
+                    subRatings[key] === value ? "btn-primary" : "btn-outline"
+                  }`}
+                  key={value}
+                  onClick={() => toggle(key, value as SubRatings[typeof key])}
+                  type="button"
+                >
+                  {label}
+                </button>
+              )
+            )}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-3">
+        <span className="w-20 shrink-0 text-sm">{WOULD_REORDER_LABEL}</span>
+        <div className="join">
+          {[
+            { value: true, label: WOULD_REORDER_OPTIONS.yes },
+            { value: false, label: WOULD_REORDER_OPTIONS.no },
+          ].map(({ value, label }) => (
+            <button
+              aria-pressed={subRatings.wouldReorder === value}
+              className={`join-item btn btn-xs ${
+                subRatings.wouldReorder === value
+                  ? "btn-primary"
+                  : "btn-outline"
+              }`}
+              key={label}
+              onClick={() => toggle("wouldReorder", value)}
+              type="button"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+export const MAX_COMPARE_PRODUCTS = 3;
+
+const STORAGE_KEY = "janjum:compare";
+// Same-tab updates; the native "storage" event only fires in other tabs
+const CHANGE_EVENT = "janjum:compare-change";
+const EMPTY: string[] = [];
+
+let cachedRaw: string | null = null;
+let cachedShortIds: string[] = EMPTY;
+
+function readShortIds(): string[] {
+  const raw = window.localStorage.getItem(STORAGE_KEY);
+  // Return the same array for the same stored value so React sees no change
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    try {
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      cachedShortIds = Array.isArray(parsed)
+        ? parsed
+            .filter((id): id is string => typeof id === "string")
+            .slice(0, MAX_COMPARE_PRODUCTS)
+        : EMPTY;
+    } catch {
+      cachedShortIds = EMPTY;
+    }
+  }
+  return cachedShortIds;
+}
+
+function writeShortIds(shortIds: string[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(shortIds));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+/**
+ * Products picked for /compare, kept in local storage so the selection
+ * survives navigation and reloads. Holds at most MAX_COMPARE_PRODUCTS shortIds.
+ */
+export function useCompareList() {
+  const shortIds = useSyncExternalStore(subscribe, readShortIds, () => EMPTY);
+
+  // Returns false when the list is already full
+  const add = useCallback((shortId: string) => {
+    const current = readShortIds();
+    if (current.includes(shortId)) {
+      return true;
+    }
+    if (current.length >= MAX_COMPARE_PRODUCTS) {
+      return false;
+    }
+    writeShortIds([...current, shortId]);
+    return true;
+  }, []);
+
+  const remove = useCallback((shortId: string) => {
+    writeShortIds(readShortIds().filter((id) => id !== shortId));
+  }, []);
+
+  const clear = useCallback(() => {
+    writeShortIds([]);
+  }, []);
+
+  return { shortIds, add, remove, clear };
+}
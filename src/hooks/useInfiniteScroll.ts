@@ -0,0 +1,34 @@
+import type { PaginationStatus } from "convex/react";
+import { useEffect, useRef } from "react";
+
+/**
+ * Load the next page of a `usePaginatedQuery` list when the returned sentinel
+ * element (rendered after the list) scrolls near the viewport.
+ */
+export function useInfiniteScroll<T extends HTMLElement = HTMLDivElement>(
+  status: PaginationStatus,
+  loadMore: (numItems: number) => void,
+  pageSize: number
+) {
+  const sentinelRef = useRef<T>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || status !== "CanLoadMore") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore(pageSize);
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [status, loadMore, pageSize]);
+
+  return sentinelRef;
+}
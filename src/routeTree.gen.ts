@@ -15,9 +15,15 @@ import { Route as ProfileRouteImport } from './routes/profile'
 import { Route as PrivacyRouteImport } from './routes/privacy'
 import { Route as OauthCallbackRouteImport } from './routes/oauth-callback'
 import { Route as NewRouteImport } from './routes/new'
+import { Route as CompareRouteImport } from './routes/compare'
+import { Route as ChangesRouteImport } from './routes/changes'
 import { Route as BlogRouteImport } from './routes/blog'
+import { Route as AdminRouteImport } from './routes/admin'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as BlogIndexRouteImport } from './routes/blog.index'
+import { Route as AdminCatalogRouteImport } from './routes/admin.catalog'
+import { Route as AdminHealthRouteImport } from './routes/admin.health'
+import { Route as AdminModerationRouteImport } from './routes/admin.moderation'
 import { Route as UserHandleRouteImport } from './routes/user.$handle'
 import { Route as ReviewReviewIdRouteImport } from './routes/review.$reviewId'
 import { Route as ProductShortIdRouteImport } from './routes/product.$shortId'
@@ -54,11 +60,26 @@ const NewRoute = NewRouteImport.update({
   path: '/new',
   getParentRoute: () => rootRouteImport,
 } as any)
+const CompareRoute = CompareRouteImport.update({
+  id: '/compare',
+  path: '/compare',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ChangesRoute = ChangesRouteImport.update({
+  id: '/changes',
+  path: '/changes',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const BlogRoute = BlogRouteImport.update({
   id: '/blog',
   path: '/blog',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminRoute = AdminRouteImport.update({
+  id: '/admin',
+  path: '/admin',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -69,6 +90,21 @@ const BlogIndexRoute = BlogIndexRouteImport.update({
   path: '/',
   getParentRoute: () => BlogRoute,
 } as any)
+const AdminCatalogRoute = AdminCatalogRouteImport.update({
+  id: '/catalog',
+  path: '/catalog',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminHealthRoute = AdminHealthRouteImport.update({
+  id: '/health',
+  path: '/health',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminModerationRoute = AdminModerationRouteImport.update({
+  id: '/moderation',
+  path: '/moderation',
+  getParentRoute: () => AdminRoute,
+} as any)
 const UserHandleRoute = UserHandleRouteImport.update({
   id: '/user/$handle',
   path: '/user/$handle',
@@ -97,13 +133,19 @@ const BlogPostIdRoute = BlogPostIdRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/admin': typeof AdminRouteWithChildren
   '/blog': typeof BlogRouteWithChildren
+  '/changes': typeof ChangesRoute
+  '/compare': typeof CompareRoute
   '/new': typeof NewRoute
   '/oauth-callback': typeof OauthCallbackRoute
   '/privacy': typeof PrivacyRoute
   '/profile': typeof ProfileRoute
   '/search': typeof SearchRoute
   '/settings': typeof SettingsRoute
+  '/admin/catalog': typeof AdminCatalogRoute
+  '/admin/health': typeof AdminHealthRoute
+  '/admin/moderation': typeof AdminModerationRoute
   '/blog/$postId': typeof BlogPostIdRoute
   '/cafe/$slug': typeof CafeSlugRoute
   '/product/$shortId': typeof ProductShortIdRoute
@@ -113,12 +155,18 @@ export interface FileRoutesByFullPath {
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/admin': typeof AdminRouteWithChildren
+  '/changes': typeof ChangesRoute
+  '/compare': typeof CompareRoute
   '/new': typeof NewRoute
   '/oauth-callback': typeof OauthCallbackRoute
   '/privacy': typeof PrivacyRoute
   '/profile': typeof ProfileRoute
   '/search': typeof SearchRoute
   '/settings': typeof SettingsRoute
+  '/admin/catalog': typeof AdminCatalogRoute
+  '/admin/health': typeof AdminHealthRoute
+  '/admin/moderation': typeof AdminModerationRoute
   '/blog/$postId': typeof BlogPostIdRoute
   '/cafe/$slug': typeof CafeSlugRoute
   '/product/$shortId': typeof ProductShortIdRoute
@@ -129,13 +177,19 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/admin': typeof AdminRouteWithChildren
   '/blog': typeof BlogRouteWithChildren
+  '/changes': typeof ChangesRoute
+  '/compare': typeof CompareRoute
   '/new': typeof NewRoute
   '/oauth-callback': typeof OauthCallbackRoute
   '/privacy': typeof PrivacyRoute
   '/profile': typeof ProfileRoute
   '/search': typeof SearchRoute
   '/settings': typeof SettingsRoute
+  '/admin/catalog': typeof AdminCatalogRoute
+  '/admin/health': typeof AdminHealthRoute
+  '/admin/moderation': typeof AdminModerationRoute
   '/blog/$postId': typeof BlogPostIdRoute
   '/cafe/$slug': typeof CafeSlugRoute
   '/product/$shortId': typeof ProductShortIdRoute
@@ -147,13 +201,19 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/admin'
     | '/blog'
+    | '/changes'
+    | '/compare'
     | '/new'
     | '/oauth-callback'
     | '/privacy'
     | '/profile'
     | '/search'
     | '/settings'
+    | '/admin/catalog'
+    | '/admin/health'
+    | '/admin/moderation'
     | '/blog/$postId'
     | '/cafe/$slug'
     | '/product/$shortId'
@@ -163,12 +223,17 @@ export interface FileRouteTypes {
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/changes'
+    | '/compare'
     | '/new'
     | '/oauth-callback'
     | '/privacy'
     | '/profile'
     | '/search'
     | '/settings'
+    | '/admin/catalog'
+    | '/admin/health'
+    | '/admin/moderation'
     | '/blog/$postId'
     | '/cafe/$slug'
     | '/product/$shortId'
@@ -178,13 +243,19 @@ export interface FileRouteTypes {
   id:
     | '__root__'
     | '/'
+    | '/admin'
     | '/blog'
+    | '/changes'
+    | '/compare'
     | '/new'
     | '/oauth-callback'
     | '/privacy'
     | '/profile'
     | '/search'
     | '/settings'
+    | '/admin/catalog'
+    | '/admin/health'
+    | '/admin/moderation'
     | '/blog/$postId'
     | '/cafe/$slug'
     | '/product/$shortId'
@@ -195,7 +266,10 @@ export interface FileRouteTypes {
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  AdminRoute: typeof AdminRouteWithChildren
   BlogRoute: typeof BlogRouteWithChildren
+  ChangesRoute: typeof ChangesRoute
+  CompareRoute: typeof CompareRoute
   NewRoute: typeof NewRoute
   OauthCallbackRoute: typeof OauthCallbackRoute
   PrivacyRoute: typeof PrivacyRoute
@@ -252,6 +326,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof NewRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/compare': {
+      id: '/compare'
+      path: '/compare'
+      fullPath: '/compare'
+      preLoaderRoute: typeof CompareRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/changes': {
+      id: '/changes'
+      path: '/changes'
+      fullPath: '/changes'
+      preLoaderRoute: typeof ChangesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/blog': {
       id: '/blog'
       path: '/blog'
@@ -259,6 +347,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof BlogRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin': {
+      id: '/admin'
+      path: '/admin'
+      fullPath: '/admin'
+      preLoaderRoute: typeof AdminRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -273,6 +368,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof BlogIndexRouteImport
       parentRoute: typeof BlogRoute
     }
+    '/admin/catalog': {
+      id: '/admin/catalog'
+      path: '/catalog'
+      fullPath: '/admin/catalog'
+      preLoaderRoute: typeof AdminCatalogRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/health': {
+      id: '/admin/health'
+      path: '/health'
+      fullPath: '/admin/health'
+      preLoaderRoute: typeof AdminHealthRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/moderation': {
+      id: '/admin/moderation'
+      path: '/moderation'
+      fullPath: '/admin/moderation'
+      preLoaderRoute: typeof AdminModerationRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/user/$handle': {
       id: '/user/$handle'
       path: '/user/$handle'
@@ -311,6 +427,20 @@ declare module '@tanstack/react-router' {
   }
 }
 
+interface AdminRouteChildren {
+  AdminCatalogRoute: typeof AdminCatalogRoute
+  AdminHealthRoute: typeof AdminHealthRoute
+  AdminModerationRoute: typeof AdminModerationRoute
+}
+
+const AdminRouteChildren: AdminRouteChildren = {
+  AdminCatalogRoute: AdminCatalogRoute,
+  AdminHealthRoute: AdminHealthRoute,
+  AdminModerationRoute: AdminModerationRoute,
+}
+
+const AdminRouteWithChildren = AdminRoute._addFileChildren(AdminRouteChildren)
+
 interface BlogRouteChildren {
   BlogPostIdRoute: typeof BlogPostIdRoute
   BlogIndexRoute: typeof BlogIndexRoute
@@ -325,7 +455,10 @@ const BlogRouteWithChildren = BlogRoute._addFileChildren(BlogRouteChildren)
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  AdminRoute: AdminRouteWithChildren,
   BlogRoute: BlogRouteWithChildren,
+  ChangesRoute: ChangesRoute,
+  CompareRoute: CompareRoute,
   NewRoute: NewRoute,
   OauthCallbackRoute: OauthCallbackRoute,
   PrivacyRoute: PrivacyRoute,
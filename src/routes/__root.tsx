@@ -27,6 +27,7 @@ const TanStackRouterDevtools = import.meta.env.DEV
   : () => null;
 
 import { NewUserRedirect } from "~/components/auth/NewUserRedirect";
+import { CompareBar } from "~/components/CompareBar";
 import { DefaultCatchBoundary } from "~/components/DefaultCatchBoundary.js";
 import { Footer } from "~/components/Footer";
 import { NavBar } from "~/components/NavBar";
@@ -185,6 +186,7 @@ function RootDocument({ children }: { children: React.ReactNode }) {
           <NewUserRedirect>{children}</NewUserRedirect>
         </main>
         <Footer />
+        <CompareBar />
         <Suspense>
           <TanStackRouterDevtools position="bottom-right" />
         </Suspense>
@@ -0,0 +1,173 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import type { Doc, Id } from "convex/_generated/dataModel";
+import { useState } from "react";
+import { hasRole } from "shared/roles";
+import { BackdatePanel } from "~/components/admin/BackdatePanel";
+import { LockedFieldBadges } from "~/components/admin/LockedFieldBadges";
+import { ProductEditDialog } from "~/components/admin/ProductEditDialog";
+import { formatDateTime } from "~/utils/dateFormat";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/admin/catalog")({
+  component: CatalogPage,
+});
+
+function CatalogPage() {
+  const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
+
+  // Moderators can open /admin for the review queue, not the catalog
+  if (!hasRole(currentUser?.role, "admin")) {
+    return (
+      <p className="py-8 text-center text-base-content/60">
+        상품 관리는 관리자만 할 수 있습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <ProductTable />
+      <BackdatePanel />
+    </div>
+  );
+}
+
+// Products missing from the latest crawl stay on sale until removal is confirmed
+function ProductStatusBadge({ product }: { product: Doc<"products"> }) {
+  if (!(product.isActive ?? true)) {
+    return <span className="badge badge-soft">단종</span>;
+  }
+  if (product.missingSince !== undefined) {
+    return (
+      <span
+        className="badge badge-soft badge-warning"
+        title={`${formatDateTime(product.missingSince)}부터 크롤링에서 누락`}
+      >
+        누락 확인 중
+      </span>
+    );
+  }
+  return <span className="badge badge-soft badge-success">판매 중</span>;
+}
+
+function ProductTable() {
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [cafeId, setCafeId] = useState<Id<"cafes"> | "">("");
+
+  const { data: cafes } = useQuery(convexQuery(api.cafes.list, {}));
+  const { data: products, isLoading } = useQuery(
+    convexQuery(api.products.getForAdmin, {
+      searchTerm: searchTerm || undefined,
+      cafeId: cafeId || undefined,
+    })
+  );
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSearchTerm(searchInput.trim());
+  };
+
+  return (
+    <section className="space-y-4">
+      <form className="flex flex-wrap gap-2" onSubmit={handleSearch}>
+        <select
+          aria-label="카페"
+          className="select select-bordered"
+          onChange={(e) => setCafeId(e.target.value as Id<"cafes"> | "")}
+          value={cafeId}
+        >
+          <option value="">전체 카페</option>
+          {cafes?.map((cafe) => (
+            <option key={cafe._id} value={cafe._id}>
+              {cafe.name}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="상품 검색"
+          className="input input-bordered w-full max-w-xs"
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="상품 이름"
+          value={searchInput}
+        />
+        <button className="btn btn-primary" type="submit">
+          검색
+        </button>
+      </form>
+
+      <div className="overflow-x-auto rounded-box bg-base-100 shadow-sm">
+        <table className="table-sm table">
+          <thead>
+            <tr>
+              <th />
+              <th>상품</th>
+              <th>카테고리</th>
+              <th>가격</th>
+              <th>상태</th>
+              <th>잠금</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {products?.map((product) => (
+              <tr key={product._id}>
+                <td>
+                  <img
+                    alt={product.name}
+                    className="size-10 rounded object-cover"
+                    height={40}
+                    src={product.imageUrl || product.externalImageUrl}
+                    width={40}
+                  />
+                </td>
+                <td>
+                  <Link
+                    className="hover:text-primary"
+                    params={{ shortId: product.shortId }}
+                    to="/product/$shortId"
+                  >
+                    {product.name}
+                  </Link>
+                  <p className="text-base-content/60 text-xs">
+                    {product.cafeName}
+                  </p>
+                </td>
+                <td>{product.category ?? "-"}</td>
+                <td>
+                  {product.price === undefined
+                    ? "-"
+                    : `${product.price.toLocaleString()}원`}
+                </td>
+                <td>
+                  <ProductStatusBadge product={product} />
+                </td>
+                <td>
+                  <LockedFieldBadges
+                    lockedFields={product.lockedFields}
+                    productId={product._id}
+                  />
+                </td>
+                <td>
+                  <ProductEditDialog product={product} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-spinner loading-md" />
+          </div>
+        )}
+        {products?.length === 0 && (
+          <p className="py-8 text-center text-base-content/60">
+            상품이 없습니다.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
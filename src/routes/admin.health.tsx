@@ -0,0 +1,120 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import type { FunctionReturnType } from "convex/server";
+import { hasRole } from "shared/roles";
+import { CrawlRunChart } from "~/components/admin/CrawlRunChart";
+import { formatDateTime } from "~/utils/dateFormat";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/admin/health")({
+  component: HealthPage,
+});
+
+type CafeHealth = FunctionReturnType<typeof api.crawlRuns.getHealth>[number];
+type CrawlRun = CafeHealth["runs"][number];
+
+function formatCoverage(run: CrawlRun) {
+  if (run.productCount === 0) {
+    return "-";
+  }
+  return `${Math.round((run.nutritionCount / run.productCount) * 100)}%`;
+}
+
+function formatDuration(run: CrawlRun) {
+  const seconds = Math.round((run.finishedAt - run.startedAt) / 1000);
+  return seconds < 60
+    ? `${seconds}초`
+    : `${Math.floor(seconds / 60)}분 ${seconds % 60}초`;
+}
+
+function RunStatusBadge({ run }: { run: CrawlRun }) {
+  if (run.status === "failed") {
+    return <span className="badge badge-error badge-sm">실패</span>;
+  }
+  if (run.sharpDrop) {
+    return <span className="badge badge-warning badge-sm">상품 수 급감</span>;
+  }
+  return <span className="badge badge-soft badge-success badge-sm">정상</span>;
+}
+
+function CafeHealthCard({ cafe, runs }: CafeHealth) {
+  const latest = runs.at(-1);
+
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="card-title">{cafe.name}</h2>
+          {latest && <RunStatusBadge run={latest} />}
+        </div>
+
+        {latest ? (
+          <>
+            <CrawlRunChart runs={runs} />
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <dt className="text-base-content/60">최근 수집</dt>
+              <dd>{formatDateTime(latest.startedAt)}</dd>
+              <dt className="text-base-content/60">상품 수</dt>
+              <dd>
+                {latest.productCount}
+                {latest.previousCount !== undefined &&
+                  ` (이전 ${latest.previousCount})`}
+              </dd>
+              <dt className="text-base-content/60">영양 정보</dt>
+              <dd>{formatCoverage(latest)}</dd>
+              <dt className="text-base-content/60">소요 시간</dt>
+              <dd>{formatDuration(latest)}</dd>
+              {latest.upload && (
+                <>
+                  <dt className="text-base-content/60">업로드</dt>
+                  <dd>
+                    추가 {latest.upload.created} · 변경 {latest.upload.updated}{" "}
+                    · 단종 {latest.upload.removed} · 오류{" "}
+                    {latest.upload.errorCount}
+                  </dd>
+                </>
+              )}
+            </dl>
+            {latest.errors.length > 0 && (
+              <ul className="space-y-1 text-error text-sm">
+                {latest.errors.map((error) => (
+                  <li className="break-words" key={error}>
+                    {error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <p className="text-base-content/60 text-sm">수집 기록이 없습니다.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HealthPage() {
+  const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
+  const isAdmin = hasRole(currentUser?.role, "admin");
+  const { data: health } = useQuery({
+    ...convexQuery(api.crawlRuns.getHealth, {}),
+    enabled: isAdmin,
+  });
+
+  if (!isAdmin) {
+    return (
+      <p className="py-8 text-center text-base-content/60">
+        수집 현황은 관리자만 볼 수 있습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+      {health?.map((item) => (
+        <CafeHealthCard key={item.cafe._id} {...item} />
+      ))}
+    </div>
+  );
+}
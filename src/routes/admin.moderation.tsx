@@ -0,0 +1,222 @@
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import type { Id } from "convex/_generated/dataModel";
+import { useState } from "react";
+import { reportReasonLabels } from "shared/reports";
+import { formatDateTime } from "~/utils/dateFormat";
+import { showToast } from "~/utils/toast";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/admin/moderation")({
+  component: ModerationPage,
+});
+
+const actionLabels = {
+  hide: "숨김",
+  restore: "복원",
+  dismiss: "신고 기각",
+} as const;
+
+function ReviewSummary({
+  review,
+  productName,
+  productShortId,
+  authorName,
+}: {
+  review: { rating: number; text?: string; createdAt: number };
+  productName?: string;
+  productShortId?: string;
+  authorName?: string;
+}) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <p className="text-base-content/60 text-sm">
+        {productShortId ? (
+          <Link
+            className="hover:text-primary"
+            params={{ shortId: productShortId }}
+            to="/product/$shortId"
+          >
+            {productName}
+          </Link>
+        ) : (
+          "삭제된 음료"
+        )}{" "}
+        · {authorName ?? "알 수 없는 사용자"} · ★{review.rating} ·{" "}
+        {formatDateTime(review.createdAt)}
+      </p>
+      <p className="whitespace-pre-wrap break-words">
+        {review.text || (
+          <span className="text-base-content/40">(내용 없음)</span>
+        )}
+      </p>
+    </div>
+  );
+}
+
+function useModerationAction(
+  mutation:
+    | typeof api.moderation.hideReview
+    | typeof api.moderation.restoreReview
+    | typeof api.moderation.dismissReports,
+  successMessage: string
+) {
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: useConvexMutation(mutation),
+  });
+
+  const run = async (reviewId: Id<"reviews">, note: string) => {
+    try {
+      await mutateAsync({ reviewId, note: note.trim() || undefined });
+      showToast(successMessage, "success");
+    } catch {
+      showToast("처리에 실패했습니다. 다시 시도해주세요.", "error");
+    }
+  };
+
+  return { run, isPending };
+}
+
+function ModerationPage() {
+  // Attached to the next hide/restore/dismiss in the audit trail
+  const [note, setNote] = useState("");
+  const { data: queue } = useQuery(convexQuery(api.moderation.getQueue, {}));
+  const { data: hiddenReviews } = useQuery(
+    convexQuery(api.moderation.getHiddenReviews, {})
+  );
+  const { data: auditLog } = useQuery(
+    convexQuery(api.moderation.getAuditLog, {})
+  );
+
+  const hide = useModerationAction(
+    api.moderation.hideReview,
+    "후기를 숨겼습니다."
+  );
+  const restore = useModerationAction(
+    api.moderation.restoreReview,
+    "후기를 복원했습니다."
+  );
+  const dismiss = useModerationAction(
+    api.moderation.dismissReports,
+    "신고를 기각했습니다."
+  );
+
+  return (
+    <div className="space-y-8">
+      <input
+        aria-label="처리 메모"
+        className="input input-bordered w-full max-w-md"
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="처리 메모 (선택, 처리 기록에 남습니다)"
+        value={note}
+      />
+
+      <section>
+        <h2 className="mb-4 font-semibold text-xl">
+          신고된 후기 ({queue?.length ?? 0})
+        </h2>
+        {queue?.length === 0 && (
+          <p className="text-base-content/60">처리할 신고가 없습니다.</p>
+        )}
+        <div className="space-y-4">
+          {queue?.map((item) => (
+            <div className="card bg-base-100 shadow-sm" key={item.review._id}>
+              <div className="card-body gap-3">
+                <ReviewSummary {...item} />
+                <ul className="space-y-1 text-sm">
+                  {item.reports.map((report) => (
+                    <li key={report.createdAt}>
+                      <span className="badge badge-soft badge-error mr-2">
+                        {reportReasonLabels[report.reason]}
+                      </span>
+                      {report.details}
+                    </li>
+                  ))}
+                </ul>
+                <div className="card-actions justify-end">
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    disabled={dismiss.isPending}
+                    onClick={() => dismiss.run(item.review._id, note)}
+                    type="button"
+                  >
+                    기각
+                  </button>
+                  <button
+                    className="btn btn-error btn-sm"
+                    disabled={hide.isPending}
+                    onClick={() => hide.run(item.review._id, note)}
+                    type="button"
+                  >
+                    숨기기
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h2 className="mb-4 font-semibold text-xl">숨긴 후기</h2>
+        {hiddenReviews?.length === 0 && (
+          <p className="text-base-content/60">숨긴 후기가 없습니다.</p>
+        )}
+        <div className="space-y-4">
+          {hiddenReviews?.map((item) => (
+            <div className="card bg-base-100 shadow-sm" key={item.review._id}>
+              <div className="card-body flex-row items-start justify-between gap-4">
+                <ReviewSummary {...item} />
+                <button
+                  className="btn btn-outline btn-sm shrink-0"
+                  disabled={restore.isPending}
+                  onClick={() => restore.run(item.review._id, note)}
+                  type="button"
+                >
+                  복원
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h2 className="mb-4 font-semibold text-xl">처리 기록</h2>
+        <div className="overflow-x-auto rounded-box bg-base-100 shadow-sm">
+          <table className="table-sm table">
+            <thead>
+              <tr>
+                <th>시각</th>
+                <th>처리</th>
+                <th>관리자</th>
+                <th>후기</th>
+                <th>메모</th>
+              </tr>
+            </thead>
+            <tbody>
+              {auditLog?.map((log) => (
+                <tr key={log._id}>
+                  <td>{formatDateTime(log.createdAt)}</td>
+                  <td>{actionLabels[log.action]}</td>
+                  <td>{log.moderatorName}</td>
+                  <td>
+                    <Link
+                      className="link"
+                      params={{ reviewId: log.reviewId }}
+                      to="/review/$reviewId"
+                    >
+                      보기
+                    </Link>
+                  </td>
+                  <td>{log.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link, Outlet } from "@tanstack/react-router";
+import { hasRole } from "shared/roles";
+import { AuthWrapper } from "~/components/auth/AuthWrapper";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/admin")({
+  component: AuthenticatedAdminLayout,
+});
+
+function AuthenticatedAdminLayout() {
+  return (
+    <AuthWrapper>
+      <AdminLayout />
+    </AuthWrapper>
+  );
+}
+
+function AdminLayout() {
+  const { data: currentUser, isLoading } = useQuery(
+    convexQuery(api.users.current, {})
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <span className="loading loading-spinner loading-md" />
+      </div>
+    );
+  }
+
+  if (!hasRole(currentUser?.role, "moderator")) {
+    return (
+      <div className="py-16 text-center text-base-content/60">
+        관리자만 접근할 수 있습니다.
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="mb-4 font-bold text-3xl">관리자</h1>
+      <div className="tabs tabs-border mb-6" role="tablist">
+        {hasRole(currentUser?.role, "admin") && (
+          <>
+            <Link
+              activeProps={{ className: "tab-active" }}
+              className="tab"
+              role="tab"
+              to="/admin/catalog"
+            >
+              상품 관리
+            </Link>
+            <Link
+              activeProps={{ className: "tab-active" }}
+              className="tab"
+              role="tab"
+              to="/admin/health"
+            >
+              수집 현황
+            </Link>
+          </>
+        )}
+        <Link
+          activeProps={{ className: "tab-active" }}
+          className="tab"
+          role="tab"
+          to="/admin/moderation"
+        >
+          후기 관리
+        </Link>
+      </div>
+      <Outlet />
+    </div>
+  );
+}
@@ -6,23 +6,23 @@ import { useMemo, useState } from "react";
 import { z } from "zod";
 import CafeHeader from "~/components/cafe/CafeHeader";
 import { CategoryFilter } from "~/components/cafe/CategoryFilter";
-import {
-  type OrderOption,
-  OrderSelector,
-} from "~/components/cafe/OrderSelector";
+import { OrderSelector } from "~/components/cafe/OrderSelector";
 import { ProductSearchInput } from "~/components/cafe/ProductSearchInput";
+import { NutritionFilters } from "~/components/NutritionFilters";
 import { useProductReviewStats } from "~/hooks/useProductReviewStats";
 import { api } from "../../convex/_generated/api";
 import { ProductCard } from "../components/ProductCard";
 import { getOrderedCategories } from "../utils/categories";
+import {
+  type ProductFilterValues,
+  productFilterSearchSchema,
+  productOrderSchema,
+} from "../utils/productFilters";
 import { seo } from "../utils/seo";
 
-const searchSchema = z.object({
+const searchSchema = productFilterSearchSchema.extend({
   category: z.string().optional(),
-  order: z
-    .enum(["latest", "most-reviews", "highest-rating"])
-    .optional()
-    .default("latest"),
+  order: productOrderSchema.exclude(["relevance"]).optional().default("latest"),
 });
 
 export const Route = createFileRoute("/cafe/$slug")({
@@ -45,19 +45,33 @@ export const Route = createFileRoute("/cafe/$slug")({
   }),
 });
 
+function getEmptyMessage(searchQuery: string, hasProductFilters: boolean) {
+  if (searchQuery) {
+    return `"${searchQuery}"에 대한 검색 결과가 없습니다.`;
+  }
+  return hasProductFilters
+    ? "조건에 맞는 상품이 없습니다."
+    : "상품이 없습니다.";
+}
+
 function CafePage() {
   const { slug } = Route.useParams();
   const { data: cafe } = useSuspenseQuery(
     convexQuery(api.cafes.getBySlug, { slug })
   );
 
-  const { category: selectedCategory, order: selectedOrder = "latest" } =
-    Route.useSearch();
-  const navigate = useNavigate();
+  const {
+    category: selectedCategory,
+    order: selectedOrder = "latest",
+    ...productFilters
+  } = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
 
   const { data: products, isLoading: productsLoading } = useQuery({
     ...convexQuery(api.products.getByCafe, {
       cafeId: cafe?._id as Id<"cafes">,
+      order: selectedOrder,
+      ...productFilters,
     }),
     enabled: !!cafe?._id,
   });
@@ -87,25 +101,6 @@ function CafePage() {
     return result;
   }, [products, selectedCategory, searchQuery]);
 
-  const sortedProducts = (() => {
-    if (!filteredProducts) {
-      return;
-    }
-    const sorted = [...filteredProducts];
-    switch (selectedOrder) {
-      case "most-reviews":
-        return sorted.sort(
-          (a, b) => (b.totalReviews ?? 0) - (a.totalReviews ?? 0)
-        );
-      case "highest-rating":
-        return sorted.sort(
-          (a, b) => (b.averageRating ?? 0) - (a.averageRating ?? 0)
-        );
-      default:
-        return sorted;
-    }
-  })();
-
   const handleCategoryChange = (newCategory: string) => {
     if (!cafe) {
       return;
@@ -122,7 +117,7 @@ function CafePage() {
     });
   };
 
-  const handleOrderChange = (newOrder: OrderOption) => {
+  const handleOrderChange = (newOrder: typeof selectedOrder) => {
     if (!cafe) {
       return;
     }
@@ -138,6 +133,25 @@ function CafePage() {
     });
   };
 
+  const handleProductFiltersChange = (
+    filters: Partial<ProductFilterValues>
+  ) => {
+    if (!cafe) {
+      return;
+    }
+
+    navigate({
+      to: "/cafe/$slug",
+      params: { slug: cafe.slug },
+      search: (prev) => ({ ...prev, ...filters }),
+      replace: true,
+    });
+  };
+
+  const hasProductFilters = Object.values(productFilters).some(
+    (value) => value !== undefined
+  );
+
   if (!cafe) {
     return null;
   }
@@ -153,11 +167,20 @@ function CafePage() {
           <OrderSelector onChange={handleOrderChange} value={selectedOrder} />
         </div>
 
+        <div className="mb-6">
+          <NutritionFilters
+            onChange={handleProductFiltersChange}
+            value={productFilters}
+          />
+        </div>
+
         <CategoryFilter
           categories={categories}
           isLoading={productsLoading}
           onCategoryChange={handleCategoryChange}
+          onTagsChange={(tags) => handleProductFiltersChange({ tags })}
           selectedCategory={selectedCategory}
+          selectedTags={productFilters.tags}
         />
 
         {/* Products Grid */}
@@ -180,7 +203,7 @@ function CafePage() {
                   </div>
                 </div>
               ))
-            : sortedProducts?.map((product, index) => (
+            : filteredProducts?.map((product, index) => (
                 <ProductCard
                   key={product._id}
                   priority={index < 8}
@@ -190,12 +213,10 @@ function CafePage() {
               ))}
         </div>
 
-        {!productsLoading && sortedProducts?.length === 0 && (
+        {!productsLoading && filteredProducts?.length === 0 && (
           <div className="py-12 text-center">
             <p className="text-base-content/70">
-              {searchQuery.trim()
-                ? `"${searchQuery.trim()}"에 대한 검색 결과가 없습니다.`
-                : "상품이 없습니다."}
+              {getEmptyMessage(searchQuery.trim(), hasProductFilters)}
             </p>
           </div>
         )}
@@ -0,0 +1,184 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { z } from "zod";
+import { nutritionItems } from "~/components/NutritionTable";
+import { api } from "../../convex/_generated/api";
+import type { FieldChange, MenuChangeKind } from "../../convex/productChanges";
+import { seo } from "../utils/seo";
+
+const searchSchema = z.object({
+  cafe: z.string().optional(),
+});
+
+const CHANGE_FEED_LIMIT = 100;
+
+const KIND_BADGES: Record<
+  MenuChangeKind,
+  { label: string; className: string }
+> = {
+  new: { label: "신메뉴", className: "badge-success" },
+  discontinued: { label: "단종", className: "badge-warning" },
+  returning: { label: "재출시", className: "badge-info" },
+  renamed: { label: "이름 변경", className: "badge-neutral" },
+  nutrition: { label: "영양정보 수정", className: "badge-secondary" },
+};
+
+const NUTRITION_LABELS: Record<string, string> = {
+  servingSize: "총 내용량",
+  calories: "칼로리",
+  ...Object.fromEntries(nutritionItems.map((item) => [item.key, item.name])),
+};
+
+export const Route = createFileRoute("/changes")({
+  component: ChangesPage,
+  validateSearch: searchSchema,
+  loaderDeps: ({ search }) => ({ cafe: search.cafe }),
+  loader: async ({ context, deps }) => {
+    const cafes = await context.queryClient.ensureQueryData(
+      convexQuery(api.cafes.list, {})
+    );
+    const cafeId = cafes.find((cafe) => cafe.slug === deps.cafe)?._id;
+    await context.queryClient.ensureQueryData(
+      convexQuery(api.productChanges.getRecent, {
+        cafeId,
+        limit: CHANGE_FEED_LIMIT,
+      })
+    );
+  },
+  head: () => ({
+    meta: [
+      ...seo({
+        title: "메뉴 변경 - 잔점",
+        description:
+          "카페별 신메뉴, 단종, 재출시, 이름 변경, 영양정보 수정 내역을 확인하세요.",
+        keywords: "메뉴 변경, 신메뉴, 단종, 카페, 음료, 잔점",
+      }),
+    ],
+  }),
+});
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("ko-KR");
+}
+
+function formatValue(value: string | number | undefined): string {
+  return value === undefined ? "-" : String(value);
+}
+
+function ChangeDetails({
+  kinds,
+  changes,
+}: {
+  kinds: MenuChangeKind[];
+  changes: FieldChange[];
+}) {
+  const rename = kinds.includes("renamed")
+    ? changes.find((change) => change.field === "name")
+    : undefined;
+  const nutritionChanges = kinds.includes("nutrition")
+    ? changes.filter((change) => {
+        const field = change.field.replace("nutritions.", "");
+        return field in NUTRITION_LABELS;
+      })
+    : [];
+
+  if (!rename && nutritionChanges.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-base-content/70 text-sm">
+      {rename && (
+        <li>
+          {formatValue(rename.before)} → {formatValue(rename.after)}
+        </li>
+      )}
+      {nutritionChanges.map((change) => (
+        <li key={change.field}>
+          {NUTRITION_LABELS[change.field.replace("nutritions.", "")]}{" "}
+          {formatValue(change.before)} → {formatValue(change.after)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ChangesPage() {
+  const { cafe: cafeSlug } = Route.useSearch();
+  const { data: cafes } = useSuspenseQuery(convexQuery(api.cafes.list, {}));
+  const cafeId = cafes.find((cafe) => cafe.slug === cafeSlug)?._id;
+  const { data: changes } = useSuspenseQuery(
+    convexQuery(api.productChanges.getRecent, {
+      cafeId,
+      limit: CHANGE_FEED_LIMIT,
+    })
+  );
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="mb-6 font-bold text-3xl">메뉴 변경</h1>
+
+        <div className="mb-8 flex flex-wrap gap-2">
+          <Link
+            className={`btn btn-sm ${cafeId ? "btn-ghost" : "btn-primary"}`}
+            search={{}}
+            to="/changes"
+          >
+            전체
+          </Link>
+          {cafes.map((cafe) => (
+            <Link
+              className={`btn btn-sm ${cafe._id === cafeId ? "btn-primary" : "btn-ghost"}`}
+              key={cafe._id}
+              search={{ cafe: cafe.slug }}
+              to="/changes"
+            >
+              {cafe.name}
+            </Link>
+          ))}
+        </div>
+
+        {changes.length === 0 && (
+          <p className="text-center text-base-content/60">
+            최근 메뉴 변경 내역이 없습니다.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {changes.map((change) => (
+            <li className="card bg-base-100 shadow-sm" key={change._id}>
+              <div className="card-body gap-1 p-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  {change.kinds.map((kind) => (
+                    <span
+                      className={`badge badge-soft ${KIND_BADGES[kind].className}`}
+                      key={kind}
+                    >
+                      {KIND_BADGES[kind].label}
+                    </span>
+                  ))}
+                  <span className="text-base-content/60 text-sm">
+                    {change.cafeName}
+                  </span>
+                  <span className="ml-auto text-base-content/50 text-xs">
+                    {formatDate(change.createdAt)}
+                  </span>
+                </div>
+                <Link
+                  className="font-semibold hover:text-primary"
+                  params={{ shortId: change.productShortId }}
+                  to="/product/$shortId"
+                >
+                  {change.productName}
+                </Link>
+                <ChangeDetails changes={change.changes} kinds={change.kinds} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import type { Nutritions } from "shared/nutritions";
+import { z } from "zod";
+import { NutritionLevels } from "~/components/NutritionLevels";
+import { nutritionItems } from "~/components/NutritionTable";
+import { RatingSummary } from "~/components/RatingSummary";
+import { MAX_COMPARE_PRODUCTS, useCompareList } from "~/hooks/useCompareList";
+import { useProductReviewStats } from "~/hooks/useProductReviewStats";
+import { api } from "../../convex/_generated/api";
+import { seo } from "../utils/seo";
+
+const searchSchema = z.object({
+  ids: z.string().optional(),
+});
+
+function parseShortIds(ids: string | undefined): string[] {
+  return (ids ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .slice(0, MAX_COMPARE_PRODUCTS);
+}
+
+const NUTRITION_ROWS: { key: keyof Nutritions; name: string }[] = [
+  { key: "servingSize", name: "총 내용량" },
+  { key: "calories", name: "칼로리" },
+  ...nutritionItems,
+];
+
+export const Route = createFileRoute("/compare")({
+  component: ComparePage,
+  validateSearch: searchSchema,
+  loaderDeps: ({ search }) => ({ ids: search.ids }),
+  loader: async ({ context, deps }) => {
+    await context.queryClient.ensureQueryData(
+      convexQuery(api.products.getByShortIds, {
+        shortIds: parseShortIds(deps.ids),
+      })
+    );
+  },
+  head: () => ({
+    meta: [
+      ...seo({
+        title: "음료 비교 - 잔점",
+        description: "여러 카페 음료의 가격과 영양 정보를 나란히 비교하세요.",
+        keywords: "음료 비교, 카페, 영양정보, 가격, 잔점",
+      }),
+    ],
+  }),
+});
+
+function formatNutrition(nutritions: Nutritions | undefined, key: string) {
+  const value = nutritions?.[key as keyof Nutritions];
+  if (value === undefined) {
+    return "-";
+  }
+  const unit = nutritions?.[`${key}Unit` as keyof Nutritions] ?? "";
+  return `${value}${unit}`;
+}
+
+function getPricePer100ml(
+  price: number | undefined,
+  nutritions: Nutritions | undefined
+): number | undefined {
+  if (
+    !(price && nutritions?.servingSize) ||
+    nutritions.servingSizeUnit !== "ml"
+  ) {
+    return;
+  }
+  return Math.round((price / nutritions.servingSize) * 100);
+}
+
+function ComparePage() {
+  const { ids } = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const { remove } = useCompareList();
+  const shortIds = parseShortIds(ids);
+
+  const { data: products } = useSuspenseQuery(
+    convexQuery(api.products.getByShortIds, { shortIds })
+  );
+  const reviewStats = useProductReviewStats(
+    products.map((product) => product._id)
+  );
+
+  const handleRemove = (shortId: string) => {
+    remove(shortId);
+    navigate({
+      search: { ids: shortIds.filter((id) => id !== shortId).join(",") },
+    });
+  };
+
+  if (products.length === 0) {
+    return (
+      <div className="min-h-screen bg-base-200">
+        <div className="container mx-auto px-4 py-8">
+          <h1 className="mb-8 font-bold text-3xl">음료 비교</h1>
+          <p className="text-center text-base-content/60">
+            상품 카드의 &quot;비교에 추가&quot; 버튼으로 최대{" "}
+            {MAX_COMPARE_PRODUCTS}개까지 비교할 수 있습니다.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="mb-8 font-bold text-3xl">음료 비교</h1>
+
+        <div className="overflow-x-auto rounded-box bg-base-100 shadow-sm">
+          <table className="table table-fixed">
+            <thead>
+              <tr>
+                <th className="w-24" />
+                {products.map((product) => (
+                  <th className="min-w-40 align-top" key={product._id}>
+                    <div className="space-y-2">
+                      <img
+                        alt={product.name}
+                        className="aspect-square w-full max-w-40 rounded-box object-cover"
+                        height={160}
+                        src={product.imageUrl || product.externalImageUrl}
+                        width={160}
+                      />
+                      <p className="font-normal text-base-content/60 text-sm">
+                        {product.cafeName}
+                      </p>
+                      <Link
+                        className="block break-keep text-base hover:text-primary"
+                        params={{ shortId: product.shortId }}
+                        to="/product/$shortId"
+                      >
+                        {product.name}
+                      </Link>
+                      <button
+                        className="btn btn-ghost btn-xs"
+                        onClick={() => handleRemove(product.shortId)}
+                        type="button"
+                      >
+                        빼기
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <th>가격</th>
+                {products.map((product) => (
+                  <td className="font-bold text-primary" key={product._id}>
+                    {product.price
+                      ? `${product.price.toLocaleString()}원`
+                      : "-"}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <th>100ml당</th>
+                {products.map((product) => {
+                  const pricePer100ml = getPricePer100ml(
+                    product.price,
+                    product.nutritions
+                  );
+                  return (
+                    <td key={product._id}>
+                      {pricePer100ml
+                        ? `${pricePer100ml.toLocaleString()}원`
+                        : "-"}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr>
+                <th>리뷰</th>
+                {products.map((product) => {
+                  const stats = reviewStats?.[product._id];
+                  return (
+                    <td key={product._id}>
+                      {stats && <RatingSummary reviewStats={stats} />}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr>
+                <th>영양 수준</th>
+                {products.map((product) => (
+                  <td key={product._id}>
+                    <NutritionLevels nutritions={product.nutritions} />
+                  </td>
+                ))}
+              </tr>
+              {NUTRITION_ROWS.map((row) => (
+                <tr key={row.key}>
+                  <th>{row.name}</th>
+                  {products.map((product) => (
+                    <td key={product._id}>
+                      {formatNutrition(product.nutritions, row.key)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { convexQuery } from "@convex-dev/react-query";
 import { useSuspenseQuery } from "@tanstack/react-query";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { Authenticated } from "convex/react";
 import { useState } from "react";
 import { BrandCafeListSection } from "~/components/BrandCafeListSection";
+import { FollowingFeedSection } from "~/components/FollowingFeedSection";
 import { SearchIcon } from "~/components/icons/SearchIcon";
 import {
   NewProductsSection,
@@ -75,6 +77,9 @@ function Home() {
         </div>
       </div>
 
+      <Authenticated>
+        <FollowingFeedSection />
+      </Authenticated>
       <NewProductsSection />
       <BrandCafeListSection cafes={cafes} />
     </div>
@@ -1,22 +1,19 @@
-import { useQueries } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
-import { useState } from "react";
-import {
-  NEW_PRODUCTS_PAGE_SIZE,
-  recentProductsPageQueryOptions,
-} from "~/components/NewProductsSection";
+import { usePaginatedQuery } from "convex/react";
+import { recentProductsQueryOptions } from "~/components/NewProductsSection";
 import { ProductCard } from "~/components/ProductCard";
+import { useInfiniteScroll } from "~/hooks/useInfiniteScroll";
 import { useProductReviewStats } from "~/hooks/useProductReviewStats";
+import { api } from "../../convex/_generated/api";
 import type { Doc } from "../../convex/_generated/dataModel";
 import { seo } from "../utils/seo";
 
 export const Route = createFileRoute("/new")({
   component: NewProductsPage,
   loader: async (opts) => {
-    // SSR only the first page; further pages load on demand via "더 보기".
-    await opts.context.queryClient.ensureQueryData(
-      recentProductsPageQueryOptions(0)
-    );
+    // Shared with the home page section; carries the total count
+    await opts.context.queryClient.ensureQueryData(recentProductsQueryOptions);
   },
   head: () => ({
     meta: [
@@ -29,6 +26,8 @@ export const Route = createFileRoute("/new")({
   }),
 });
 
+const NEW_PRODUCTS_PAGE_SIZE = 40;
+
 type ProductWithCafe = Doc<"products"> & {
   cafeName: string;
   imageUrl?: string;
@@ -79,18 +78,24 @@ function groupByCafe(
 }
 
 function NewProductsPage() {
-  const [pageCount, setPageCount] = useState(1);
-
-  const pageQueries = useQueries({
-    queries: Array.from({ length: pageCount }, (_, pageIndex) =>
-      recentProductsPageQueryOptions(pageIndex * NEW_PRODUCTS_PAGE_SIZE)
-    ),
-  });
+  const { data: recent } = useQuery(recentProductsQueryOptions);
+  const totalCount = recent?.totalCount ?? 0;
 
-  const products = pageQueries.flatMap((page) => page.data?.products ?? []);
-  const totalCount = pageQueries.at(0)?.data?.totalCount ?? 0;
-  const hasMore = products.length < totalCount;
-  const isLoadingMore = pageQueries.some((page) => page.isPending);
+  const {
+    results: products,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.products.getRecentPaginated,
+    {},
+    { initialNumItems: NEW_PRODUCTS_PAGE_SIZE }
+  );
+  const sentinelRef = useInfiniteScroll(
+    status,
+    loadMore,
+    NEW_PRODUCTS_PAGE_SIZE
+  );
+  const isLoading = status === "LoadingFirstPage" || status === "LoadingMore";
 
   const reviewStats = useProductReviewStats(
     products.map((product) => product._id)
@@ -107,7 +112,7 @@ function NewProductsPage() {
           )}
         </h1>
 
-        {cafeGroups.length === 0 && !isLoadingMore && (
+        {cafeGroups.length === 0 && !isLoading && (
           <p className="text-center text-base-content/60">
             최근 30일 이내 신상품이 없습니다.
           </p>
@@ -132,18 +137,11 @@ function NewProductsPage() {
           </div>
         ))}
 
-        {hasMore && (
+        {/* Loads the next page when scrolled into view */}
+        <div ref={sentinelRef} />
+        {isLoading && (
           <div className="flex justify-center">
-            <button
-              className="btn btn-outline btn-wide"
-              disabled={isLoadingMore}
-              onClick={() => setPageCount((count) => count + 1)}
-              type="button"
-            >
-              {isLoadingMore
-                ? "불러오는 중..."
-                : `더 보기 (${totalCount - products.length}개 남음)`}
-            </button>
+            <span className="loading loading-spinner loading-md" />
           </div>
         )}
       </div>
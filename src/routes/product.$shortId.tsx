@@ -2,12 +2,18 @@ import { convexQuery } from "@convex-dev/react-query";
 import { useSuspenseQuery } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
 import type { Id } from "convex/_generated/dataModel";
+import { productTagLabels } from "shared/tags";
+import { BookmarkButton } from "~/components/BookmarkButton";
+import { CompareButton } from "~/components/CompareButton";
+import { LogIntakeButton } from "~/components/LogIntakeButton";
 import { NutritionInfoSection } from "~/components/NutritionInfoSection";
+import { PriceHistoryChart } from "~/components/PriceHistoryChart";
 import { RatingSummary } from "~/components/RatingSummary";
 import { api } from "../../convex/_generated/api";
 import { BackLink } from "../components/BackLink";
 import { ExternalLinkIcon } from "../components/icons/ExternalLinkIcon";
 import { ReviewSection } from "../components/reviews/ReviewSection";
+import { SubRatingBars } from "../components/reviews/SubRatingBars";
 import { seo } from "../utils/seo";
 
 export const Route = createFileRoute("/product/$shortId")({
@@ -59,6 +65,12 @@ function ProductPage() {
     })
   );
 
+  const { data: priceHistory } = useSuspenseQuery(
+    convexQuery(api.priceHistory.getByProduct, {
+      productId: product?._id as Id<"products">,
+    })
+  );
+
   if (!product) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-base-200">
@@ -73,6 +85,9 @@ function ProductPage() {
   }
 
   const { isActive } = product;
+  // Shown even without a base price; some cafes only price each size
+  const pricedVariants =
+    product.variants?.filter((variant) => variant.price) ?? [];
 
   return (
     <div className="min-h-screen bg-base-200">
@@ -115,18 +130,62 @@ function ProductPage() {
                   {product.nameEn}
                 </p>
               )}
+              {product.tags.length > 0 && (
+                <div className="mb-4 flex flex-wrap gap-1">
+                  {product.tags.map((tag) => (
+                    <div className="badge badge-soft badge-secondary" key={tag}>
+                      {productTagLabels[tag]}
+                    </div>
+                  ))}
+                </div>
+              )}
               {/* Rating Display */}
-              <RatingSummary className="mt-4" reviewStats={reviewStats} />
+              <div className="mt-4 flex items-center justify-between gap-4">
+                <RatingSummary reviewStats={reviewStats} />
+                <div className="flex items-center gap-2">
+                  {isActive && (
+                    <LogIntakeButton
+                      productId={product._id}
+                      variants={product.variants}
+                    />
+                  )}
+                  <CompareButton shortId={product.shortId} />
+                  <BookmarkButton productId={product._id} />
+                </div>
+              </div>
+              <SubRatingBars
+                className="mt-4"
+                subRatings={reviewStats.subRatings}
+              />
             </div>
 
             {/* Price */}
-            {product.price && (
+            {(product.price || pricedVariants.length > 0) && (
               <div className="card border border-primary/20 bg-primary/10">
                 <div className="card-body">
-                  <h3 className="card-title text-primary">가격</h3>
-                  <p className="font-bold text-2xl text-primary">
-                    {product.price.toLocaleString()}원
-                  </p>
+                  <div className="flex items-center gap-2">
+                    <h3 className="card-title text-primary">가격</h3>
+                    {priceHistory.hasRecentIncrease && (
+                      <div className="badge badge-soft badge-error">
+                        가격 인상
+                      </div>
+                    )}
+                  </div>
+                  {product.price && (
+                    <p className="font-bold text-2xl text-primary">
+                      {product.price.toLocaleString()}원
+                    </p>
+                  )}
+                  {pricedVariants.length > 0 && (
+                    <ul className="flex flex-wrap gap-x-3 text-primary/80 text-sm">
+                      {pricedVariants.map((variant) => (
+                        <li key={variant.size}>
+                          {variant.size} {variant.price?.toLocaleString()}원
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <PriceHistoryChart entries={priceHistory.entries} />
                 </div>
               </div>
             )}
@@ -139,7 +198,10 @@ function ProductPage() {
             )}
 
             {/* Nutrition Information Section */}
-            <NutritionInfoSection nutritions={product.nutritions} />
+            <NutritionInfoSection
+              nutritions={product.nutritions}
+              variants={product.variants}
+            />
 
             {/* Product Metadata */}
 
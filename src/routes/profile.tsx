@@ -1,14 +1,23 @@
 import { convexQuery } from "@convex-dev/react-query";
 import { useQuery } from "@tanstack/react-query";
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import type { Id } from "convex/_generated/dataModel";
+import { z } from "zod";
 import { AuthWrapper } from "~/components/auth/AuthWrapper";
+import { IntakeTracker } from "~/components/profile/IntakeTracker";
+import { ProfileBookmarks } from "~/components/profile/ProfileBookmarks";
 import { ProfileHeader } from "~/components/profile/ProfileHeader";
 import { ProfileReviews } from "~/components/profile/ProfileReviews";
 import { ProfileStats } from "~/components/profile/ProfileStats";
 import { api } from "../../convex/_generated/api";
 
+const searchSchema = z.object({
+  tab: z.enum(["reviews", "intake", "bookmarks"]).optional().catch(undefined),
+});
+
 export const Route = createFileRoute("/profile")({
   component: AuthenticatedProfilePage,
+  validateSearch: searchSchema,
 });
 
 function AuthenticatedProfilePage() {
@@ -20,16 +29,12 @@ function AuthenticatedProfilePage() {
 }
 
 function ProfilePage() {
+  const { tab = "reviews" } = Route.useSearch();
   const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
 
-  // Get user's reviews
-  const {
-    data: userReviews = [],
-    isLoading: reviewsLoading,
-    error: reviewsError,
-  } = useQuery({
-    ...convexQuery(api.reviews.getUserReviews, {
-      userId: currentUser?._id || "",
+  const { data: followStats } = useQuery({
+    ...convexQuery(api.follows.getFollowStats, {
+      userId: currentUser?._id as Id<"users">,
     }),
     enabled: !!currentUser?._id,
   });
@@ -46,20 +51,53 @@ function ProfilePage() {
     <div className="container mx-auto max-w-4xl px-4 py-6">
       <ProfileHeader isCurrentUser user={currentUser} />
 
-      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
-        <div className="lg:col-span-1">
-          <ProfileStats isLoading={statsLoading} userStats={userStats} />
-        </div>
+      <div className="tabs tabs-border mb-6" role="tablist">
+        <Link
+          aria-selected={tab === "reviews"}
+          className={`tab ${tab === "reviews" ? "tab-active" : ""}`}
+          role="tab"
+          search={{ tab: undefined }}
+          to="/profile"
+        >
+          후기
+        </Link>
+        <Link
+          aria-selected={tab === "intake"}
+          className={`tab ${tab === "intake" ? "tab-active" : ""}`}
+          role="tab"
+          search={{ tab: "intake" }}
+          to="/profile"
+        >
+          오늘 마신 음료
+        </Link>
+        <Link
+          aria-selected={tab === "bookmarks"}
+          className={`tab ${tab === "bookmarks" ? "tab-active" : ""}`}
+          role="tab"
+          search={{ tab: "bookmarks" }}
+          to="/profile"
+        >
+          저장한 음료
+        </Link>
+      </div>
+
+      {tab === "intake" && <IntakeTracker />}
+      {tab === "bookmarks" && <ProfileBookmarks />}
+      {tab === "reviews" && (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-1">
+            <ProfileStats
+              followStats={followStats}
+              isLoading={statsLoading}
+              userStats={userStats}
+            />
+          </div>
 
-        <div className="lg:col-span-2">
-          <ProfileReviews
-            error={reviewsError}
-            isCurrentUser
-            isLoading={reviewsLoading}
-            userReviews={userReviews}
-          />
+          <div className="lg:col-span-2">
+            <ProfileReviews isCurrentUser userId={currentUser?._id} />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
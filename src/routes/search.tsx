@@ -2,40 +2,58 @@ import { convexQuery } from "@convex-dev/react-query";
 import { useSuspenseQuery } from "@tanstack/react-query";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useMemo, useState } from "react";
+import { z } from "zod";
+import { OrderSelector } from "~/components/cafe/OrderSelector";
+import { NutritionFilters } from "~/components/NutritionFilters";
+import { TagFilter } from "~/components/TagFilter";
 import { usePostHogEvents } from "~/hooks/usePostHogEvents";
 import { useProductReviewStats } from "~/hooks/useProductReviewStats";
 import { api } from "../../convex/_generated/api";
 import { SearchIcon } from "../components/icons/SearchIcon";
 import { ProductCard } from "../components/ProductCard";
 import { NameSearchInput } from "../components/search/NameSearchForm";
+import {
+  type ProductFilterValues,
+  productFilterSearchSchema,
+  productOrderSchema,
+} from "../utils/productFilters";
+
+const searchSchema = productFilterSearchSchema.extend({
+  searchTerm: z.string().optional().default(""),
+  order: productOrderSchema.optional().default("relevance"),
+});
+
+type SearchFilters = z.infer<typeof searchSchema>;
+
+function hasSearchCriteria({ searchTerm, order, ...filters }: SearchFilters) {
+  return (
+    !!searchTerm.trim() ||
+    Object.values(filters).some((value) => value !== undefined)
+  );
+}
 
-interface SearchFilters {
-  searchTerm?: string;
+function toSearchArgs({ searchTerm, ...filters }: SearchFilters) {
+  return { searchTerm: searchTerm || undefined, ...filters, limit: 100 };
 }
 
 export const Route = createFileRoute("/search")({
   component: SearchPage,
-  validateSearch: (search: Record<string, unknown>): SearchFilters => ({
-    searchTerm: (search.searchTerm as string) || "",
-  }),
-  loader: async (opts) => {
-    const searchFilters = opts.location.search as SearchFilters;
-
-    // Only prefetch if there's a search term to avoid unnecessary empty queries
-    if (searchFilters.searchTerm?.trim()) {
-      await opts.context.queryClient.ensureQueryData(
-        convexQuery(api.products.search, {
-          searchTerm: searchFilters.searchTerm,
-          limit: 100,
-        })
+  validateSearch: searchSchema,
+  loaderDeps: ({ search }) => search,
+  loader: async ({ context, deps }) => {
+    // Only prefetch with search criteria to avoid unnecessary empty queries
+    if (hasSearchCriteria(deps)) {
+      await context.queryClient.ensureQueryData(
+        convexQuery(api.products.search, toSearchArgs(deps))
       );
     }
   },
 });
 
 function SearchPage() {
-  const navigate = useNavigate();
-  const { searchTerm } = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
+  const search = Route.useSearch();
+  const { searchTerm, order, ...productFilters } = search;
   const { trackSearch } = usePostHogEvents();
 
   // Local state for form inputs
@@ -44,13 +62,7 @@ function SearchPage() {
   });
 
   // Get search results
-  const searchParams = useMemo(
-    () => ({
-      searchTerm: searchTerm || undefined,
-      limit: 100,
-    }),
-    [searchTerm]
-  );
+  const searchParams = useMemo(() => toSearchArgs(search), [search]);
 
   const { data: searchResults } = useSuspenseQuery(
     convexQuery(api.products.search, searchParams)
@@ -73,9 +85,20 @@ function SearchPage() {
 
     navigate({
       to: "/search",
-      search: {
+      search: (prev) => ({
+        ...prev,
         searchTerm: trimmedSearchTerm || "",
-      },
+      }),
+    });
+  };
+
+  const handleFiltersChange = (
+    filters: Partial<ProductFilterValues & Pick<SearchFilters, "order">>
+  ) => {
+    navigate({
+      to: "/search",
+      search: (prev) => ({ ...prev, ...filters }),
+      replace: true,
     });
   };
 
@@ -111,13 +134,31 @@ function SearchPage() {
                 검색
               </button>
             </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <NutritionFilters
+                onChange={handleFiltersChange}
+                value={productFilters}
+              />
+              <OrderSelector
+                onChange={(newOrder) =>
+                  handleFiltersChange({ order: newOrder })
+                }
+                showRelevance
+                value={order}
+              />
+            </div>
+            <TagFilter
+              onChange={(tags) => handleFiltersChange({ tags })}
+              selectedTags={productFilters.tags}
+            />
           </form>
         </div>
       </div>
 
       {/* Search Results */}
       <div className="container mx-auto px-4 py-8">
-        {searchTerm?.trim() ? (
+        {hasSearchCriteria(search) ? (
           <>
             <div className="mb-6 flex items-center justify-between">
               <h2 className="font-semibold text-xl">
@@ -141,7 +182,7 @@ function SearchPage() {
                   검색 결과가 없습니다
                 </h3>
                 <p className="mb-4 text-base-content/60">
-                  다른 검색어를 시도해보세요.
+                  다른 검색어나 조건을 시도해보세요.
                 </p>
               </div>
             )}
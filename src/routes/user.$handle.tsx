@@ -1,6 +1,7 @@
 import { convexQuery } from "@convex-dev/react-query";
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, notFound } from "@tanstack/react-router";
+import type { Id } from "convex/_generated/dataModel";
 import { ProfileHeader } from "~/components/profile/ProfileHeader";
 import { ProfileReviews } from "~/components/profile/ProfileReviews";
 import { ProfileStats } from "~/components/profile/ProfileStats";
@@ -43,14 +44,9 @@ function UserProfilePage() {
   // Get current user to check if this is their own profile
   const { data: currentUser } = useQuery(convexQuery(api.users.current, {}));
 
-  // Get user's reviews
-  const {
-    data: userReviews = [],
-    isLoading: reviewsLoading,
-    error: reviewsError,
-  } = useQuery({
-    ...convexQuery(api.reviews.getUserReviews, {
-      userId: user?._id || "",
+  const { data: followStats } = useQuery({
+    ...convexQuery(api.follows.getFollowStats, {
+      userId: user?._id as Id<"users">,
     }),
     enabled: !!user?._id,
   });
@@ -87,16 +83,15 @@ function UserProfilePage() {
 
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
         <div className="lg:col-span-1">
-          <ProfileStats isLoading={statsLoading} userStats={userStats} />
+          <ProfileStats
+            followStats={followStats}
+            isLoading={statsLoading}
+            userStats={userStats}
+          />
         </div>
 
         <div className="lg:col-span-2">
-          <ProfileReviews
-            error={reviewsError}
-            isCurrentUser={isCurrentUser}
-            isLoading={reviewsLoading}
-            userReviews={userReviews}
-          />
+          <ProfileReviews isCurrentUser={isCurrentUser} userId={user._id} />
         </div>
       </div>
     </div>
@@ -16,3 +16,12 @@ export function formatDateKorean(dateString: string): string {
 
   return `${year}년 ${month}월 ${day}일`;
 }
+
+/**
+ * Format a timestamp as "2025.1.23 9:05" for admin tables
+ */
+export function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const minutes = date.getMinutes().toString().padStart(2, "0");
+  return `${date.getFullYear()}.${date.getMonth() + 1}.${date.getDate()} ${date.getHours()}:${minutes}`;
+}
@@ -0,0 +1,27 @@
+import { PRODUCT_TAGS, type ProductTag } from "shared/tags";
+import { z } from "zod";
+
+// URL search params accepted by products.getByCafe and products.search
+export const productFilterSearchSchema = z.object({
+  maxCalories: z.number().positive().optional().catch(undefined),
+  maxSugar: z.number().nonnegative().optional().catch(undefined),
+  caffeineFree: z.boolean().optional().catch(undefined),
+  hasNutrition: z.boolean().optional().catch(undefined),
+  tags: z
+    .array(z.enum(PRODUCT_TAGS as [ProductTag, ...ProductTag[]]))
+    .optional()
+    .catch(undefined),
+});
+
+export type ProductFilterValues = z.infer<typeof productFilterSearchSchema>;
+
+export const productOrderSchema = z.enum([
+  "relevance",
+  "latest",
+  "most-reviews",
+  "highest-rating",
+  "lowest-calories",
+  "lowest-sugar",
+  "most-caffeine",
+  "cheapest",
+]);